@@ -20,6 +20,31 @@ export const UI = {
 
   /** Wheel/scroll close delay (ms) */
   WHEEL_CLOSE_DELAY: 800,
+
+  /** Range rows above which pickers read values lazily instead of building option arrays */
+  LAZY_RANGE_THRESHOLD: 10000,
+
+  /** Rows an arrow key or wheel step covers while Shift is held */
+  COARSE_STEP_MULTIPLIER: 10,
+
+  /** Rows per auto-repeated arrow key press, by how long the key has been held (ms) */
+  KEY_REPEAT_ACCELERATION: [
+    { afterMs: 500, rows: 2 },
+    { afterMs: 1000, rows: 4 },
+    { afterMs: 2000, rows: 8 },
+  ],
+
+  /** Horizontal travel (px) before a press on the closed display becomes a scrub */
+  SCRUB_START_THRESHOLD: 4,
+
+  /** Horizontal travel (px) per value step while scrubbing */
+  SCRUB_PIXELS_PER_STEP: 8,
+
+  /** Delay (ms) before a held stepper button starts repeating */
+  STEPPER_REPEAT_DELAY: 400,
+
+  /** Interval (ms) between steps of a held stepper button */
+  STEPPER_REPEAT_INTERVAL: 80,
 } as const;
 
 // Individual exports for backwards compatibility
@@ -28,3 +53,10 @@ export const HIGHLIGHT_TAP_MOVEMENT_THRESHOLD = UI.HIGHLIGHT_TAP_MOVEMENT_THRESH
 export const CLICK_OUTSIDE_DELAY = UI.CLICK_OUTSIDE_DELAY;
 export const BOUNDARY_SETTLE_DELAY = UI.BOUNDARY_SETTLE_DELAY;
 export const WHEEL_CLOSE_DELAY = UI.WHEEL_CLOSE_DELAY;
+export const LAZY_RANGE_THRESHOLD = UI.LAZY_RANGE_THRESHOLD;
+export const COARSE_STEP_MULTIPLIER = UI.COARSE_STEP_MULTIPLIER;
+export const KEY_REPEAT_ACCELERATION = UI.KEY_REPEAT_ACCELERATION;
+export const SCRUB_START_THRESHOLD = UI.SCRUB_START_THRESHOLD;
+export const SCRUB_PIXELS_PER_STEP = UI.SCRUB_PIXELS_PER_STEP;
+export const STEPPER_REPEAT_DELAY = UI.STEPPER_REPEAT_DELAY;
+export const STEPPER_REPEAT_INTERVAL = UI.STEPPER_REPEAT_INTERVAL;
@@ -0,0 +1,316 @@
+import React, { useCallback, useMemo, useState, type CSSProperties } from 'react';
+import PickerGroup, { type PickerOption as PickerGroupOption } from '../picker';
+import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerColumnVariant } from '../picker/types/variant';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import { mergeSnapConfig } from '../utils/pickerOptions';
+import { createFeedbackAdapters, type FeedbackAdapters } from '../quick/feedback';
+import { usePickerGestureFeedback } from '../shared/hooks';
+import {
+  clampDateParts,
+  daysInMonth,
+  formatIsoDate,
+  getDateFieldOrder,
+  getMonthNames,
+  parseDateValue,
+  toOrdinal,
+  type DateColumnKey,
+  type DateParts,
+  type MonthFormat,
+} from './dateUtils';
+
+// Shared empty props object to avoid allocations for every row
+const EMPTY_PROPS = {};
+
+const DEFAULT_MIN_YEAR = 1900;
+const DEFAULT_MAX_YEAR = 2100;
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+const DEFAULT_COLUMN_LABELS: Record<DateColumnKey, string> = {
+  day: 'Day',
+  month: 'Month',
+  year: 'Year',
+};
+
+/**
+ * Props for DatePicker component
+ *
+ * `value` may be a `Date` (its local calendar day is used) or an ISO date string
+ * (`YYYY-MM-DD`); `onChange` receives the same kind back (a `Date` keeps its time of day).
+ */
+export interface DatePickerProps<T extends Date | string = Date> {
+  value: T;
+  onChange: (value: T) => void;
+  /** Earliest selectable date; also the first year of the year column */
+  min?: Date | string;
+  /** Latest selectable date; also the last year of the year column */
+  max?: Date | string;
+  /** Locale used for the column order and month names; defaults to the runtime locale */
+  locale?: string;
+  /** Month label style */
+  monthFormat?: MonthFormat;
+  /** Wrap the day and month columns around; defaults to false */
+  loop?: boolean;
+  visibleItems?: number;
+  itemHeight?: number;
+  className?: string;
+  accentColor?: string;
+  highlightColor?: string;
+  variant?: PickerColumnVariant;
+  disabled?: boolean;
+  readOnly?: boolean;
+  /**
+   * Scroll to value changes made from outside, including the day being pulled back when the
+   * month gets shorter; defaults to true
+   */
+  animateExternalChanges?: AnimateExternalChanges;
+  enableSnapPhysics?: boolean;
+  snapPhysicsConfig?: Partial<SnapPhysicsConfig>;
+  wheelSensitivity?: number;
+  wheelDeltaCap?: number;
+  /** Enable haptic feedback on value changes (requires device support) */
+  enableHaptics?: boolean;
+  /** Enable audio feedback on value commit (requires user interaction) */
+  enableAudioFeedback?: boolean;
+  /** Accessible names for the columns */
+  columnLabels?: Partial<Record<DateColumnKey, string>>;
+}
+
+const clampVisibleItems = (visibleItems?: number): number => {
+  if (!Number.isFinite(visibleItems) || (visibleItems ?? 0) < 3) {
+    return 5;
+  }
+  const candidate = visibleItems as number;
+  return candidate % 2 === 0 ? candidate + 1 : candidate;
+};
+
+const toPickerValue = (parts: DateParts): Record<DateColumnKey, string> => ({
+  day: String(parts.day),
+  month: String(parts.month),
+  year: String(parts.year),
+});
+
+const fromPickerValue = (value: Record<string, string | number>): DateParts => ({
+  year: Number(value.year),
+  month: Number(value.month),
+  day: Number(value.day),
+});
+
+const parseBound = (bound?: Date | string) => (bound === undefined ? null : parseDateValue(bound));
+
+/**
+ * DatePicker - Day, month and year wheels in the locale's order
+ *
+ * Built on PickerGroup: the day column is rebuilt for the selected month and year (28-31 rows),
+ * and a month or year change that would leave the day past the end of the month clamps it in
+ * the same update, so the column never shows a date that doesn't exist.
+ *
+ * Features:
+ * - Column order and month names from `Intl.DateTimeFormat`
+ * - `min`/`max` bound the year column and disable out-of-range months and days
+ * - `Date` or ISO string (`YYYY-MM-DD`) values
+ *
+ * @example
+ * ```tsx
+ * const [birthday, setBirthday] = useState('1990-02-28');
+ * <DatePicker value={birthday} onChange={setBirthday} max={new Date()} />
+ * ```
+ */
+function DatePicker<T extends Date | string = Date>({
+  value,
+  onChange,
+  min,
+  max,
+  locale,
+  monthFormat = 'long',
+  loop = false,
+  visibleItems = 5,
+  itemHeight = 48,
+  className = '',
+  accentColor = '#3EDCFF',
+  highlightColor,
+  variant = 'flat',
+  disabled = false,
+  readOnly = false,
+  animateExternalChanges = true,
+  enableSnapPhysics = false,
+  snapPhysicsConfig,
+  wheelSensitivity,
+  wheelDeltaCap,
+  enableHaptics = false,
+  enableAudioFeedback = false,
+  columnLabels,
+}: DatePickerProps<T>) {
+  const adapters = useMemo<FeedbackAdapters>(
+    () => createFeedbackAdapters({ enableHaptics, enableAudioFeedback }),
+    [enableHaptics, enableAudioFeedback]
+  );
+  const handleGesture = usePickerGestureFeedback(adapters);
+
+  const fieldOrder = useMemo(() => getDateFieldOrder(locale), [locale]);
+  const monthNames = useMemo(() => getMonthNames(locale, monthFormat), [locale, monthFormat]);
+
+  const minIso = useMemo(() => {
+    const parts = parseBound(min);
+    return parts ? formatIsoDate(parts) : null;
+  }, [min]);
+  const maxIso = useMemo(() => {
+    const parts = parseBound(max);
+    return parts ? formatIsoDate(parts) : null;
+  }, [max]);
+  // Keyed on the ISO strings so a fresh `new Date()` bound each render doesn't rebuild columns
+  const bounds = useMemo(
+    () => ({
+      min: minIso ? parseDateValue(minIso) : null,
+      max: maxIso ? parseDateValue(maxIso) : null,
+    }),
+    [maxIso, minIso]
+  );
+
+  // Fallback for an unparseable `value`: the day the picker mounted, so rebuilds stay put
+  const [today] = useState<DateParts>(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+  });
+
+  const date = useMemo(
+    () => clampDateParts(parseDateValue(value) ?? today, bounds.min, bounds.max),
+    [bounds, today, value]
+  );
+
+  const pickerValue = useMemo(() => toPickerValue(date), [date]);
+
+  // Month/year changes can strand the day (Mar 31 → Feb) or leave the range: fix both before
+  // the change is emitted so every column receives a value its options contain
+  const resolveValue = useCallback(
+    (next: Record<string, string | number>) =>
+      toPickerValue(clampDateParts(fromPickerValue(next), bounds.min, bounds.max)),
+    [bounds]
+  );
+
+  const handleValueChange = useCallback(
+    (next: Record<string, string | number>) => {
+      const parts = fromPickerValue(next);
+      if (value instanceof Date) {
+        const nextDate = new Date(value);
+        nextDate.setFullYear(parts.year, parts.month - 1, parts.day);
+        onChange(nextDate as T);
+      } else {
+        onChange(formatIsoDate(parts) as T);
+      }
+    },
+    [onChange, value]
+  );
+
+  // Rows are disabled when none of their days falls inside min/max
+  const columns = useMemo(() => {
+    const minOrdinal = bounds.min ? toOrdinal(bounds.min) : -Infinity;
+    const maxOrdinal = bounds.max ? toOrdinal(bounds.max) : Infinity;
+    const outside = (first: DateParts, last: DateParts) =>
+      toOrdinal(last) < minOrdinal || toOrdinal(first) > maxOrdinal;
+
+    // One shared render per column; labels are looked up by row value
+    const build = (entries: Array<{ value: string; label: string; disabled: boolean }>) => {
+      const labels = new Map(entries.map((entry) => [entry.value, entry.label]));
+      const render = (state: {
+        selected: boolean;
+        visuallySelected: boolean;
+        value: string | number;
+        disabled: boolean;
+      }) => (
+        <div
+          className={`np-wheel-item ${state.selected || state.visuallySelected ? 'np-wheel-item-selected' : ''} ${state.disabled ? 'np-wheel-item-disabled' : ''}`}
+        >
+          <span>{labels.get(String(state.value))}</span>
+        </div>
+      );
+      return entries.map<PickerGroupOption>((entry) => ({
+        value: entry.value,
+        render,
+        props: EMPTY_PROPS,
+        disabled: entry.disabled,
+        textValue: entry.label,
+      }));
+    };
+
+    const firstYear = Math.min(bounds.min?.year ?? DEFAULT_MIN_YEAR, date.year);
+    const lastYear = Math.max(bounds.max?.year ?? DEFAULT_MAX_YEAR, date.year);
+    const dayCount = daysInMonth(date.year, date.month);
+
+    return {
+      day: build(
+        Array.from({ length: dayCount }, (_, index) => {
+          const day = index + 1;
+          const parts = { year: date.year, month: date.month, day };
+          return { value: String(day), label: String(day), disabled: outside(parts, parts) };
+        })
+      ),
+      month: build(
+        MONTHS.map((month) => ({
+          value: String(month),
+          label: monthNames[month - 1],
+          disabled: outside(
+            { year: date.year, month, day: 1 },
+            { year: date.year, month, day: daysInMonth(date.year, month) }
+          ),
+        }))
+      ),
+      year: build(
+        Array.from({ length: lastYear - firstYear + 1 }, (_, index) => {
+          const year = firstYear + index;
+          return {
+            value: String(year),
+            label: String(year),
+            disabled: outside({ year, month: 1, day: 1 }, { year, month: 12, day: 31 }),
+          };
+        })
+      ),
+    };
+  }, [bounds, date.month, date.year, monthNames]);
+
+  const pickerHeight = itemHeight * clampVisibleItems(visibleItems);
+  const mergedSnapConfig = mergeSnapConfig(enableSnapPhysics, snapPhysicsConfig);
+
+  const containerStyle = useMemo<CSSProperties>(
+    () =>
+      ({
+        '--picker-highlight-color': highlightColor ?? accentColor,
+        '--np-wheel-accent-color': accentColor,
+      }) as CSSProperties,
+    [accentColor, highlightColor]
+  );
+
+  return (
+    <div className={`np-wheel-picker np-date-picker ${className}`} style={containerStyle}>
+      <div className="np-wheel-container">
+        <PickerGroup
+          value={pickerValue}
+          onChange={handleValueChange}
+          resolveValue={resolveValue}
+          height={pickerHeight}
+          itemHeight={itemHeight}
+          wheelSensitivity={wheelSensitivity}
+          wheelDeltaCap={wheelDeltaCap}
+          disabled={disabled}
+          readOnly={readOnly}
+        >
+          {fieldOrder.map((key) => (
+            <PickerGroup.Column
+              key={key}
+              name={key}
+              aria-label={columnLabels?.[key] ?? DEFAULT_COLUMN_LABELS[key]}
+              options={columns[key]}
+              loop={key !== 'year' && loop}
+              snapConfig={mergedSnapConfig}
+              variant={variant}
+              animateExternalChanges={animateExternalChanges}
+              onGesture={handleGesture}
+            />
+          ))}
+        </PickerGroup>
+      </div>
+    </div>
+  );
+}
+
+export default DatePicker;
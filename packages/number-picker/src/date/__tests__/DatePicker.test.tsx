@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import DatePicker from '../DatePicker';
+
+const columnNamed = (label: string) => screen.getByLabelText(label) as HTMLElement;
+
+const selectedLabel = (label: string) =>
+  columnNamed(label).querySelector('[aria-selected="true"]')?.textContent;
+
+const rowLabels = (label: string, selector: string) =>
+  Array.from(columnNamed(label).querySelectorAll(selector)).map((row) => row.textContent);
+
+const columnOrder = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.picker-column')).map((column) =>
+    column.getAttribute('aria-label')
+  );
+
+describe('DatePicker', () => {
+  it('orders columns and names months by locale', () => {
+    const { container, unmount } = render(
+      <DatePicker value="2024-02-29" onChange={() => {}} locale="en-US" />
+    );
+
+    expect(columnOrder(container)).toEqual(['Month', 'Day', 'Year']);
+    expect(selectedLabel('Month')).toBe('February');
+    expect(selectedLabel('Day')).toBe('29');
+    expect(selectedLabel('Year')).toBe('2024');
+    unmount();
+
+    const { container: german } = render(
+      <DatePicker value="2024-02-29" onChange={() => {}} locale="de-DE" />
+    );
+    expect(columnOrder(german)).toEqual(['Day', 'Month', 'Year']);
+    expect(selectedLabel('Month')).toBe('Februar');
+  });
+
+  it('clamps the day in the same change when the month gets shorter', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    function Harness() {
+      const [value, setValue] = useState('2023-01-31');
+      return (
+        <DatePicker
+          value={value}
+          onChange={(next) => {
+            onChange(next);
+            setValue(next);
+          }}
+          locale="en-US"
+        />
+      );
+    }
+
+    render(<Harness />);
+
+    columnNamed('Month').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('2023-02-28');
+    expect(selectedLabel('Day')).toBe('28');
+    const dayLabels = Array.from(columnNamed('Day').querySelectorAll('[role="option"]')).map(
+      (row) => row.textContent
+    );
+    expect(dayLabels).not.toContain('29');
+  });
+
+  it('returns a Date with the same time of day when given a Date', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(<DatePicker value={new Date(2024, 0, 31, 18, 45)} onChange={onChange} locale="en-US" />);
+
+    columnNamed('Month').focus();
+    await user.keyboard('{ArrowDown}');
+
+    const next = onChange.mock.calls[0][0] as Date;
+    expect(next).toBeInstanceOf(Date);
+    expect([next.getFullYear(), next.getMonth(), next.getDate()]).toEqual([2024, 1, 29]);
+    expect([next.getHours(), next.getMinutes()]).toEqual([18, 45]);
+  });
+
+  it('bounds years and disables out-of-range months and days', () => {
+    render(
+      <DatePicker
+        value="2020-06-15"
+        onChange={() => {}}
+        locale="en-US"
+        min="2020-06-15"
+        max="2024-01-10"
+      />
+    );
+
+    expect(rowLabels('Year', '[role="option"]')).toEqual(['2020', '2021', '2022', '2023', '2024']);
+    expect(rowLabels('Month', '[role="option"][aria-disabled="true"]')).toEqual(
+      expect.arrayContaining(['January', 'May'])
+    );
+    expect(rowLabels('Month', '[role="option"][aria-disabled="true"]')).not.toContain('June');
+    expect(rowLabels('Day', '[role="option"][aria-disabled="true"]')).toContain('14');
+    expect(rowLabels('Day', '[role="option"][aria-disabled="true"]')).not.toContain('15');
+  });
+
+  it('clamps year changes into min/max', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <DatePicker
+        value="2023-12-20"
+        onChange={onChange}
+        locale="en-US"
+        min="2020-06-15"
+        max="2024-01-10"
+      />
+    );
+
+    columnNamed('Year').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledWith('2024-01-10');
+  });
+
+  it('keeps the mount-day fallback for an unparseable value across re-renders', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date(2024, 4, 10));
+      const { rerender } = render(
+        <DatePicker value="not a date" onChange={() => {}} locale="en-US" />
+      );
+      expect(selectedLabel('Day')).toBe('10');
+
+      vi.setSystemTime(new Date(2024, 4, 11));
+      rerender(<DatePicker value="still not a date" onChange={() => {}} locale="en-US" />);
+      expect(selectedLabel('Day')).toBe('10');
+      expect(selectedLabel('Month')).toBe('May');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clampDateParts,
+  daysInMonth,
+  formatIsoDate,
+  getDateFieldOrder,
+  getMonthNames,
+  parseDateValue,
+} from '../dateUtils';
+
+describe('getDateFieldOrder', () => {
+  it('follows the locale date format', () => {
+    expect(getDateFieldOrder('en-US')).toEqual(['month', 'day', 'year']);
+    expect(getDateFieldOrder('de-DE')).toEqual(['day', 'month', 'year']);
+    expect(getDateFieldOrder('ja-JP')).toEqual(['year', 'month', 'day']);
+  });
+});
+
+describe('getMonthNames', () => {
+  it('returns localized names', () => {
+    expect(getMonthNames('en-US')[1]).toBe('February');
+    expect(getMonthNames('en-US', 'short')[11]).toBe('Dec');
+    expect(getMonthNames('en-US', 'numeric')[0]).toBe('1');
+  });
+});
+
+describe('daysInMonth', () => {
+  it('handles month lengths and leap years', () => {
+    expect(daysInMonth(2023, 2)).toBe(28);
+    expect(daysInMonth(2024, 2)).toBe(29);
+    expect(daysInMonth(1900, 2)).toBe(28);
+    expect(daysInMonth(2000, 2)).toBe(29);
+    expect(daysInMonth(2024, 4)).toBe(30);
+    expect(daysInMonth(2024, 12)).toBe(31);
+  });
+});
+
+describe('parseDateValue / formatIsoDate', () => {
+  it('reads ISO strings and the local day of a Date', () => {
+    expect(parseDateValue('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseDateValue('2024-02-29T23:30:00Z')).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseDateValue(new Date(2024, 6, 4, 12))).toEqual({ year: 2024, month: 7, day: 4 });
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseDateValue('2023-02-29')).toBeNull();
+    expect(parseDateValue('2024-13-01')).toBeNull();
+    expect(parseDateValue('not a date')).toBeNull();
+    expect(parseDateValue(new Date('invalid'))).toBeNull();
+  });
+
+  it('pads ISO output', () => {
+    expect(formatIsoDate({ year: 987, month: 3, day: 7 })).toBe('0987-03-07');
+  });
+});
+
+describe('clampDateParts', () => {
+  it('pulls the day back into shorter months', () => {
+    expect(clampDateParts({ year: 2023, month: 2, day: 31 })).toEqual({
+      year: 2023,
+      month: 2,
+      day: 28,
+    });
+  });
+
+  it('clamps into min/max', () => {
+    const min = { year: 2020, month: 6, day: 15 };
+    const max = { year: 2024, month: 1, day: 10 };
+    expect(clampDateParts({ year: 2020, month: 3, day: 1 }, min, max)).toEqual(min);
+    expect(clampDateParts({ year: 2024, month: 5, day: 1 }, min, max)).toEqual(max);
+    expect(clampDateParts({ year: 2022, month: 5, day: 1 }, min, max)).toEqual({
+      year: 2022,
+      month: 5,
+      day: 1,
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Pure calendar helpers for DatePicker: locale column order, month names, month lengths and
+ * min/max clamping. Dates are plain `{ year, month, day }` parts (month 1-12) so no time zone
+ * ever shifts the selected day.
+ */
+
+export interface DateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export type DateColumnKey = 'day' | 'month' | 'year';
+
+/** `long`: "February", `short`: "Feb", `numeric`: "2" */
+export type MonthFormat = 'long' | 'short' | 'numeric';
+
+const ISO_DATE_PATTERN = /^(\d{4,})-(\d{2})-(\d{2})/;
+const DEFAULT_ORDER: DateColumnKey[] = ['day', 'month', 'year'];
+
+/**
+ * Order of the day/month/year fields in the locale's short date format (e.g. month-day-year
+ * for `en-US`, day-month-year for `de-DE`, year-month-day for `ja-JP`).
+ * @param {string} [locale] - BCP 47 tag; defaults to the runtime locale
+ * @returns {DateColumnKey[]}
+ */
+export const getDateFieldOrder = (locale?: string): DateColumnKey[] => {
+  try {
+    const order = new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+    })
+      .formatToParts(new Date(2000, 11, 31))
+      .map((part) => part.type)
+      .filter((type): type is DateColumnKey => DEFAULT_ORDER.includes(type as DateColumnKey));
+    return order.length === 3 ? order : DEFAULT_ORDER;
+  } catch {
+    return DEFAULT_ORDER;
+  }
+};
+
+/**
+ * Localized month names, January first.
+ * @param {string} [locale]
+ * @param {MonthFormat} [format='long']
+ * @returns {string[]} - 12 labels
+ */
+export const getMonthNames = (locale?: string, format: MonthFormat = 'long'): string[] => {
+  const fallback = Array.from({ length: 12 }, (_, index) => String(index + 1));
+  if (format === 'numeric') return fallback;
+  try {
+    const formatter = new Intl.DateTimeFormat(locale, { month: format, timeZone: 'UTC' });
+    return fallback.map((_, index) => formatter.format(new Date(Date.UTC(2000, index, 1))));
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Number of days in a month, leap years included.
+ * @param {number} year
+ * @param {number} month - 1-12
+ * @returns {number}
+ */
+export const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Reads the local calendar day of a `Date`, or the date of an ISO string (`2024-02-29`;
+ * anything after the date, such as a time, is ignored).
+ * @param {Date | string} value
+ * @returns {DateParts | null} - `null` for invalid dates or unparsable strings
+ */
+export const parseDateValue = (value: Date | string): DateParts | null => {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+  }
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const parts = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  if (parts.month < 1 || parts.month > 12) return null;
+  if (parts.day < 1 || parts.day > daysInMonth(parts.year, parts.month)) return null;
+  return parts;
+};
+
+/**
+ * Formats parts as an ISO calendar date (`YYYY-MM-DD`).
+ * @param {DateParts} parts
+ * @returns {string}
+ */
+export const formatIsoDate = ({ year, month, day }: DateParts) =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/** Sortable number for comparing parts (`20240229`) */
+export const toOrdinal = ({ year, month, day }: DateParts) => year * 10000 + month * 100 + day;
+
+/**
+ * Pulls the day back into the month (Jan 31 → Feb 29 in a leap year) and the date into
+ * [min, max].
+ * @param {DateParts} parts
+ * @param {DateParts | null} [min]
+ * @param {DateParts | null} [max]
+ * @returns {DateParts}
+ */
+export const clampDateParts = (
+  parts: DateParts,
+  min?: DateParts | null,
+  max?: DateParts | null
+): DateParts => {
+  const clamped = { ...parts, day: Math.min(parts.day, daysInMonth(parts.year, parts.month)) };
+  if (min && toOrdinal(clamped) < toOrdinal(min)) return { ...min };
+  if (max && toOrdinal(clamped) > toOrdinal(max)) return { ...max };
+  return clamped;
+};
@@ -0,0 +1,16 @@
+/**
+ * Date Picker Module
+ *
+ * Export: `DatePicker` - Day/month/year wheels built on PickerGroup
+ */
+
+export { default } from './DatePicker';
+export { default as DatePicker } from './DatePicker';
+export type { DatePickerProps } from './DatePicker';
+export {
+  daysInMonth,
+  getDateFieldOrder,
+  type DateColumnKey,
+  type DateParts,
+  type MonthFormat,
+} from './dateUtils';
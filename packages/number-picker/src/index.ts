@@ -4,6 +4,9 @@
  * Primary Components:
  * - CollapsiblePicker: Interactive picker with open/close animation
  * - Picker: Always-visible wheel picker
+ * - TimePicker: Hour/minute wheels built on PickerGroup
+ * - DatePicker: Day/month/year wheels built on PickerGroup
+ * - RangePicker: Linked low/high wheels built on PickerGroup
  * - PickerGroup: Multi-column picker primitive
  */
 
@@ -11,9 +14,12 @@
 export { CollapsiblePicker, ThemedNumberInput } from './quick';
 export { CollapsiblePicker as default } from './quick';
 export { Picker } from './wheel';
+export { TimePicker } from './time';
+export { DatePicker } from './date';
+export { RangePicker } from './range';
 
 // Advanced multi-column picker
-export { PickerGroup, PickerColumn, PickerItem } from './picker';
+export { PickerGroup, PickerColumn, PickerItem, createRangeSource } from './picker';
 
 // Config and types
 export * from './config';
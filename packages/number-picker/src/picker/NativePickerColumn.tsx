@@ -0,0 +1,143 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef, type ChangeEvent } from 'react';
+import { usePickerActions, usePickerData } from './PickerGroup';
+import type { PickerColumnProps } from './PickerColumn';
+import { PickerConfigProvider } from './context';
+import type { PickerColumnHandle } from './types/handle';
+import { clampIndex, wrapIndex } from './utils/math';
+import { NativeNumberInput } from '../shared/NativeNumberInput';
+
+/**
+ * Native stand-in for PickerColumn, rendered when the parent PickerGroup uses its `fallback`.
+ *
+ * Option columns become a `<select>` (labels from `textValue`, disabled options stay disabled),
+ * `source` columns an `<input type="number">` with the range's `min`/`max`/`step`. Values go
+ * through the group's `onChange` like wheel changes do. Physics, looping, variants, and feedback
+ * don't apply; the imperative handle changes the value directly.
+ *
+ * @param {PickerColumnProps} props - Same props as PickerColumn
+ * @param {React.Ref<PickerColumnHandle>} [ref] - Imperative handle
+ */
+const NativePickerColumn = forwardRef<PickerColumnHandle, PickerColumnProps>(
+  function NativePickerColumn(
+    {
+      style,
+      className,
+      children,
+      name: key,
+      isPickerOpen = true,
+      options: directOptions,
+      source,
+      loop = false,
+      disabled: disabledProp,
+      readOnly: readOnlyProp,
+      id,
+      'aria-label': ariaLabel,
+      'aria-labelledby': ariaLabelledBy,
+      'aria-describedby': ariaDescribedBy,
+    },
+    ref
+  ) {
+    const {
+      value: groupValue,
+      optionGroups,
+      disabled: groupDisabled,
+      readOnly: groupReadOnly,
+    } = usePickerData('Picker.Column');
+    const { change } = usePickerActions('Picker.Column');
+
+    const isDisabled = disabledProp ?? groupDisabled;
+    const isReadOnly = readOnlyProp ?? groupReadOnly;
+    const value = groupValue[key];
+    const options = useMemo(
+      () => (source ? [] : directOptions || optionGroups[key] || []),
+      [directOptions, key, optionGroups, source]
+    );
+    const selectedIndex = source
+      ? source.indexOf(value)
+      : options.findIndex((option) => option.value === value);
+
+    const controlRef = useRef<HTMLSelectElement & HTMLInputElement>(null);
+
+    useImperativeHandle(ref, () => {
+      const count = source ? source.count : options.length;
+      const valueAt = (index: number) => (source ? source.valueAt(index) : options[index]?.value);
+      const changeToIndex = (index: number) => {
+        if (index < 0 || index >= count || options[index]?.disabled) return;
+        change(key, valueAt(index));
+      };
+      return {
+        scrollToValue: (target) =>
+          changeToIndex(
+            source ? source.indexOf(target) : options.findIndex((o) => o.value === target)
+          ),
+        scrollByItems: (itemCount) => {
+          const from = Math.max(selectedIndex, 0);
+          changeToIndex(
+            loop && Number.isFinite(count)
+              ? wrapIndex(from + itemCount, count)
+              : clampIndex(from + itemCount, count - 1)
+          );
+        },
+        // Native controls change values at once: nothing is ever in flight
+        stopMomentum: () => {},
+        focus: () => controlRef.current?.focus(),
+        getVisualValue: () => value,
+      };
+    }, [change, key, loop, options, selectedIndex, source, value]);
+
+    const pickerConfigValue = useMemo(() => ({ key, isPickerOpen }), [isPickerOpen, key]);
+    const controlProps = {
+      id,
+      style,
+      className: className ? `picker-native-control ${className}` : 'picker-native-control',
+      disabled: isDisabled,
+      'aria-label': ariaLabel ?? (ariaLabelledBy ? undefined : key),
+      'aria-labelledby': ariaLabelledBy,
+      'aria-describedby': ariaDescribedBy,
+    };
+
+    if (source) {
+      return (
+        <NativeNumberInput
+          {...controlProps}
+          inputRef={controlRef}
+          source={source}
+          value={value}
+          readOnly={isReadOnly}
+          onCommit={(next) => change(key, next)}
+        />
+      );
+    }
+
+    const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+      const option = options[Number(event.target.value)];
+      if (option && !isReadOnly) change(key, option.value);
+    };
+
+    return (
+      <PickerConfigProvider value={pickerConfigValue}>
+        <select
+          ref={controlRef}
+          {...controlProps}
+          value={String(Math.max(selectedIndex, 0))}
+          onChange={handleChange}
+        >
+          {options.map((option, index) => (
+            <option
+              key={String(option.value)}
+              value={index}
+              // Read-only selects can still open; only the current value stays pickable
+              disabled={option.disabled || (isReadOnly && index !== selectedIndex)}
+              aria-label={option.ariaLabel}
+            >
+              {option.textValue ?? String(option.value)}
+            </option>
+          ))}
+        </select>
+        {children}
+      </PickerConfigProvider>
+    );
+  }
+);
+
+export default NativePickerColumn;
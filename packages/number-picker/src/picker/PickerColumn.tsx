@@ -1,10 +1,45 @@
-import { useCallback, useMemo, type CSSProperties, type HTMLProps } from 'react';
-import { m, useMotionTemplate } from 'framer-motion';
-import { usePickerActions, usePickerData, type PickerOption } from './PickerGroup';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type CSSProperties,
+  type HTMLProps,
+  type ReactNode,
+} from 'react';
+import { m, useTransform, type MotionValue } from 'framer-motion';
+import {
+  usePickerActions,
+  usePickerData,
+  type PickerOption,
+  type PickerOptionList,
+} from './PickerGroup';
 import { PickerConfigProvider } from './context';
+import NativePickerColumn from './NativePickerColumn';
 import type { SnapPhysicsConfig } from './types/snapPhysics';
+import type { PickerColumnVariant } from './types/variant';
+import type { PickerOrientation } from './types/orientation';
+import type { PickerDirection } from './types/direction';
+import type { PickerColumnHandle } from './types/handle';
+import type { AnimateExternalChanges } from './types/externalChanges';
+import type { PickerRangeSource } from './types/rangeSource';
 import { usePickerPhysics } from './hooks/usePickerPhysics';
-import type { PickerGestureHandler } from './gestures';
+import { useTypeahead } from './hooks/useTypeahead';
+import { useMeasuredRowSizes } from './hooks/useMeasuredRowSizes';
+import { useKeyRepeatAcceleration } from '../shared/hooks/useKeyRepeatAcceleration';
+import { COARSE_STEP_MULTIPLIER } from '../config/ui';
+import { wrapIndex } from './utils/math';
+import { nearestEnabledIndex, stepToEnabledIndex } from './utils/enabledOptions';
+import { findRangeTypeaheadIndex, findTypeaheadIndex } from './utils/typeahead';
+import { createSourceOptionList } from './utils/optionList';
+import { createRowLayout } from './utils/rowLayout';
+import { pickerOptionId } from './utils/optionId';
+import { scrollAxisSize } from './utils/resizeEntry';
+import { cylinderRadius, cylinderRowOpacity, cylinderRowTransform } from './utils/cylinder';
+import type { PickerGestureEvent, PickerGestureHandler } from './gestures';
 
 export interface PickerColumnProps
   extends Omit<HTMLProps<HTMLDivElement>, 'onDragStart' | 'onDragEnd'> {
@@ -15,25 +50,118 @@ export interface PickerColumnProps
   snapConfig?: SnapPhysicsConfig;
   /** Direct options array to bypass O(n²) registration. When provided, children are ignored. */
   options?: PickerOption[];
+  /**
+   * Lazy numeric rows queried by index (see `createRangeSource`); nothing is materialized, so
+   * huge or unbounded ranges cost the same as short ones. Takes precedence over `options`.
+   */
+  source?: PickerRangeSource;
+  /** Row renderer for `source` rows (defaults to the source's label) */
+  renderSourceItem?: PickerOption['render'];
+  /** Wrap around at both ends (e.g. minutes 59 → 00) instead of stopping at the first/last option */
+  loop?: boolean;
+  /** `cylinder` projects rows onto a 3D drum instead of a flat list */
+  variant?: PickerColumnVariant;
+  /** Scroll axis; defaults to the parent PickerGroup's orientation */
+  orientation?: PickerOrientation;
+  /** Ignore all input and leave the tab order; defaults to the parent PickerGroup's `disabled` */
+  disabled?: boolean;
+  /** Ignore input that would change the value; defaults to the parent PickerGroup's `readOnly` */
+  readOnly?: boolean;
+  /** Scroll (rather than jump) to values changed from outside, without feedback events */
+  animateExternalChanges?: AnimateExternalChanges;
+  /**
+   * Row size along the scroll axis: a number, a function of the option index for rows of
+   * different sizes (keep it stable, e.g. with useCallback), or `'auto'` to measure rendered
+   * rows. Defaults to the parent PickerGroup's `itemHeight`, which stays the size of rows not
+   * measured yet. Ignored for `source` columns.
+   */
+  itemHeight?: number | ((index: number) => number) | 'auto';
+  /** Rows rendered past each edge of the viewport, so fast flicks don't reveal empty slots */
+  overscan?: number;
+  /**
+   * Rows an arrow key or wheel step covers while Shift is held (Alt forces single rows).
+   * Defaults to 10.
+   */
+  coarseMultiplier?: number;
 }
 
-const VISIBLE_ROWS = 5;
-const OVERSCAN_ROWS = 3;
-const SLOT_COUNT = VISIBLE_ROWS + OVERSCAN_ROWS * 2;
+const DEFAULT_OVERSCAN_ROWS = 3;
+// Rows an unbounded source exposes past the selected one; the end moves on after every commit
+const UNBOUNDED_ROWS_AHEAD = 1000;
+
+interface CylinderRowProps {
+  ySnap: MotionValue<number>;
+  /** Center of the row, measured from the start of row 0 */
+  rowCenter: number;
+  itemHeight: number;
+  /** Half the viewport: where a row's center sits when it is selected */
+  viewportCenter: number;
+  orientation: PickerOrientation;
+  direction: PickerDirection;
+  children: ReactNode;
+}
+
+/**
+ * Projects a virtualized row onto the drum. Transform and opacity are derived from
+ * `ySnap` so the curve follows drags and momentum without re-rendering the column.
+ */
+function CylinderRow({
+  ySnap,
+  rowCenter,
+  itemHeight,
+  viewportCenter,
+  orientation,
+  direction,
+  children,
+}: CylinderRowProps) {
+  const offsetRows = useTransform(ySnap, (y) => (y + rowCenter - viewportCenter) / itemHeight);
+  const transform = useTransform(offsetRows, (rows) =>
+    cylinderRowTransform(rows, itemHeight, orientation, direction)
+  );
+  const opacity = useTransform(offsetRows, cylinderRowOpacity);
+
+  return (
+    <m.div
+      className="picker-cylinder-row"
+      style={{ transform, opacity, backfaceVisibility: 'hidden' }}
+    >
+      {children}
+    </m.div>
+  );
+}
 
 /**
  * Individual scrollable picker column with momentum physics and virtualization.
  *
  * Must be used inside a PickerGroup component. Handles pointer/touch gestures,
- * keyboard navigation (arrows, page up/down, home/end), and wheel scrolling.
+ * keyboard navigation (arrows, page up/down, home/end, typeahead), and wheel scrolling.
+ * Shift makes arrow and wheel steps coarse, Alt keeps them to single rows, and held arrow keys
+ * accelerate.
+ *
+ * Optimized with row virtualization for large datasets: only the rows that fit the viewport
+ * (plus `overscan` on each side) are rendered, however many options there are.
  *
- * Optimized with row virtualization for large datasets (11 visible slots out of 250+ items).
+ * Renders a `role="listbox"` named by `aria-label`/`aria-labelledby` (falling back to `name`)
+ * whose `aria-activedescendant` is the selected row; settled values are announced through the
+ * PickerGroup's live region, prefixed with the `aria-label`.
  *
  * @param {string} props.name - Unique identifier for this column (matches key in PickerGroup value)
  * @param {PickerOption[]} [props.options] - Direct options array (bypasses child registration)
+ * @param {PickerRangeSource} [props.source] - Lazy numeric rows; only the visible slots are built
+ * @param {PickerOption['render']} [props.renderSourceItem] - Row renderer for `source` rows
  * @param {boolean} [props.isPickerOpen=true] - Whether picker is active (blocks gestures when closed)
  * @param {SnapPhysicsConfig} [props.snapConfig] - Optional snap-to-item magnetic physics config
+ * @param {boolean} [props.loop=false] - Wrap around at both ends (infinite scroll, keyboard wraps too)
+ * @param {PickerColumnVariant} [props.variant='flat'] - `cylinder` renders rows on a 3D drum
+ * @param {PickerOrientation} [props.orientation] - Scroll axis (inherits from PickerGroup)
+ * @param {boolean} [props.disabled] - Block pointer, wheel, and keyboard input (inherits from PickerGroup)
+ * @param {boolean} [props.readOnly] - Block value changes but stay focusable (inherits from PickerGroup)
+ * @param {AnimateExternalChanges} [props.animateExternalChanges] - Animate controlled value changes (`true` or a spring/tween)
+ * @param {number | ((index: number) => number) | 'auto'} [props.itemHeight] - Row size, per-row sizes, or measured rows (inherits from PickerGroup)
+ * @param {number} [props.overscan=3] - Rows rendered past each edge of the viewport
+ * @param {number} [props.coarseMultiplier=10] - Rows per arrow/wheel step with Shift held
  * @param {PickerGestureHandler} [props.onGesture] - Callback for gesture events (start/end/settle)
+ * @param {React.Ref<PickerColumnHandle>} [ref] - Imperative handle (scrollToValue, scrollByItems, stopMomentum, focus, getVisualValue)
  *
  * @example
  * ```tsx
@@ -44,59 +172,130 @@ const SLOT_COUNT = VISIBLE_ROWS + OVERSCAN_ROWS * 2;
  * />
  * ```
  */
-function PickerColumn({
-  style: styleFromUser,
-  className: classNameFromUser,
-  children,
-  name: key,
-  onGesture,
-  isPickerOpen = true,
-  snapConfig,
-  options: directOptions,
-  ...restProps
-}: PickerColumnProps) {
+const WheelColumn = forwardRef<PickerColumnHandle, PickerColumnProps>(function WheelColumn(
+  {
+    style: styleFromUser,
+    className: classNameFromUser,
+    children,
+    name: key,
+    onGesture,
+    isPickerOpen = true,
+    snapConfig,
+    options: directOptions,
+    source,
+    renderSourceItem,
+    loop = false,
+    variant = 'flat',
+    orientation: orientationProp,
+    disabled: disabledProp,
+    readOnly: readOnlyProp,
+    animateExternalChanges,
+    itemHeight: itemHeightProp,
+    overscan = DEFAULT_OVERSCAN_ROWS,
+    coarseMultiplier = COARSE_STEP_MULTIPLIER,
+    'aria-label': columnLabel,
+    ...restProps
+  },
+  ref
+) {
   const {
     height,
-    itemHeight,
+    itemHeight: groupItemHeight,
     wheelSensitivity,
     wheelDeltaCap,
     value: groupValue,
     optionGroups,
+    orientation: groupOrientation,
+    direction: readingDirection,
+    disabled: groupDisabled,
+    readOnly: groupReadOnly,
     onGesture: contextOnGesture,
   } = usePickerData('Picker.Column');
 
+  const orientation = orientationProp ?? groupOrientation;
+  const isHorizontal = orientation === 'horizontal';
+  // RTL horizontal columns run from right to left: the scroll axis points the other way
+  const axisSign = isHorizontal && readingDirection === 'rtl' ? -1 : 1;
+  const isDisabled = disabledProp ?? groupDisabled;
+  const isReadOnly = readOnlyProp ?? groupReadOnly;
+  const locked = isDisabled || isReadOnly;
+  // Nominal row size: physics feel (wheel, momentum, drum radius) and unmeasured rows use it
+  const itemHeight = typeof itemHeightProp === 'number' ? itemHeightProp : groupItemHeight;
+
   const value = useMemo(() => groupValue[key], [groupValue, key]);
   // Use direct options if provided (bypasses O(n²) registration), otherwise fall back to registered options
-  const options = useMemo(
-    () => directOptions || optionGroups[key] || [],
-    [directOptions, key, optionGroups]
+  const arrayOptions = useMemo(
+    () => (source ? [] : directOptions || optionGroups[key] || []),
+    [directOptions, key, optionGroups, source]
   );
 
   // Fast path: detect if values are sequential [0,1,2,...] or ["0","1","2",...]
   const isSequential = useMemo(() => {
-    if (options.length === 0) return false;
-    const firstVal = options[0].value;
+    if (arrayOptions.length === 0) return false;
+    const firstVal = arrayOptions[0].value;
     if (firstVal !== 0 && firstVal !== '0') return false;
 
-    for (let i = 0; i < options.length; i += 1) {
+    for (let i = 0; i < arrayOptions.length; i += 1) {
       const expected = typeof firstVal === 'number' ? i : String(i);
-      if (options[i].value !== expected) return false;
+      if (arrayOptions[i].value !== expected) return false;
     }
     return true;
-  }, [options]);
+  }, [arrayOptions]);
 
   const valueToIndex = useMemo(() => {
-    // Skip Map creation for sequential values (common case: age, weight, reps)
-    if (isSequential) return null;
+    // Skip Map creation for sequential values (common case: age, weight, reps) and sources
+    if (isSequential || source) return null;
 
     const map = new Map<string | number, number>();
-    for (let i = 0; i < options.length; i += 1) {
-      map.set(options[i].value, i);
+    for (let i = 0; i < arrayOptions.length; i += 1) {
+      map.set(arrayOptions[i].value, i);
     }
     return map;
-  }, [options, isSequential]);
+  }, [arrayOptions, isSequential, source]);
+
+  const sourceIndex = useMemo(() => (source ? source.indexOf(value) : -1), [source, value]);
+
+  // Sources are wrapped in a lazy list; unbounded ones expose a stretch of rows past the value
+  const isUnbounded = source !== undefined && !Number.isFinite(source.count);
+  const sourceLength = source
+    ? isUnbounded
+      ? Math.max(sourceIndex, 0) + UNBOUNDED_ROWS_AHEAD
+      : source.count
+    : 0;
+  const sourceRender = useMemo<PickerOption['render']>(
+    () =>
+      renderSourceItem ??
+      ((state) => (source ? source.labelAt(source.indexOf(state.value)) : String(state.value))),
+    [renderSourceItem, source]
+  );
+  const options = useMemo<PickerOptionList>(
+    () => (source ? createSourceOptionList(source, sourceLength, sourceRender) : arrayOptions),
+    [arrayOptions, source, sourceLength, sourceRender]
+  );
+
+  // Rows of different sizes are placed through a prefix-sum layout; uniform rows skip it
+  const isMeasured = itemHeightProp === 'auto' && !source;
+  const { sizes: measuredSizes, measureRow } = useMeasuredRowSizes(isMeasured, orientation);
+  const rowLayout = useMemo(() => {
+    if (source) return null;
+    if (typeof itemHeightProp === 'function') {
+      return createRowLayout(options.length, itemHeightProp, itemHeight);
+    }
+    if (isMeasured) {
+      return createRowLayout(
+        options.length,
+        (index) => measuredSizes.get(index) ?? itemHeight,
+        itemHeight
+      );
+    }
+    return null;
+  }, [isMeasured, itemHeight, itemHeightProp, measuredSizes, options.length, source]);
 
   const selectedIndex = useMemo(() => {
+    if (source) {
+      return sourceIndex >= 0 ? sourceIndex : 0;
+    }
+
     // Fast path for sequential values: direct conversion
     if (isSequential) {
       const idx = typeof value === 'number' ? value : Number(value);
@@ -106,30 +305,59 @@ function PickerColumn({
     // Fallback to Map lookup
     const idx = valueToIndex?.get(value);
     return idx !== undefined ? idx : 0;
-  }, [value, valueToIndex, isSequential, options.length]);
+  }, [source, sourceIndex, value, valueToIndex, isSequential, options.length]);
 
-  const virtualizationConfig = useMemo(
-    () => ({
-      slotCount: SLOT_COUNT,
-      overscan: OVERSCAN_ROWS + Math.floor(VISIBLE_ROWS / 2),
-    }),
-    []
-  );
+  // Rows that fit the viewport decide the window size. The container is measured (below) so
+  // columns stretched by CSS past the group's `height` still fill every visible row.
+  const [measuredViewport, setMeasuredViewport] = useState(0);
+  const virtualizationConfig = useMemo(() => {
+    const viewportSize = Math.max(height, measuredViewport);
+    // Rows visible on each side of the center row, counting partly visible ones
+    const rowsPerSide = Math.max(0, Math.ceil((viewportSize / itemHeight - 1) / 2));
+    const reach = rowsPerSide + Math.max(0, Math.floor(overscan));
+    return { slotCount: reach * 2 + 1, overscan: reach };
+  }, [height, itemHeight, measuredViewport, overscan]);
 
   const pickerActions = usePickerActions('Picker.Column');
+  const { registerColumn, announce } = pickerActions;
+
+  // Lets the group step this column when a child column carries into it
+  const indexOfText = useCallback(
+    (target: string | number) => {
+      if (source) return source.indexOf(target);
+      const text = String(target);
+      return arrayOptions.findIndex((option) => String(option.value) === text);
+    },
+    [arrayOptions, source]
+  );
+  useEffect(
+    () => registerColumn(key, { options, loop, indexOf: indexOfText }),
+    [indexOfText, key, loop, options, registerColumn]
+  );
+
+  // Settled values are read out by the group's live region; momentum frames never settle, and
+  // arrow key steps are read from the moved aria-activedescendant instead
+  const announceSettledValue = useCallback(
+    (settled: string | number) => {
+      const index = indexOfText(settled);
+      const option = index >= 0 ? options.at(index) : undefined;
+      const text = option?.ariaLabel ?? option?.textValue ?? String(settled);
+      announce(columnLabel ? `${columnLabel}: ${text}` : text);
+    },
+    [announce, columnLabel, indexOfText, options]
+  );
 
   // Merge context gesture handler with prop gesture handler
-  const mergedOnGesture = useMemo(() => {
-    if (!contextOnGesture && !onGesture) return undefined;
-    if (!contextOnGesture) return onGesture;
-    if (!onGesture) return contextOnGesture;
-
-    // If both exist, call both handlers
-    return (event: Parameters<typeof contextOnGesture>[0]) => {
-      contextOnGesture(event);
-      onGesture(event);
-    };
-  }, [contextOnGesture, onGesture]);
+  const mergedOnGesture = useCallback(
+    (event: PickerGestureEvent) => {
+      contextOnGesture?.(event);
+      onGesture?.(event);
+      if (event.type === 'value:settle') {
+        announceSettledValue(event.value);
+      }
+    },
+    [announceSettledValue, contextOnGesture, onGesture]
+  );
 
   const {
     columnRef,
@@ -146,11 +374,16 @@ function PickerColumn({
     handleClick,
     handleDoubleClick,
     interruptMomentum,
+    scrollToIndex,
+    scrollByItems,
+    keyboardJumpToIndex,
+    getVisualIndex,
   } = usePickerPhysics({
     key,
     options,
     selectedIndex,
     itemHeight,
+    rowLayout,
     height,
     isPickerOpen,
     wheelSensitivity,
@@ -158,109 +391,283 @@ function PickerColumn({
     changeValue: pickerActions.change,
     onGesture: mergedOnGesture,
     snapConfig,
+    loop,
+    variant,
+    orientation,
+    layoutDirection: readingDirection,
+    locked,
+    animateExternalChanges,
+    coarseMultiplier,
     virtualization: virtualizationConfig,
   });
 
+  useEffect(() => {
+    const element = columnRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') {
+      return undefined;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setMeasuredViewport(Math.max(0, scrollAxisSize(entry, isHorizontal)));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [columnRef, isHorizontal]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToValue: (target, scrollOptions) => {
+        const index = source
+          ? source.indexOf(target)
+          : isSequential
+            ? Number(target)
+            : (valueToIndex?.get(target) ?? -1);
+        if (Number.isInteger(index) && index >= 0 && index < options.length) {
+          scrollToIndex(index, scrollOptions);
+        }
+      },
+      scrollByItems,
+      stopMomentum: interruptMomentum,
+      focus: () => columnRef.current?.focus(),
+      getVisualValue: () => options.at(getVisualIndex())?.value,
+    }),
+    [
+      columnRef,
+      getVisualIndex,
+      interruptMomentum,
+      isSequential,
+      options,
+      scrollByItems,
+      scrollToIndex,
+      source,
+      valueToIndex,
+    ]
+  );
+
   const pickerConfigValue = useMemo(() => ({ key, isPickerOpen }), [isPickerOpen, key]);
 
+  // Row ids hang off the column id, so an owning control can point at rows too
+  const generatedId = useId();
+  const columnId = restProps.id ?? `picker-column-${key}${generatedId}`;
+  // The selected row while it is rendered (looping columns: the copy nearest the center)
+  let activeRowIndex = selectedIndex;
+  if (loop && options.length > 0) {
+    activeRowIndex = centerIndex - wrapIndex(centerIndex, options.length) + selectedIndex;
+    if (activeRowIndex - centerIndex > options.length / 2) activeRowIndex -= options.length;
+    else if (centerIndex - activeRowIndex > options.length / 2) activeRowIndex += options.length;
+  }
+  // Looping columns render an option once per lap, so each copy gets its own id: generated ids
+  // count rows past the end, and custom option ids are suffixed with the row
+  const rowId = (customId: string | undefined, rowIndex: number) => {
+    if (customId === undefined) return pickerOptionId(columnId, rowIndex);
+    return loop ? `${customId}-${rowIndex}` : customId;
+  };
+  const activeDescendant =
+    options.length > 0 && activeRowIndex >= startIndex && activeRowIndex < startIndex + windowLength
+      ? rowId(options.at(selectedIndex)?.props?.id, activeRowIndex)
+      : undefined;
+
+  // Typeahead: typed characters jump to the first option whose text starts with them
+  // (sources are searched by magnitude instead of row by row)
+  const searchTypeahead = useCallback(
+    (buffer: string) => {
+      const index = source
+        ? findRangeTypeaheadIndex(source, buffer)
+        : findTypeaheadIndex(options, buffer, selectedIndex);
+      if (index === -1) {
+        return false;
+      }
+      if (source && index >= options.length) {
+        // Past the rows an unbounded source has exposed so far: jump there without scrolling
+        interruptMomentum();
+        pickerActions.change(key, source.valueAt(index));
+      } else if (index !== selectedIndex) {
+        keyboardJumpToIndex(index);
+      }
+      return true;
+    },
+    [interruptMomentum, key, keyboardJumpToIndex, options, pickerActions, selectedIndex, source]
+  );
+  const handleTypeahead = useTypeahead(searchTypeahead);
+  const arrowStepRows = useKeyRepeatAcceleration(coarseMultiplier);
+
   // Keyboard navigation support
   const handleKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLDivElement>) => {
-      if (event.defaultPrevented || options.length === 0) {
+      if (event.defaultPrevented || locked || options.length === 0) {
+        return;
+      }
+
+      if (handleTypeahead(event)) {
         return;
       }
 
       const pageJump = Math.max(1, Math.min(10, Math.floor(options.length / 5) || 1));
+      // Looping columns wrap past either end; others stop at the first/last option.
+      // Disabled options are skipped in the direction of travel.
+      const stepBy = (delta: number) => stepToEnabledIndex(options, selectedIndex, delta, loop);
       let targetIndex = selectedIndex;
+      // Stepping past either end of a looping column carries into its parent column
+      let direction = 0;
 
+      // ArrowRight moves forward in LTR, ArrowLeft in RTL
+      const isRtl = readingDirection === 'rtl';
       switch (event.key) {
         case 'ArrowDown':
-        case 'ArrowRight':
+        case isRtl ? 'ArrowLeft' : 'ArrowRight':
           event.preventDefault();
-          targetIndex = Math.min(options.length - 1, selectedIndex + 1);
+          targetIndex = stepBy(arrowStepRows(event));
+          direction = 1;
           break;
         case 'ArrowUp':
-        case 'ArrowLeft':
+        case isRtl ? 'ArrowRight' : 'ArrowLeft':
           event.preventDefault();
-          targetIndex = Math.max(0, selectedIndex - 1);
+          targetIndex = stepBy(-arrowStepRows(event));
+          direction = -1;
           break;
         case 'PageDown':
           event.preventDefault();
-          targetIndex = Math.min(options.length - 1, selectedIndex + pageJump);
+          targetIndex = stepBy(pageJump);
+          direction = 1;
           break;
         case 'PageUp':
           event.preventDefault();
-          targetIndex = Math.max(0, selectedIndex - pageJump);
+          targetIndex = stepBy(-pageJump);
+          direction = -1;
           break;
         case 'Home':
           event.preventDefault();
-          targetIndex = 0;
+          targetIndex = nearestEnabledIndex(options, 0, { direction: 1 });
           break;
         case 'End':
+          // An unbounded source has no last row to jump to
+          if (isUnbounded) return;
           event.preventDefault();
-          targetIndex = options.length - 1;
+          targetIndex = nearestEnabledIndex(options, options.length - 1, { direction: -1 });
           break;
         default:
           return;
       }
 
       if (targetIndex !== selectedIndex) {
-        const targetOption = options[targetIndex];
-        if (targetOption) {
+        const targetOption = options.at(targetIndex);
+        if (targetOption && !targetOption.disabled) {
           // Interrupt any active momentum animation before keyboard navigation
           interruptMomentum();
-          pickerActions.change(key, targetOption.value);
+          const wrapped = loop && (targetIndex - selectedIndex) * direction < 0;
+          pickerActions.change(key, targetOption.value, wrapped ? direction : 0);
         }
       }
     },
-    [options, selectedIndex, key, pickerActions, interruptMomentum]
+    [
+      options,
+      selectedIndex,
+      loop,
+      locked,
+      isUnbounded,
+      key,
+      pickerActions,
+      interruptMomentum,
+      handleTypeahead,
+      arrowStepRows,
+      readingDirection,
+    ]
   );
 
   // Pre-compute base item style (shared by all 250 items) to avoid recreating it in the loop
-  const baseItemStyle = useMemo(
-    () => ({
-      height: `${itemHeight}px`,
-      display: 'flex',
-      alignItems: 'center',
-      justifyContent: 'center',
-      lineHeight: `${itemHeight}px`,
-    }),
-    [itemHeight]
+  // Horizontal columns lay items side by side: itemHeight becomes the item width.
+  // Measured rows take their content's size, so they get no fixed size or line height.
+  const baseItemStyle = useMemo<CSSProperties>(
+    () =>
+      isHorizontal
+        ? {
+            width: isMeasured ? undefined : `${itemHeight}px`,
+            height: '100%',
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+          }
+        : {
+            height: isMeasured ? undefined : `${itemHeight}px`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            lineHeight: isMeasured ? undefined : `${itemHeight}px`,
+          },
+    [isHorizontal, isMeasured, itemHeight]
   );
+  // Per-row sizes from an `itemHeight` function are set on each row
+  const sizedRows = typeof itemHeightProp === 'function' && rowLayout !== null;
 
-  // Use motion template to avoid regex parsing on every frame (60-120 times/sec)
-  const transform = useMotionTemplate`translate3d(0, ${ySnap}px, 0)`;
+  const isCylinder = variant === 'cylinder';
+  const viewportCenter = height / 2;
+  // Column-level perspective gives every row on the drum a shared vanishing point
+  const cylinderPerspective = isCylinder
+    ? `${Math.round(cylinderRadius(itemHeight) * 4)}px`
+    : undefined;
+
+  // Build the transform string directly to avoid regex parsing on every frame (60-120 times/sec)
+  const transform = useTransform(ySnap, (position) =>
+    isHorizontal
+      ? `translate3d(${axisSign * position}px, 0, 0)`
+      : `translate3d(0, ${position}px, 0)`
+  );
 
   // Merge classNames to ensure picker-column is always present
+  const baseClassName = isCylinder ? 'picker-column picker-column-cylinder' : 'picker-column';
   const mergedClassName = classNameFromUser
-    ? `picker-column ${classNameFromUser}`
-    : 'picker-column';
+    ? `${baseClassName} ${classNameFromUser}`
+    : baseClassName;
 
   // Highlight lines for the center row (only shown when column has focus in multi-column mode)
+  const highlightSize = rowLayout ? rowLayout.sizeOf(centerIndex) : itemHeight;
   const highlightStyle = useMemo<CSSProperties>(
-    () => ({
-      height: `${itemHeight}px`,
-      marginTop: `${-itemHeight / 2}px`,
-      position: 'absolute',
-      top: '50%',
-      left: 0,
-      right: 0,
-      pointerEvents: 'none' as const,
-      zIndex: 10,
-    }),
-    [itemHeight]
+    () =>
+      isHorizontal
+        ? {
+            width: `${highlightSize}px`,
+            marginLeft: `${-highlightSize / 2}px`,
+            position: 'absolute',
+            left: '50%',
+            top: 0,
+            bottom: 0,
+            pointerEvents: 'none' as const,
+            zIndex: 10,
+          }
+        : {
+            height: `${highlightSize}px`,
+            marginTop: `${-highlightSize / 2}px`,
+            position: 'absolute',
+            top: '50%',
+            left: 0,
+            right: 0,
+            pointerEvents: 'none' as const,
+            zIndex: 10,
+          },
+    [highlightSize, isHorizontal]
   );
 
   const highlightBorderStyle = useMemo<CSSProperties>(
-    () => ({
-      position: 'absolute',
-      left: 0,
-      width: '100%',
-      height: 1,
-      background: 'var(--picker-highlight-color, rgba(62, 220, 255, 0.6))',
-      transform: 'scaleY(0.5)',
-    }),
-    []
+    () =>
+      isHorizontal
+        ? {
+            position: 'absolute',
+            top: 0,
+            height: '100%',
+            width: 1,
+            background: 'var(--picker-highlight-color, rgba(62, 220, 255, 0.6))',
+            transform: 'scaleX(0.5)',
+          }
+        : {
+            position: 'absolute',
+            left: 0,
+            width: '100%',
+            height: 1,
+            background: 'var(--picker-highlight-color, rgba(62, 220, 255, 0.6))',
+            transform: 'scaleY(0.5)',
+          },
+    [isHorizontal]
   );
 
   return (
@@ -268,7 +675,13 @@ function PickerColumn({
       <div
         ref={columnRef}
         className={mergedClassName}
-        tabIndex={0}
+        // eslint-disable-next-line jsx-a11y/prefer-tag-over-role -- Virtualized, draggable rows that <select> cannot render
+        role="listbox"
+        tabIndex={isDisabled ? -1 : 0}
+        aria-orientation={orientation}
+        aria-activedescendant={activeDescendant}
+        aria-disabled={isDisabled || undefined}
+        aria-readonly={isReadOnly || undefined}
         onKeyDown={handleKeyDown}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
@@ -282,34 +695,58 @@ function PickerColumn({
           flex: 1,
           alignItems: 'center',
           justifyContent: 'center',
+          // Stacked horizontal columns get their cross-axis size from the row height
+          minHeight: isHorizontal ? `${itemHeight}px` : undefined,
+          perspective: cylinderPerspective,
           ...styleFromUser,
         }}
         {...restProps}
+        // Unlabelled columns fall back to their name (spread props may carry `undefined`)
+        aria-label={columnLabel ?? (restProps['aria-labelledby'] ? undefined : key)}
       >
         {/* Column-specific highlights for multi-column pickers */}
         <div className="picker-column-highlight" style={highlightStyle}>
-          <div style={{ ...highlightBorderStyle, top: 0 }} />
-          <div style={{ ...highlightBorderStyle, bottom: 0 }} />
+          <div style={{ ...highlightBorderStyle, ...(isHorizontal ? { left: 0 } : { top: 0 }) }} />
+          <div
+            style={{ ...highlightBorderStyle, ...(isHorizontal ? { right: 0 } : { bottom: 0 }) }}
+          />
         </div>
         <m.div
           className="picker-scroller"
           style={{
             willChange: 'transform',
             backfaceVisibility: 'hidden',
+            transformStyle: isCylinder ? 'preserve-3d' : undefined,
             transform,
           }}
         >
-          <div style={{ transform: `translateY(${virtualOffsetY}px)` }}>
+          <div
+            style={{
+              transform: isHorizontal
+                ? `translateX(${axisSign * virtualOffsetY}px)`
+                : `translateY(${virtualOffsetY}px)`,
+              display: isHorizontal ? 'flex' : undefined,
+              transformStyle: isCylinder ? 'preserve-3d' : undefined,
+            }}
+          >
             {Array.from({ length: windowLength }).map((_, slot) => {
               const absoluteIndex = startIndex + slot;
-              const option = options[absoluteIndex];
+              // Looping windows run past both ends; map back onto the option list
+              const optionIndex = loop ? wrapIndex(absoluteIndex, options.length) : absoluteIndex;
+              const option = options.at(optionIndex);
               if (!option) {
                 return null;
               }
 
-              const selected = absoluteIndex === selectedIndex;
+              const selected = optionIndex === selectedIndex;
               const visuallySelected = absoluteIndex === centerIndex;
-              const content = option.render({ selected, visuallySelected, value: option.value });
+              const disabled = Boolean(option.disabled);
+              const content = option.render({
+                selected,
+                visuallySelected,
+                value: option.value,
+                disabled,
+              });
               const optionProps = option.props ?? {};
               const {
                 style: optionStyle,
@@ -321,24 +758,45 @@ function PickerColumn({
               } = optionProps;
 
               // Reuse base style, only spread if custom style exists
-              const mergedStyle = optionStyle
-                ? { ...baseItemStyle, ...optionStyle }
+              const sizedStyle = sizedRows
+                ? {
+                    ...baseItemStyle,
+                    [isHorizontal ? 'width' : 'height']: `${rowLayout.sizeOf(optionIndex)}px`,
+                    lineHeight: isHorizontal ? undefined : `${rowLayout.sizeOf(optionIndex)}px`,
+                  }
                 : baseItemStyle;
-              const optionId = optionIdProp ?? `picker-option-${key}-${absoluteIndex}`;
+              const mergedStyle = optionStyle ? { ...sizedStyle, ...optionStyle } : sizedStyle;
+              const optionId = rowId(optionIdProp, absoluteIndex);
+              const rowClassName = disabled
+                ? className
+                  ? `${className} picker-item-disabled`
+                  : 'picker-item-disabled'
+                : className;
 
-              return (
+              const row = (
                 // eslint-disable-next-line jsx-a11y/click-events-have-key-events -- Keyboard navigation handled by parent column
                 <div
                   key={absoluteIndex}
-                  className={className}
+                  className={rowClassName}
                   role={role ?? 'option'}
-                  aria-selected={selected}
+                  // Only the copy activedescendant points at is selected for assistive tech
+                  aria-selected={selected && absoluteIndex === activeRowIndex}
+                  aria-disabled={disabled || undefined}
+                  aria-label={option.ariaLabel}
+                  aria-description={option.ariaDescription}
                   style={mergedStyle}
                   id={optionId}
+                  data-option-index={measureRow ? optionIndex : undefined}
+                  ref={measureRow}
                   onClick={(event) => {
                     userOnClick?.(event);
-                    if (!event.defaultPrevented && !selected) {
-                      pickerActions.change(key, option.value);
+                    if (!event.defaultPrevented && !selected && !disabled && !locked) {
+                      // Rows across the seam of a looping column carry into its parent
+                      const carry = loop
+                        ? Math.floor(absoluteIndex / options.length) -
+                          Math.floor(centerIndex / options.length)
+                        : 0;
+                      pickerActions.change(key, option.value, carry);
                     }
                   }}
                   {...rest}
@@ -346,6 +804,28 @@ function PickerColumn({
                   {content}
                 </div>
               );
+
+              if (!isCylinder) {
+                return row;
+              }
+
+              return (
+                <CylinderRow
+                  key={absoluteIndex}
+                  ySnap={ySnap}
+                  rowCenter={
+                    rowLayout
+                      ? rowLayout.offsetOf(absoluteIndex) + rowLayout.sizeOf(absoluteIndex) / 2
+                      : (absoluteIndex + 0.5) * itemHeight
+                  }
+                  itemHeight={itemHeight}
+                  viewportCenter={viewportCenter}
+                  orientation={orientation}
+                  direction={readingDirection}
+                >
+                  {row}
+                </CylinderRow>
+              );
             })}
           </div>
         </m.div>
@@ -353,6 +833,21 @@ function PickerColumn({
       </div>
     </PickerConfigProvider>
   );
-}
+});
+
+/**
+ * Wheel column, or its native `<select>`/`<input type="number">` stand-in when the parent
+ * PickerGroup renders native controls (see its `fallback` prop).
+ */
+const PickerColumn = forwardRef<PickerColumnHandle, PickerColumnProps>(
+  function PickerColumn(props, ref) {
+    const { native } = usePickerData('Picker.Column');
+    return native ? (
+      <NativePickerColumn ref={ref} {...props} />
+    ) : (
+      <WheelColumn ref={ref} {...props} />
+    );
+  }
+);
 
 export default PickerColumn;
@@ -14,8 +14,17 @@ import {
 } from 'react';
 import { LazyMotion, domAnimation } from 'framer-motion';
 import { usePickerGestureFeedback } from '../shared/hooks/usePickerGestureFeedback';
+import { useLayoutDirection } from '../shared/hooks/useLayoutDirection';
+import { useLiveAnnouncer } from '../shared/hooks/useLiveAnnouncer';
+import { useNativeFallback } from '../shared/hooks/useNativeFallback';
+import { FormValueInput } from '../shared/FormValueInput';
+import { LiveRegion } from '../shared/LiveRegion';
 import type { FeedbackAdapters } from '../quick/feedback';
 import type { PickerGestureHandler } from './gestures';
+import type { PickerOrientation } from './types/orientation';
+import type { PickerDirection } from './types/direction';
+import type { PickerFallback } from './types/fallback';
+import { clampIndex, wrapIndex } from './utils/math';
 
 const DEFAULT_HEIGHT = 216;
 const DEFAULT_ITEM_HEIGHT = 36;
@@ -28,18 +37,37 @@ interface Option {
     selected: boolean;
     visuallySelected: boolean;
     value: string | number;
+    disabled: boolean;
   }) => ReactNode;
   props: Omit<HTMLProps<HTMLDivElement>, 'children' | 'value'>;
+  /** Rendered but never selectable: physics and keyboard navigation skip over it */
+  disabled?: boolean;
+  /** Plain text matched by typeahead (defaults to `String(value)`) */
+  textValue?: string;
+  /** Name read by screen readers when it differs from the visual label (e.g. `5 minutes`) */
+  ariaLabel?: string;
+  /** Extra detail screen readers read after the name (e.g. `Sold out`) */
+  ariaDescription?: string;
 }
 
 export type PickerOption = Option;
 
+/**
+ * Read-only, index-addressable view of a column's options. Arrays qualify; range sources are
+ * wrapped in a list that builds options only for the indices asked for.
+ */
+export interface PickerOptionList {
+  readonly length: number;
+  /** Option at `index` in [0, length) */
+  at(index: number): Option | undefined;
+}
+
 export interface PickerValue {
   [key: string]: string | number;
 }
 
 export interface PickerGroupRootProps<TType extends PickerValue>
-  extends Omit<HTMLProps<HTMLDivElement>, 'value' | 'onChange'> {
+  extends Omit<HTMLProps<HTMLDivElement>, 'value' | 'onChange' | 'dir'> {
   value: TType;
   onChange: (value: TType, key: string) => void;
   height?: number;
@@ -49,11 +77,68 @@ export interface PickerGroupRootProps<TType extends PickerValue>
   showHighlightLines?: boolean;
   enableHaptics?: boolean;
   enableAudioFeedback?: boolean;
+  /** Scroll axis for every column (columns may override it) */
+  orientation?: PickerOrientation;
+  /**
+   * Reading direction; read from the rendered element (`<html dir="rtl">`, CSS `direction`)
+   * when omitted. RTL puts the first column on the right and mirrors the arrow keys.
+   */
+  dir?: PickerDirection;
+  /** Block all interaction, dim the picker, and drop columns from the tab order */
+  disabled?: boolean;
+  /** Block value changes but keep columns focusable */
+  readOnly?: boolean;
+  /**
+   * Reconcile columns that depend on each other before `onChange` fires, e.g. clamp the day to
+   * 28 when the month changes to February. Runs on every column change.
+   */
+  resolveValue?: (value: TType, changedKey: string) => TType;
+  /**
+   * Odometer-style links from a column to the column it carries into, e.g.
+   * `{ seconds: 'minutes', minutes: 'hours' }`: when a looping child wraps (59 → 00) its parent
+   * steps by one in the same `onChange`. A looping parent wraps and carries on up the chain; a
+   * bounded one stops at its first/last option.
+   */
+  carry?: Partial<Record<string, string>>;
+  /**
+   * Submit every column with the surrounding form as `name[column]` (e.g. `time[hours]`); form
+   * reset restores the value the group was mounted with
+   */
+  name?: string;
+  /** Id of the form to join when the group isn't inside it */
+  form?: string;
+  /** Fail form validation while any column value is empty */
+  required?: boolean;
+  /**
+   * Read settled values out through a polite live region (throttled, nothing during momentum).
+   * Turn off when the surrounding control already announces its value.
+   */
+  announceValues?: boolean;
+  /**
+   * Render each column as a native `<select>` (or `<input type="number">` for range sources):
+   * always (`native`), or on touch-only devices, under forced colors, and in server markup
+   * (`auto`). Values, `onChange`, and form fields work the same.
+   */
+  fallback?: PickerFallback;
+}
+
+/** What PickerGroup needs to know about a column to step it when a child carries into it */
+interface ColumnRegistration {
+  options: PickerOptionList;
+  loop: boolean;
+  /** Row index of a value (compared as text), -1 when the column doesn't have it */
+  indexOf(value: string | number): number;
 }
 
 const PickerGroupDataContext = createContext<{
   height: number;
   itemHeight: number;
+  orientation: PickerOrientation;
+  direction: PickerDirection;
+  disabled: boolean;
+  readOnly: boolean;
+  /** Columns render native controls instead of wheels */
+  native: boolean;
   wheelSensitivity: number;
   wheelDeltaCap: number;
   value: PickerValue;
@@ -76,7 +161,10 @@ export function usePickerData(componentName: string) {
 
 const PickerGroupActionsContext = createContext<{
   registerOption(key: string, option: Option): () => void;
-  change(key: string, value: string | number): boolean;
+  registerColumn(key: string, column: ColumnRegistration): () => void;
+  change(key: string, value: string | number, carry?: number): boolean;
+  /** Queue a message for the group's live region */
+  announce(message: string): void;
 } | null>(null);
 PickerGroupActionsContext.displayName = 'PickerGroupActionsContext';
 
@@ -126,7 +214,10 @@ function pickerGroupReducer(
  * Multi-column picker container with shared state and keyboard navigation.
  *
  * Provides context for child PickerColumn components, manages value synchronization,
- * and handles cross-column keyboard navigation (ArrowLeft/ArrowRight).
+ * renders a `role="group"` around the column listboxes with a live region for settled values,
+ * and handles cross-column keyboard navigation (ArrowLeft/ArrowRight, or ArrowUp/ArrowDown
+ * when horizontal columns are stacked on top of each other). In RTL, ArrowLeft moves on to the
+ * next column.
  *
  * @template TType - Shape of the picker value object (e.g., `{ hours: number; minutes: number }`)
  *
@@ -139,6 +230,21 @@ function pickerGroupReducer(
  * @param {boolean} [props.showHighlightLines=true] - Show selection highlight borders
  * @param {boolean} [props.enableHaptics=false] - Enable haptic feedback on value changes
  * @param {boolean} [props.enableAudioFeedback=false] - Enable audio feedback on value commits
+ * @param {PickerOrientation} [props.orientation='vertical'] - Scroll axis. When horizontal, `height`
+ *   and `itemHeight` are measured along X (viewport width / item width) and columns stack vertically
+ * @param {PickerDirection} [props.dir] - `ltr`/`rtl`; detected from the rendered element when omitted
+ * @param {boolean} [props.disabled=false] - Ignore pointer, wheel, and keyboard input (columns may override)
+ * @param {boolean} [props.readOnly=false] - Like disabled, but columns stay focusable and undimmed
+ * @param {(value: TType, changedKey: string) => TType} [props.resolveValue] - Adjust dependent
+ *   columns in the same change, so a column never renders a value its options don't contain
+ * @param {Partial<Record<string, string>>} [props.carry] - Child → parent column links; a
+ *   wrapping child steps its parent in the same change (seconds 59 → 00 adds a minute)
+ * @param {string} [props.name] - Form field prefix; each column is submitted as `name[column]`
+ * @param {string} [props.form] - Id of the form the fields belong to
+ * @param {boolean} [props.required=false] - Columns with an empty value fail form validation
+ * @param {boolean} [props.announceValues=true] - Announce settled values to screen readers
+ * @param {PickerFallback} [props.fallback] - `native`/`auto`: render native controls instead of
+ *   wheels (always, or where the wheel is the weaker choice and before hydration)
  *
  * @example
  * ```tsx
@@ -167,9 +273,25 @@ function PickerGroupRoot<TType extends PickerValue>(props: PickerGroupRootProps<
     showHighlightLines = true,
     enableHaptics = false,
     enableAudioFeedback = false,
+    orientation = 'vertical',
+    dir,
+    disabled = false,
+    readOnly = false,
+    resolveValue,
+    carry,
+    name,
+    form,
+    required = false,
+    announceValues = true,
+    fallback,
     ...restProps
   } = props;
 
+  const isHorizontal = orientation === 'horizontal';
+  const containerRef = useRef<HTMLDivElement>(null);
+  const direction = useLayoutDirection(containerRef, dir);
+  const native = useNativeFallback(fallback);
+
   // Lazy-load feedback adapters for haptics and audio (tree-shaking optimization)
   const [adapters, setAdapters] = useState<FeedbackAdapters>({ haptics: null, audio: null });
 
@@ -207,61 +329,167 @@ function PickerGroupRoot<TType extends PickerValue>(props: PickerGroupRootProps<
   const onGesture = usePickerGestureFeedback(adapters);
 
   const highlightStyle = useMemo<CSSProperties>(
-    () => ({
-      height: `var(--picker-highlight-height, ${itemHeight}px)`,
-      marginTop: `calc(var(--picker-highlight-height, ${itemHeight}px) * -0.5)`,
-      position: 'absolute',
-      top: '50%',
-      left: 0,
-      width: '100%',
-      pointerEvents: 'none',
-    }),
-    [itemHeight]
+    () =>
+      isHorizontal
+        ? {
+            width: `var(--picker-highlight-height, ${itemHeight}px)`,
+            marginLeft: `calc(var(--picker-highlight-height, ${itemHeight}px) * -0.5)`,
+            position: 'absolute',
+            left: '50%',
+            top: 0,
+            height: '100%',
+            pointerEvents: 'none',
+          }
+        : {
+            height: `var(--picker-highlight-height, ${itemHeight}px)`,
+            marginTop: `calc(var(--picker-highlight-height, ${itemHeight}px) * -0.5)`,
+            position: 'absolute',
+            top: '50%',
+            left: 0,
+            width: '100%',
+            pointerEvents: 'none',
+          },
+    [isHorizontal, itemHeight]
   );
   const containerStyle = useMemo<CSSProperties>(
-    () => ({
-      height: `${height}px`,
-      position: 'relative',
-      display: 'flex',
-      justifyContent: 'center',
-      overflow: 'hidden',
-      touchAction: 'none',
-      contain: 'layout paint size style',
-    }),
-    [height]
+    () =>
+      isHorizontal
+        ? {
+            // Cross-axis size comes from the stacked columns, so no size containment here
+            width: `${height}px`,
+            maxWidth: '100%',
+            position: 'relative',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            overflow: 'hidden',
+            touchAction: 'none',
+            contain: 'layout paint style',
+          }
+        : {
+            height: `${height}px`,
+            position: 'relative',
+            display: 'flex',
+            justifyContent: 'center',
+            overflow: 'hidden',
+            touchAction: 'none',
+            contain: 'layout paint size style',
+          },
+    [height, isHorizontal]
   );
 
   const [optionGroups, dispatch] = useReducer(pickerGroupReducer, {});
 
   const pickerGroupData = useMemo(
-    () => ({ height, itemHeight, wheelSensitivity, wheelDeltaCap, value, optionGroups, onGesture }),
-    [height, itemHeight, optionGroups, value, wheelDeltaCap, wheelSensitivity, onGesture]
+    () => ({
+      height,
+      itemHeight,
+      orientation,
+      direction,
+      disabled,
+      readOnly,
+      native,
+      wheelSensitivity,
+      wheelDeltaCap,
+      value,
+      optionGroups,
+      onGesture,
+    }),
+    [
+      direction,
+      disabled,
+      height,
+      itemHeight,
+      native,
+      optionGroups,
+      orientation,
+      readOnly,
+      value,
+      wheelDeltaCap,
+      wheelSensitivity,
+      onGesture,
+    ]
   );
 
   const valueRef = useRef(value);
   const onChangeRef = useRef(onChange);
+  const resolveValueRef = useRef(resolveValue);
+  const carryRef = useRef(carry);
+  const columnsRef = useRef(new Map<string, ColumnRegistration>());
 
   useEffect(() => {
     valueRef.current = value;
     onChangeRef.current = onChange;
+    resolveValueRef.current = resolveValue;
+    carryRef.current = carry;
   });
 
-  const triggerChange = useCallback(
-    (key: string, nextValue: string) => {
-      if (valueRef.current[key] === nextValue) return false;
-      const nextPickerValue = { ...valueRef.current, [key]: nextValue };
+  // Every value the group reports goes through `resolveValue` first
+  const emitChange = useCallback(
+    (changedValue: TType, key: string) => {
+      const nextPickerValue = resolveValueRef.current
+        ? resolveValueRef.current(changedValue, key)
+        : changedValue;
       onChangeRef.current(nextPickerValue, key);
-      return true;
     },
     [] // Empty deps = stable forever
   );
+
+  const triggerChange = useCallback(
+    (key: string, nextValue: string | number, wraps = 0) => {
+      const carriesInto = wraps !== 0 ? carryRef.current?.[key] : undefined;
+      // A full lap lands on the same value but still carries
+      if (valueRef.current[key] === nextValue && !carriesInto) return false;
+      const changedValue = { ...valueRef.current, [key]: nextValue } as TType;
+
+      // Step each parent up the chain; the visited set guards against carry cycles
+      let laps = wraps;
+      let parentKey = carriesInto;
+      const visited = new Set([key]);
+      while (laps !== 0 && parentKey && !visited.has(parentKey)) {
+        visited.add(parentKey);
+        const parent = columnsRef.current.get(parentKey);
+        const index = parent?.indexOf(changedValue[parentKey]) ?? -1;
+        if (!parent || index === -1) break;
+        const count = parent.options.length;
+        const rawIndex = index + laps;
+        const nextIndex = parent.loop
+          ? wrapIndex(rawIndex, count)
+          : clampIndex(rawIndex, count - 1);
+        const nextOption = parent.options.at(nextIndex);
+        if (!nextOption) break;
+        (changedValue as PickerValue)[parentKey] = nextOption.value;
+        laps = parent.loop ? Math.floor(rawIndex / count) : 0;
+        parentKey = carryRef.current?.[parentKey];
+      }
+
+      emitChange(changedValue, key);
+      return true;
+    },
+    [emitChange] // Stable: emitChange only reads refs
+  );
   const registerOption = useCallback((key: string, option: Option) => {
     dispatch({ type: 'REGISTER_OPTION', key, option });
     return () => dispatch({ type: 'UNREGISTER_OPTION', key, option });
   }, []);
+  const registerColumn = useCallback((key: string, column: ColumnRegistration) => {
+    columnsRef.current.set(key, column);
+    return () => {
+      if (columnsRef.current.get(key) === column) {
+        columnsRef.current.delete(key);
+      }
+    };
+  }, []);
+  const { message: announcement, announce } = useLiveAnnouncer();
+  const announceIfEnabled = useCallback(
+    (message: string) => {
+      if (announceValues) announce(message);
+    },
+    [announce, announceValues]
+  );
   const pickerGroupActions = useMemo(
-    () => ({ registerOption, change: triggerChange }),
-    [registerOption, triggerChange]
+    () => ({ registerOption, registerColumn, change: triggerChange, announce: announceIfEnabled }),
+    [announceIfEnabled, registerColumn, registerOption, triggerChange]
   );
 
   // Memoize merged container style to prevent object recreation
@@ -270,35 +498,34 @@ function PickerGroupRoot<TType extends PickerValue>(props: PickerGroupRootProps<
     [containerStyle, style]
   );
 
-  // Memoize static gradient styles (never change)
+  // Memoize gradient styles (only change with orientation)
+  // Horizontal pickers fade towards the left/right edges instead of top/bottom
   const topGradientStyle = useMemo<CSSProperties>(
     () => ({
       position: 'absolute',
       top: 0,
       left: 0,
-      width: '100%',
-      height: '20%',
+      width: isHorizontal ? '20%' : '100%',
+      height: isHorizontal ? '100%' : '20%',
       pointerEvents: 'none',
       willChange: 'opacity',
-      background:
-        'linear-gradient(to bottom, var(--picker-overlay-color, rgba(0,0,0,0.95)) 0%, rgba(0,0,0,0.45) 55%, rgba(0,0,0,0) 100%)',
+      background: `linear-gradient(${isHorizontal ? 'to right' : 'to bottom'}, var(--picker-overlay-color, rgba(0,0,0,0.95)) 0%, rgba(0,0,0,0.45) 55%, rgba(0,0,0,0) 100%)`,
     }),
-    []
+    [isHorizontal]
   );
 
   const bottomGradientStyle = useMemo<CSSProperties>(
     () => ({
       position: 'absolute',
       bottom: 0,
-      left: 0,
-      width: '100%',
-      height: '20%',
+      right: 0,
+      width: isHorizontal ? '20%' : '100%',
+      height: isHorizontal ? '100%' : '20%',
       pointerEvents: 'none',
       willChange: 'opacity',
-      background:
-        'linear-gradient(to top, var(--picker-overlay-color, rgba(0,0,0,0.95)) 0%, rgba(0,0,0,0.45) 55%, rgba(0,0,0,0) 100%)',
+      background: `linear-gradient(${isHorizontal ? 'to left' : 'to top'}, var(--picker-overlay-color, rgba(0,0,0,0.95)) 0%, rgba(0,0,0,0.45) 55%, rgba(0,0,0,0) 100%)`,
     }),
-    []
+    [isHorizontal]
   );
 
   const highlightBorderTopStyle = useMemo<CSSProperties>(
@@ -306,84 +533,152 @@ function PickerGroupRoot<TType extends PickerValue>(props: PickerGroupRootProps<
       position: 'absolute',
       top: 0,
       left: 0,
-      width: '100%',
-      height: 1,
+      width: isHorizontal ? 1 : '100%',
+      height: isHorizontal ? '100%' : 1,
       background: 'var(--picker-highlight-color, #d9d9d9)',
-      transform: 'scaleY(0.5)',
+      transform: isHorizontal ? 'scaleX(0.5)' : 'scaleY(0.5)',
     }),
-    []
+    [isHorizontal]
   );
 
   const highlightBorderBottomStyle = useMemo<CSSProperties>(
     () => ({
       position: 'absolute',
       bottom: 0,
-      left: 0,
-      width: '100%',
-      height: 1,
+      right: 0,
+      width: isHorizontal ? 1 : '100%',
+      height: isHorizontal ? '100%' : 1,
       background: 'var(--picker-highlight-color, #d9d9d9)',
-      transform: 'scaleY(0.5)',
+      transform: isHorizontal ? 'scaleX(0.5)' : 'scaleY(0.5)',
     }),
-    []
+    [isHorizontal]
   );
 
   // Cross-column keyboard navigation
-  const containerRef = useRef<HTMLDivElement>(null);
-
-  const handleContainerKeyDown = useCallback((e: KeyboardEvent<HTMLDivElement>) => {
-    // Only intercept ArrowLeft/ArrowRight for multi-column navigation
-    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') {
-      return;
-    }
+  const handleContainerKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      // Only intercept the cross-axis arrows for multi-column navigation
+      // (columns sit side by side when vertical, stacked when horizontal; RTL mirrors the sides)
+      const isRtl = direction === 'rtl';
+      const prevKey = isHorizontal ? 'ArrowUp' : isRtl ? 'ArrowRight' : 'ArrowLeft';
+      const nextKey = isHorizontal ? 'ArrowDown' : isRtl ? 'ArrowLeft' : 'ArrowRight';
+      if (e.key !== prevKey && e.key !== nextKey) {
+        return;
+      }
 
-    const container = containerRef.current;
-    if (!container) return;
+      const container = containerRef.current;
+      if (!container) return;
 
-    // Find all focusable columns
-    const columns = Array.from(container.querySelectorAll('.picker-column')) as HTMLElement[];
-    if (columns.length <= 1) {
-      // Single column - let the column handle left/right as up/down
-      return;
-    }
+      // Find all focusable columns (disabled columns are out of the tab order)
+      const columns = Array.from(
+        container.querySelectorAll('.picker-column:not([aria-disabled="true"])')
+      ) as HTMLElement[];
+      if (columns.length <= 1) {
+        // Single column - let the column handle these arrows as value steps
+        return;
+      }
 
-    // Multi-column picker - use left/right to navigate between columns
-    const activeElement = document.activeElement as HTMLElement;
-    const currentIndex = columns.indexOf(activeElement);
+      // Multi-column picker - use the cross-axis arrows to navigate between columns
+      const activeElement = document.activeElement as HTMLElement;
+      const currentIndex = columns.indexOf(activeElement);
 
-    if (currentIndex === -1) {
-      // No column focused, focus the first one
-      columns[0]?.focus();
-      e.preventDefault();
-      e.stopPropagation();
-      return;
-    }
-
-    if (e.key === 'ArrowLeft') {
-      const prevIndex = currentIndex - 1;
-      if (prevIndex >= 0) {
-        columns[prevIndex].focus();
+      if (currentIndex === -1) {
+        // No column focused, focus the first one
+        columns[0]?.focus();
         e.preventDefault();
         e.stopPropagation();
+        return;
       }
-    } else if (e.key === 'ArrowRight') {
-      const nextIndex = currentIndex + 1;
-      if (nextIndex < columns.length) {
-        columns[nextIndex].focus();
-        e.preventDefault();
-        e.stopPropagation();
+
+      if (e.key === prevKey) {
+        const prevIndex = currentIndex - 1;
+        if (prevIndex >= 0) {
+          columns[prevIndex].focus();
+          e.preventDefault();
+          e.stopPropagation();
+        }
+      } else if (e.key === nextKey) {
+        const nextIndex = currentIndex + 1;
+        if (nextIndex < columns.length) {
+          columns[nextIndex].focus();
+          e.preventDefault();
+          e.stopPropagation();
+        }
       }
+    },
+    [direction, isHorizontal]
+  );
+
+  // Form reset restores the mount value; the first column that differs is reported as changed
+  const initialValueRef = useRef(value);
+  const handleFormReset = useCallback(() => {
+    const initial = initialValueRef.current;
+    const changedKey = Object.keys(initial).find((key) => initial[key] !== valueRef.current[key]);
+    if (changedKey !== undefined) {
+      emitChange(initial, changedKey);
     }
+  }, [emitChange]);
+
+  // Form validation reports land on the first enabled column instead of the hidden fields
+  const focusFirstColumn = useCallback(() => {
+    containerRef.current
+      ?.querySelector<HTMLElement>(
+        '.picker-column:not([aria-disabled="true"]), .picker-native-control:not(:disabled)'
+      )
+      ?.focus();
   }, []);
 
   // Wheel event handling is managed by column's native listener
   // which always prevents default to avoid page scrolling
 
+  const formFields =
+    name &&
+    Object.keys(value).map((key, index) => (
+      <FormValueInput
+        key={key}
+        name={`${name}[${key}]`}
+        form={form}
+        value={String(value[key] ?? '')}
+        required={required}
+        disabled={disabled}
+        onReset={index === 0 ? handleFormReset : undefined}
+        focusPicker={focusFirstColumn}
+      />
+    ));
+
+  // Native controls announce their own values and need no surface, overlays, or key handling
+  if (native) {
+    return (
+      <div
+        ref={containerRef}
+        className="picker-native-group"
+        style={style}
+        // eslint-disable-next-line jsx-a11y/prefer-tag-over-role -- A <fieldset> would change the public div props and default layout
+        role="group"
+        dir={dir}
+        aria-disabled={disabled || undefined}
+        {...restProps}
+      >
+        <PickerGroupActionsContext.Provider value={pickerGroupActions}>
+          <PickerGroupDataContext.Provider value={pickerGroupData}>
+            {children}
+          </PickerGroupDataContext.Provider>
+        </PickerGroupActionsContext.Provider>
+        {formFields}
+      </div>
+    );
+  }
+
   return (
     <LazyMotion features={domAnimation} strict>
       <div
         ref={containerRef}
         className="picker-surface"
         style={mergedContainerStyle}
+        // eslint-disable-next-line jsx-a11y/prefer-tag-over-role -- A <fieldset> would change the public div props and default layout
+        role="group"
+        dir={dir}
+        aria-disabled={disabled || undefined}
         onKeyDownCapture={handleContainerKeyDown}
         onTouchMove={(e) => {
           e.preventDefault();
@@ -405,6 +700,8 @@ function PickerGroupRoot<TType extends PickerValue>(props: PickerGroupRootProps<
             <div className="picker-highlight-line-bottom" style={highlightBorderBottomStyle} />
           </div>
         )}
+        {announceValues && <LiveRegion message={announcement} />}
+        {formFields}
       </div>
     </LazyMotion>
   );
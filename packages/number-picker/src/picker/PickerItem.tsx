@@ -6,11 +6,18 @@ interface PickerItemRenderProps {
   selected: boolean;
   visuallySelected: boolean;
   value: string | number;
+  disabled: boolean;
 }
 
 export interface PickerItemProps extends Omit<HTMLProps<HTMLDivElement>, 'value' | 'children'> {
   children: ReactNode | ((renderProps: PickerItemRenderProps) => ReactNode);
   value: string | number;
+  /** Plain text matched by typeahead; defaults to text children, then `String(value)` */
+  textValue?: string;
+  /** Name read by screen readers instead of the rendered content */
+  ariaLabel?: string;
+  /** Extra detail screen readers read after the name */
+  ariaDescription?: string;
 }
 
 function isFunction(value: unknown): value is (...args: unknown[]) => unknown {
@@ -24,6 +31,10 @@ function isFunction(value: unknown): value is (...args: unknown[]) => unknown {
  *
  * @param {ReactNode | ((props: PickerItemRenderProps) => ReactNode)} props.children - Content to render (static or render function)
  * @param {string | number} props.value - Unique value for this option
+ * @param {boolean} [props.disabled=false] - Keep the row visible but skip it when scrolling/navigating
+ * @param {string} [props.textValue] - Text matched by typeahead when children aren't plain text
+ * @param {string} [props.ariaLabel] - Accessible name when it should differ from the content
+ * @param {string} [props.ariaDescription] - Accessible description (`aria-description`)
  *
  * @example
  * ```tsx
@@ -38,7 +49,15 @@ function isFunction(value: unknown): value is (...args: unknown[]) => unknown {
  * </PickerColumn>
  * ```
  */
-function PickerItem({ children, value, ...restProps }: PickerItemProps) {
+function PickerItem({
+  children,
+  value,
+  disabled = false,
+  textValue,
+  ariaLabel,
+  ariaDescription,
+  ...restProps
+}: PickerItemProps) {
   const { key } = usePickerConfig('Picker.Item');
   const pickerActions = usePickerActions('Picker.Item');
 
@@ -47,13 +66,21 @@ function PickerItem({ children, value, ...restProps }: PickerItemProps) {
     [children]
   );
 
+  const resolvedTextValue =
+    textValue ??
+    (typeof children === 'string' || typeof children === 'number' ? String(children) : undefined);
+
   const option = useMemo(
     () => ({
       value,
       render,
       props: restProps,
+      disabled,
+      textValue: resolvedTextValue,
+      ariaLabel,
+      ariaDescription,
     }),
-    [value, render, restProps]
+    [value, render, restProps, disabled, resolvedTextValue, ariaLabel, ariaDescription]
   );
 
   useEffect(() => pickerActions.registerOption(key, option), [key, option, pickerActions]);
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import Picker from '../../wheel/Picker';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+const formOf = (container: HTMLElement) => container.querySelector('form') as HTMLFormElement;
+
+describe('Picker form integration', () => {
+  it('submits the value under its name', () => {
+    const { container } = render(
+      <form>
+        <Picker name="weight" value={72.5} onChange={() => {}} min={40} max={200} step={0.5} />
+      </form>
+    );
+
+    expect(new FormData(formOf(container)).get('weight')).toBe('72.5');
+    expect(formOf(container).checkValidity()).toBe(true);
+  });
+
+  it('joins a form outside it through the form attribute', () => {
+    const { container } = render(
+      <>
+        <form id="settings" />
+        <Picker name="reps" form="settings" value={8} onChange={() => {}} min={1} max={30} />
+      </>
+    );
+
+    expect(new FormData(formOf(container)).get('reps')).toBe('8');
+  });
+
+  it('reports values off the range or options as invalid', () => {
+    const { container, rerender } = render(
+      <form>
+        <Picker name="reps" value={40} onChange={() => {}} min={1} max={30} />
+      </form>
+    );
+    const input = container.querySelector('input[name="reps"]') as HTMLInputElement;
+
+    expect(formOf(container).checkValidity()).toBe(false);
+    expect(input.validationMessage).toBe('Value must be between 1 and 30.');
+
+    rerender(
+      <form>
+        <Picker
+          name="reps"
+          value="hard"
+          onChange={() => {}}
+          options={[{ value: 'easy' }, { value: 'hard', disabled: true }]}
+        />
+      </form>
+    );
+    expect(formOf(container).checkValidity()).toBe(false);
+  });
+
+  it('reports consumer validation messages', () => {
+    const { container } = render(
+      <form>
+        <Picker
+          name="reps"
+          value={40}
+          onChange={() => {}}
+          min={1}
+          max={30}
+          validationMessages={{ outOfRange: (min, max) => `Zwischen ${min} und ${max}.` }}
+        />
+      </form>
+    );
+    const input = container.querySelector('input[name="reps"]') as HTMLInputElement;
+
+    expect(input.validationMessage).toBe('Zwischen 1 und 30.');
+  });
+
+  it('moves focus to the wheel when the form focuses its hidden field', () => {
+    const { container } = render(
+      <form>
+        <Picker name="reps" value={40} onChange={() => {}} min={1} max={30} />
+      </form>
+    );
+
+    // What `reportValidity()` and a blocked submit do with the first invalid field
+    act(() => (container.querySelector('input[name="reps"]') as HTMLInputElement).focus());
+
+    expect(document.activeElement).toBe(container.querySelector('.picker-column'));
+  });
+
+  it('fails required validation while the value is empty', () => {
+    const { container } = render(
+      <form>
+        <Picker
+          name="level"
+          required
+          value=""
+          onChange={() => {}}
+          options={[{ value: 'easy' }, { value: 'hard' }]}
+        />
+      </form>
+    );
+
+    expect(formOf(container).checkValidity()).toBe(false);
+  });
+
+  it('restores the initial value when the form is reset', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    function Harness() {
+      const [value, setValue] = useState<string | number>(10);
+      return (
+        <form>
+          <Picker
+            name="reps"
+            value={value}
+            onChange={(next) => {
+              onChange(next);
+              setValue(next);
+            }}
+            min={1}
+            max={30}
+          />
+        </form>
+      );
+    }
+
+    const { container } = render(<Harness />);
+    (container.querySelector('.picker-column') as HTMLElement).focus();
+    await user.keyboard('{ArrowDown}{ArrowDown}');
+    expect(new FormData(formOf(container)).get('reps')).toBe('12');
+
+    act(() => formOf(container).reset());
+
+    expect(onChange).toHaveBeenLastCalledWith(10);
+    expect(new FormData(formOf(container)).get('reps')).toBe('10');
+  });
+});
+
+describe('PickerGroup form integration', () => {
+  it('submits each column as name[column] and resets them together', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    function Harness() {
+      const [value, setValue] = useState({ hours: '9', minutes: '30' });
+      return (
+        <form>
+          <PickerGroup
+            name="time"
+            value={value}
+            onChange={(next, key) => {
+              onChange(next, key);
+              setValue(next);
+            }}
+          >
+            <PickerColumn name="hours" aria-label="Hours" options={buildOptions(24)} />
+            <PickerColumn name="minutes" aria-label="Minutes" options={buildOptions(60)} />
+          </PickerGroup>
+        </form>
+      );
+    }
+
+    const { container, getByLabelText } = render(<Harness />);
+    const data = () => Object.fromEntries(new FormData(formOf(container)));
+    expect(data()).toEqual({ 'time[hours]': '9', 'time[minutes]': '30' });
+
+    getByLabelText('Minutes').focus();
+    await user.keyboard('{ArrowDown}');
+    expect(data()).toEqual({ 'time[hours]': '9', 'time[minutes]': '31' });
+
+    act(() => formOf(container).reset());
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith({ hours: '9', minutes: '30' }, 'minutes');
+    expect(data()).toEqual({ 'time[hours]': '9', 'time[minutes]': '30' });
+  });
+
+  it('resets through resolveValue like any other change', () => {
+    const onChange = vi.fn();
+
+    function Harness() {
+      const [value, setValue] = useState({ month: '1', day: '31' });
+      const [lastDay, setLastDay] = useState(31);
+      return (
+        <form>
+          <button
+            type="button"
+            onClick={() => {
+              setLastDay(28);
+              setValue({ month: '2', day: '15' });
+            }}
+          >
+            February
+          </button>
+          <PickerGroup
+            name="date"
+            value={value}
+            onChange={(next, key) => {
+              onChange(next, key);
+              setValue(next);
+            }}
+            resolveValue={(next) =>
+              Number(next.day) > lastDay ? { ...next, day: String(lastDay) } : next
+            }
+          >
+            <PickerColumn name="month" aria-label="Month" options={buildOptions(13)} />
+            <PickerColumn name="day" aria-label="Day" options={buildOptions(32)} />
+          </PickerGroup>
+        </form>
+      );
+    }
+
+    const { container, getByRole } = render(<Harness />);
+    act(() => getByRole('button', { name: 'February' }).click());
+    act(() => formOf(container).reset());
+
+    expect(onChange).toHaveBeenLastCalledWith({ month: '1', day: '28' }, 'month');
+    expect(new FormData(formOf(container)).get('date[day]')).toBe('28');
+  });
+});
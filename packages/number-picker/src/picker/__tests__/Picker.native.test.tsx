@@ -0,0 +1,162 @@
+import { createRef, useState } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import Picker, { type PickerHandle } from '../../wheel/Picker';
+import PickerGroup, { type PickerValue } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import PickerItem from '../PickerItem';
+import { NATIVE_FALLBACK_QUERY } from '../../shared/hooks/useNativeFallback';
+
+const stubMatchMedia = (matches: boolean) => {
+  vi.stubGlobal(
+    'matchMedia',
+    vi.fn((query: string) => ({
+      matches: query === NATIVE_FALLBACK_QUERY && matches,
+      media: query,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    }))
+  );
+};
+
+function TimeGroup() {
+  const [time, setTime] = useState<PickerValue>({ hours: '1', minutes: '00' });
+  return (
+    <form>
+      <PickerGroup fallback="native" name="time" value={time} onChange={setTime}>
+        <PickerColumn name="hours" aria-label="Hours">
+          {['1', '2', '3'].map((hour) => (
+            <PickerItem key={hour} value={hour}>
+              {hour}
+            </PickerItem>
+          ))}
+        </PickerColumn>
+        <PickerColumn name="minutes" aria-label="Minutes">
+          <PickerItem value="00">00</PickerItem>
+          <PickerItem value="30" disabled>
+            30
+          </PickerItem>
+        </PickerColumn>
+      </PickerGroup>
+    </form>
+  );
+}
+
+describe('Picker native fallback', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders options as a native select with their labels and disabled flags', () => {
+    const onChange = vi.fn();
+    render(
+      <Picker
+        fallback="native"
+        aria-label="Difficulty"
+        value="easy"
+        onChange={onChange}
+        options={[
+          { value: 'easy', label: 'Easy' },
+          { value: 'medium', label: 'Medium' },
+          { value: 'hard', label: 'Hard', disabled: true },
+        ]}
+      />
+    );
+
+    const select = screen.getByRole('combobox', { name: 'Difficulty' }) as HTMLSelectElement;
+    expect(screen.queryByRole('listbox')).toBeNull();
+    expect(Array.from(select.options).map((option) => option.text)).toEqual([
+      'Easy',
+      'Medium',
+      'Hard',
+    ]);
+    expect(select.options[2].disabled).toBe(true);
+    expect(select.selectedOptions[0].text).toBe('Easy');
+
+    fireEvent.change(select, { target: { value: select.options[1].value } });
+    expect(onChange).toHaveBeenCalledWith('medium');
+  });
+
+  it('renders ranges as a number input with min, max, and step', () => {
+    const onChange = vi.fn();
+    render(
+      <Picker
+        fallback="native"
+        aria-label="Weight"
+        value={72.5}
+        onChange={onChange}
+        min={40}
+        max={200}
+        step={0.5}
+        unit="kg"
+      />
+    );
+
+    const input = screen.getByRole('spinbutton', { name: 'Weight' }) as HTMLInputElement;
+    expect(input.value).toBe('72.5');
+    expect(input.min).toBe('40');
+    expect(input.max).toBe('200');
+    expect(input.step).toBe('0.5');
+    expect(screen.getByText('kg')).toBeTruthy();
+
+    // Only values on the range are committed
+    fireEvent.change(input, { target: { value: '73.2' } });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.change(input, { target: { value: '73' } });
+    expect(onChange).toHaveBeenCalledWith(73);
+  });
+
+  it('keeps submitting the value under its name', () => {
+    const { container } = render(
+      <form>
+        <Picker fallback="native" name="reps" value={8} onChange={() => {}} min={1} max={30} />
+      </form>
+    );
+
+    const form = container.querySelector('form') as HTMLFormElement;
+    expect(new FormData(form).get('reps')).toBe('8');
+  });
+
+  it('steps the value through the imperative handle', () => {
+    const ref = createRef<PickerHandle>();
+    const onChange = vi.fn();
+    render(<Picker ref={ref} fallback="native" value={5} onChange={onChange} min={1} max={10} />);
+
+    ref.current?.scrollByItems(2);
+    expect(onChange).toHaveBeenLastCalledWith(7);
+    ref.current?.scrollToValue(3);
+    expect(onChange).toHaveBeenLastCalledWith(3);
+    expect(ref.current?.getVisualValue()).toBe(5);
+  });
+
+  it('uses native controls in auto mode on touch-only devices or under forced colors', () => {
+    stubMatchMedia(true);
+    const { unmount } = render(
+      <Picker fallback="auto" aria-label="Reps" value={8} onChange={() => {}} min={1} max={30} />
+    );
+    expect(screen.getByRole('spinbutton', { name: 'Reps' })).toBeTruthy();
+    unmount();
+
+    stubMatchMedia(false);
+    render(
+      <Picker fallback="auto" aria-label="Reps" value={8} onChange={() => {}} min={1} max={30} />
+    );
+    expect(screen.getByRole('listbox', { name: 'Reps' })).toBeTruthy();
+  });
+});
+
+describe('PickerGroup native fallback', () => {
+  it('renders one select per column from registered items', () => {
+    const { container } = render(<TimeGroup />);
+
+    const hours = screen.getByRole('combobox', { name: 'Hours' }) as HTMLSelectElement;
+    const minutes = screen.getByRole('combobox', { name: 'Minutes' }) as HTMLSelectElement;
+    expect(hours.options).toHaveLength(3);
+    expect(minutes.options[1].disabled).toBe(true);
+
+    fireEvent.change(hours, { target: { value: hours.options[2].value } });
+    expect(hours.selectedOptions[0].text).toBe('3');
+    const form = container.querySelector('form') as HTMLFormElement;
+    expect(new FormData(form).get('time[hours]')).toBe('3');
+  });
+});
@@ -0,0 +1,70 @@
+import { fireEvent, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import Picker from '../../wheel/Picker';
+
+const options = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium', disabled: true },
+  { value: 'hard', label: 'Hard' },
+];
+
+describe('Picker stepper buttons', () => {
+  it('steps a range and controls the listbox', () => {
+    const onChange = vi.fn();
+    const { getByRole } = render(
+      <Picker
+        value={10}
+        onChange={onChange}
+        min={0}
+        max={10}
+        step={0.5}
+        steppers="inline"
+        aria-label="Weight"
+      />
+    );
+    const increase = getByRole('button', { name: 'Increase Weight' });
+    const decrease = getByRole('button', { name: 'Decrease Weight' });
+
+    expect(increase.getAttribute('aria-controls')).toBe(getByRole('listbox').id);
+    expect(increase).toHaveProperty('disabled', true);
+
+    fireEvent.click(decrease);
+    expect(onChange).toHaveBeenLastCalledWith(9.5);
+  });
+
+  it('skips disabled options and wraps when looping', () => {
+    const onChange = vi.fn();
+    const { getByRole } = render(
+      <Picker value="hard" onChange={onChange} options={options} steppers="flanking" loop />
+    );
+
+    fireEvent.click(getByRole('button', { name: 'Decrease' }));
+    expect(onChange).toHaveBeenLastCalledWith('easy');
+    fireEvent.click(getByRole('button', { name: 'Increase' }));
+    expect(onChange).toHaveBeenLastCalledWith('easy');
+  });
+
+  it('names the buttons with stepperLabels', () => {
+    const { getByRole } = render(
+      <Picker
+        value="easy"
+        onChange={() => {}}
+        options={options}
+        steppers="inline"
+        aria-label="Schwierigkeit"
+        stepperLabels={{ increase: 'Schwerer', decrease: 'Leichter' }}
+      />
+    );
+
+    expect(getByRole('button', { name: 'Schwerer' })).toBeTruthy();
+    expect(getByRole('button', { name: 'Leichter' })).toHaveProperty('disabled', true);
+  });
+
+  it('leaves the native fallback without buttons', () => {
+    const { queryByRole } = render(
+      <Picker value={1} onChange={() => {}} min={0} max={5} steppers="inline" fallback="native" />
+    );
+
+    expect(queryByRole('button')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import PickerGroup, { type PickerValue } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import PickerItem from '../PickerItem';
+import Picker from '../../wheel/Picker';
+
+// Settle springs finish immediately so keyboard steps settle synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function TimeGroup({ announceValues }: { announceValues?: boolean }) {
+  const [time, setTime] = useState<PickerValue>({ hours: '1', minutes: '00' });
+  return (
+    <PickerGroup
+      aria-label="Start time"
+      value={time}
+      onChange={setTime}
+      itemHeight={40}
+      height={200}
+      announceValues={announceValues}
+    >
+      <PickerColumn name="hours" aria-label="Hours">
+        {['1', '2', '3', '4'].map((hour) => (
+          <PickerItem key={hour} value={hour}>
+            {hour}
+          </PickerItem>
+        ))}
+      </PickerColumn>
+      <PickerColumn name="minutes">
+        <PickerItem value="00" ariaLabel="on the hour">
+          00
+        </PickerItem>
+        <PickerItem value="30" ariaLabel="half past" ariaDescription="Fully booked">
+          30
+        </PickerItem>
+      </PickerColumn>
+    </PickerGroup>
+  );
+}
+
+describe('PickerColumn accessibility', () => {
+  it('renders labelled listboxes inside a labelled group', () => {
+    render(<TimeGroup />);
+
+    expect(screen.getByRole('group', { name: 'Start time' })).toBeTruthy();
+    expect(screen.getByRole('listbox', { name: 'Hours' })).toBeTruthy();
+    // Unlabelled columns fall back to their name
+    expect(screen.getByRole('listbox', { name: 'minutes' })).toBeTruthy();
+  });
+
+  it('points aria-activedescendant at the selected row', () => {
+    render(<TimeGroup />);
+    const hours = screen.getByRole('listbox', { name: 'Hours' });
+
+    const active = document.getElementById(hours.getAttribute('aria-activedescendant') ?? '');
+    expect(active?.getAttribute('role')).toBe('option');
+    expect(active?.getAttribute('aria-selected')).toBe('true');
+    expect(active?.textContent).toBe('1');
+
+    fireEvent.keyDown(hours, { key: 'ArrowDown' });
+    const next = document.getElementById(hours.getAttribute('aria-activedescendant') ?? '');
+    expect(next?.textContent).toBe('2');
+  });
+
+  it('gives rows their own accessible name and description', () => {
+    render(<TimeGroup />);
+
+    const row = screen.getByRole('option', { name: 'half past' });
+    expect(row.textContent).toBe('30');
+    expect(row.getAttribute('aria-description')).toBe('Fully booked');
+  });
+
+  it('announces settled values through a polite live region', () => {
+    render(<TimeGroup />);
+    const status = screen.getByRole('status');
+    expect(status.getAttribute('aria-live')).toBe('polite');
+    expect(status.textContent).toBe('');
+
+    // Typeahead springs to the row and settles, like a flick
+    fireEvent.keyDown(screen.getByRole('listbox', { name: 'Hours' }), { key: '3' });
+    expect(status.textContent).toBe('Hours: 3');
+  });
+
+  it('leaves arrow key steps to aria-activedescendant', () => {
+    render(<TimeGroup />);
+
+    fireEvent.keyDown(screen.getByRole('listbox', { name: 'Hours' }), { key: 'ArrowDown' });
+    expect(screen.getByRole('status').textContent).toBe('');
+  });
+
+  it('announces the row name of unlabelled columns', () => {
+    render(<TimeGroup />);
+
+    fireEvent.keyDown(screen.getByRole('listbox', { name: 'minutes' }), { key: '3' });
+    expect(screen.getByRole('status').textContent).toBe('half past');
+  });
+
+  it('renders no live region when announcements are off', () => {
+    render(<TimeGroup announceValues={false} />);
+
+    expect(screen.queryByRole('status')).toBeNull();
+  });
+
+  it('names Picker wheels and their options', () => {
+    render(
+      <Picker
+        aria-label="Shirt size"
+        value="m"
+        onChange={() => {}}
+        options={[
+          { value: 's', label: 'S', ariaLabel: 'Small' },
+          { value: 'm', label: 'M', ariaLabel: 'Medium', ariaDescription: 'Most popular' },
+        ]}
+      />
+    );
+
+    const listbox = screen.getByRole('listbox', { name: 'Shirt size' });
+    const medium = screen.getByRole('option', { name: 'Medium' });
+    expect(listbox.getAttribute('aria-activedescendant')).toBe(medium.id);
+    expect(medium.getAttribute('aria-description')).toBe('Most popular');
+  });
+});
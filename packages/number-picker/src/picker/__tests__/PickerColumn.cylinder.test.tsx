@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import { cylinderOffsetToRows, cylinderRadius, cylinderRowOpacity } from '../utils/cylinder';
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+describe('PickerColumn cylinder variant', () => {
+  it('wraps each visible row in a drum transform', async () => {
+    render(
+      <PickerGroup value={{ v: '5' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="v" options={buildOptions(20)} variant="cylinder" />
+      </PickerGroup>
+    );
+
+    const centerRow = screen.getByRole('option', { name: '5' });
+    const wrapper = centerRow.parentElement as HTMLElement;
+    expect(wrapper.className).toBe('picker-cylinder-row');
+    // ySnap is positioned in an effect; the projection follows on the next motion frame
+    await waitFor(() => expect(wrapper.style.transform).toContain('rotateX(0deg)'));
+
+    const neighbour = screen.getByRole('option', { name: '6' }).parentElement as HTMLElement;
+    expect(neighbour.style.transform).toContain('rotateX(-18deg)');
+    expect(Number(neighbour.style.opacity)).toBeLessThan(1);
+
+    expect(centerRow.closest('.picker-column')?.className).toContain('picker-column-cylinder');
+  });
+
+  it('still selects a row when it is clicked on the curved surface', () => {
+    const onChange = vi.fn();
+    render(
+      <PickerGroup value={{ v: '5' }} onChange={onChange} itemHeight={40} height={200}>
+        <PickerColumn name="v" options={buildOptions(20)} variant="cylinder" />
+      </PickerGroup>
+    );
+
+    fireEvent.click(screen.getByRole('option', { name: '7' }));
+    expect(onChange).toHaveBeenCalledWith({ v: '7' }, 'v');
+  });
+
+  it('keeps the flat scroller by default', () => {
+    render(
+      <PickerGroup value={{ v: '5' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="v" options={buildOptions(20)} />
+      </PickerGroup>
+    );
+
+    expect(document.querySelector('.picker-cylinder-row')).toBeNull();
+  });
+
+  it('maps tap offsets back through the drum projection', () => {
+    const radius = cylinderRadius(40);
+    // A row two steps away is drawn at R·sin(36°), closer to center than 2 flat rows
+    const projected = radius * Math.sin((36 * Math.PI) / 180);
+    expect(projected).toBeLessThan(80);
+    expect(cylinderOffsetToRows(projected, 40)).toBeCloseTo(2, 5);
+    expect(cylinderRowOpacity(5)).toBeCloseTo(0, 5);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import PickerGroup from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import PickerItem from '../PickerItem';
+
+const SIZES = ['XS', 'S', 'M', 'L', 'XL'];
+
+function SizePicker({
+  value,
+  onChange,
+  soldOut,
+  disabled,
+  readOnly,
+}: {
+  value: string;
+  onChange: (value: { size: string }, key: string) => void;
+  soldOut: string[];
+  disabled?: boolean;
+  readOnly?: boolean;
+}) {
+  return (
+    <PickerGroup
+      value={{ size: value }}
+      onChange={onChange}
+      itemHeight={40}
+      height={200}
+      disabled={disabled}
+      readOnly={readOnly}
+    >
+      <PickerColumn name="size">
+        {SIZES.map((size) => (
+          <PickerItem key={size} value={size} disabled={soldOut.includes(size)}>
+            {size}
+          </PickerItem>
+        ))}
+      </PickerColumn>
+    </PickerGroup>
+  );
+}
+
+describe('PickerColumn disabled options', () => {
+  it('marks disabled rows with aria-disabled and ignores clicks on them', () => {
+    const onChange = vi.fn();
+    render(<SizePicker value="S" onChange={onChange} soldOut={['M']} />);
+
+    const soldOutRow = screen.getByRole('option', { name: 'M' });
+    expect(soldOutRow).toHaveAttribute('aria-disabled', 'true');
+    expect(soldOutRow).toHaveClass('picker-item-disabled');
+    expect(screen.getByRole('option', { name: 'L' })).not.toHaveAttribute('aria-disabled');
+
+    fireEvent.click(soldOutRow);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('skips disabled options with the arrow keys', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    const { rerender } = render(<SizePicker value="S" onChange={onChange} soldOut={['M']} />);
+
+    const column = screen
+      .getByRole('option', { name: 'S' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).toHaveBeenLastCalledWith({ size: 'L' }, 'size');
+
+    rerender(<SizePicker value="L" onChange={onChange} soldOut={['M']} />);
+
+    await user.keyboard('{ArrowUp}');
+    expect(onChange).toHaveBeenLastCalledWith({ size: 'S' }, 'size');
+  });
+
+  it('stays put when every option in the direction of travel is disabled', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<SizePicker value="L" onChange={onChange} soldOut={['XL']} />);
+
+    const column = screen
+      .getByRole('option', { name: 'L' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{ArrowDown}');
+    await user.keyboard('{End}');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('sends Home to the first enabled option', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<SizePicker value="L" onChange={onChange} soldOut={['XS']} />);
+
+    const column = screen
+      .getByRole('option', { name: 'L' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{Home}');
+    expect(onChange).toHaveBeenLastCalledWith({ size: 'S' }, 'size');
+  });
+});
+
+describe('PickerGroup disabled / readOnly', () => {
+  it('ignores keyboard, clicks, and wheel when disabled and leaves the tab order', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<SizePicker value="S" onChange={onChange} soldOut={[]} disabled />);
+
+    const column = screen
+      .getByRole('option', { name: 'S' })
+      .closest('.picker-column') as HTMLElement;
+    expect(column).toHaveAttribute('aria-disabled', 'true');
+    expect(column).toHaveAttribute('tabindex', '-1');
+    expect(column.closest('.picker-surface')).toHaveAttribute('aria-disabled', 'true');
+
+    column.focus();
+    await user.keyboard('{ArrowDown}{End}');
+    fireEvent.click(screen.getByRole('option', { name: 'L' }));
+
+    const wheel = new WheelEvent('wheel', { deltaY: 120, cancelable: true });
+    column.dispatchEvent(wheel);
+
+    expect(wheel.defaultPrevented).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('keeps read-only columns focusable but blocks value changes', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<SizePicker value="S" onChange={onChange} soldOut={[]} readOnly />);
+
+    const column = screen
+      .getByRole('option', { name: 'S' })
+      .closest('.picker-column') as HTMLElement;
+    expect(column).toHaveAttribute('aria-readonly', 'true');
+    expect(column).toHaveAttribute('tabindex', '0');
+
+    column.focus();
+    await user.keyboard('{ArrowDown}');
+    fireEvent.click(screen.getByRole('option', { name: 'L' }));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { createRef } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import type { PickerColumnHandle } from '../types/handle';
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+const renderColumn = (onChange = vi.fn()) => {
+  const ref = createRef<PickerColumnHandle>();
+  render(
+    <PickerGroup value={{ value: '5' }} onChange={onChange} itemHeight={40} height={200}>
+      <PickerColumn ref={ref} name="value" options={buildOptions(20)} />
+    </PickerGroup>
+  );
+  return { ref, onChange };
+};
+
+describe('PickerColumn imperative handle', () => {
+  it('jumps to a value without animation and commits it', () => {
+    const { ref, onChange } = renderColumn();
+
+    act(() => ref.current?.scrollToValue('12', { animated: false }));
+
+    expect(onChange).toHaveBeenLastCalledWith({ value: '12' }, 'value');
+    expect(ref.current?.getVisualValue()).toBe('12');
+  });
+
+  it('ignores values that are not in the option list', () => {
+    const { ref, onChange } = renderColumn();
+
+    act(() => ref.current?.scrollToValue('missing', { animated: false }));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(ref.current?.getVisualValue()).toBe('5');
+  });
+
+  it('scrolls by a number of items, clamping at the ends', () => {
+    const { ref, onChange } = renderColumn();
+
+    act(() => ref.current?.scrollByItems(-2, { animated: false }));
+    expect(onChange).toHaveBeenLastCalledWith({ value: '3' }, 'value');
+
+    act(() => ref.current?.scrollByItems(100, { animated: false }));
+    expect(onChange).toHaveBeenLastCalledWith({ value: '19' }, 'value');
+  });
+
+  it('focuses the column element', () => {
+    const { ref } = renderColumn();
+
+    act(() => ref.current?.focus());
+
+    const column = screen.getAllByRole('option')[0].closest('.picker-column');
+    expect(document.activeElement).toBe(column);
+  });
+});
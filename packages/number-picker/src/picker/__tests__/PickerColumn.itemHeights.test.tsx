@@ -0,0 +1,195 @@
+import { createRef, useState } from 'react';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import type { MotionValue } from 'framer-motion';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn, { type PickerColumnProps } from '../PickerColumn';
+import { createRowLayout, rowForTranslate, translateForRow } from '../utils/rowLayout';
+import type { PickerColumnHandle } from '../types/handle';
+
+// Settle springs finish immediately so scrolls commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+// Odd rows are twice as tall as even ones
+const alternating = (index: number) => (index % 2 ? 60 : 30);
+
+function SizedColumn({
+  initial,
+  onChange,
+  itemHeight,
+  columnRef,
+}: {
+  initial: string;
+  onChange: (value: string | number) => void;
+  itemHeight: PickerColumnProps['itemHeight'];
+  columnRef?: React.Ref<PickerColumnHandle>;
+}) {
+  const [value, setValue] = useState<{ value: string | number }>({ value: initial });
+  return (
+    <PickerGroup
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next.value);
+      }}
+      itemHeight={40}
+      height={200}
+    >
+      <PickerColumn
+        ref={columnRef}
+        name="value"
+        aria-label="Value"
+        options={buildOptions(10)}
+        itemHeight={itemHeight}
+      />
+    </PickerGroup>
+  );
+}
+
+// The scroller's style follows ySnap on the next motion frame
+const scrollerTransform = () =>
+  (document.querySelector('.picker-scroller') as HTMLElement).style.transform;
+
+describe('createRowLayout', () => {
+  it('places rows by the running sum of their sizes', () => {
+    const layout = createRowLayout(4, (index) => [10, 20, 30, 40][index], 25);
+
+    expect(layout.totalSize).toBe(100);
+    expect(layout.offsetOf(2)).toBe(30);
+    expect(layout.indexAt(29.9)).toBe(1);
+    expect(layout.indexAt(30)).toBe(2);
+    expect(layout.indexAt(99)).toBe(3);
+  });
+
+  it('continues on the next and previous lap past either end', () => {
+    const layout = createRowLayout(4, (index) => [10, 20, 30, 40][index], 25);
+
+    expect(layout.offsetOf(5)).toBe(110);
+    expect(layout.offsetOf(-1)).toBe(-40);
+    expect(layout.sizeOf(-1)).toBe(40);
+    expect(layout.indexAt(105)).toBe(4);
+    expect(layout.indexAt(-5)).toBe(-1);
+  });
+
+  it('falls back to the nominal size for rows without a usable size', () => {
+    const layout = createRowLayout(3, (index) => (index === 1 ? Number.NaN : 0), 25);
+
+    expect(layout.totalSize).toBe(75);
+  });
+
+  it('converts between translates and the centered row', () => {
+    const layout = createRowLayout(10, alternating, 40);
+
+    // Row 3 starts at 120 and is 60 tall: its center is 150
+    expect(translateForRow(layout, 3, 200)).toBe(-50);
+    expect(rowForTranslate(layout, -50, 200)).toBe(3);
+    expect(rowForTranslate(layout, -85, 200)).toBe(4);
+  });
+});
+
+describe('PickerColumn itemHeight', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sizes rows with an itemHeight function and centers them by their own size', async () => {
+    const onChange = vi.fn();
+    const ref = createRef<PickerColumnHandle>();
+    const user = userEvent.setup();
+    render(
+      <SizedColumn initial="0" onChange={onChange} itemHeight={alternating} columnRef={ref} />
+    );
+
+    expect(screen.getByRole('option', { name: '0' }).style.height).toBe('30px');
+    expect(screen.getByRole('option', { name: '1' }).style.height).toBe('60px');
+    await waitFor(() => expect(scrollerTransform()).toContain('translate3d(0, 85px, 0)'));
+
+    act(() => ref.current?.scrollToValue('3', { animated: false }));
+    expect(onChange).toHaveBeenLastCalledWith('3');
+    await waitFor(() => expect(scrollerTransform()).toContain('translate3d(0, -50px, 0)'));
+
+    screen.getByLabelText('Value').focus();
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).toHaveBeenLastCalledWith('4');
+    expect(ref.current?.getVisualValue()).toBe('4');
+    await waitFor(() => expect(scrollerTransform()).toContain('translate3d(0, -95px, 0)'));
+  });
+
+  it('measures rows with a ResizeObserver when itemHeight is "auto"', async () => {
+    // Every observer (rows and viewport) with the elements it watches
+    const observers = new Map<ResizeObserverCallback, Set<Element>>();
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        private elements = new Set<Element>();
+        constructor(callback: ResizeObserverCallback) {
+          observers.set(callback, this.elements);
+        }
+        observe(element: Element) {
+          this.elements.add(element);
+        }
+        unobserve(element: Element) {
+          this.elements.delete(element);
+        }
+        disconnect() {
+          this.elements.clear();
+        }
+      }
+    );
+    const rowObserved = () =>
+      [...observers.values()].some((elements) =>
+        [...elements].some((element) => element.hasAttribute('data-option-index'))
+      );
+
+    render(<SizedColumn initial="2" onChange={vi.fn()} itemHeight="auto" />);
+
+    const row = screen.getByRole('option', { name: '2' });
+    expect(row.style.height).toBe('');
+    await waitFor(() => expect(rowObserved()).toBe(true));
+    // Unmeasured rows are placed at the group's itemHeight: row 2 is centered at 100
+    await waitFor(() => expect(scrollerTransform()).toContain('translate3d(0, 0px, 0)'));
+
+    act(() => {
+      observers.forEach((elements, callback) => {
+        const rows = [...elements].filter((element) => element.hasAttribute('data-option-index'));
+        if (rows.length === 0) return;
+        callback(
+          rows.map(
+            (target) =>
+              ({
+                target,
+                borderBoxSize: [{ blockSize: 50, inlineSize: 120 }],
+                contentRect: { width: 120, height: 50 },
+              }) as unknown as ResizeObserverEntry
+          ),
+          {} as ResizeObserver
+        );
+      });
+    });
+
+    // Rows 0 and 1 are 50 tall now, so row 2 is centered at 125
+    await waitFor(() => expect(scrollerTransform()).toContain('translate3d(0, -25px, 0)'));
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i).padStart(2, '0'),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+describe('PickerColumn loop mode', () => {
+  it('wraps keyboard navigation past the last and first options', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    const options = buildOptions(60);
+
+    const { rerender } = render(
+      <PickerGroup value={{ minutes: '59' }} onChange={onChange} itemHeight={40} height={200}>
+        <PickerColumn name="minutes" options={options} loop />
+      </PickerGroup>
+    );
+
+    const column = screen.getAllByRole('option')[0].closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).toHaveBeenLastCalledWith({ minutes: '00' }, 'minutes');
+
+    rerender(
+      <PickerGroup value={{ minutes: '00' }} onChange={onChange} itemHeight={40} height={200}>
+        <PickerColumn name="minutes" options={options} loop />
+      </PickerGroup>
+    );
+
+    await user.keyboard('{ArrowUp}');
+    expect(onChange).toHaveBeenLastCalledWith({ minutes: '59' }, 'minutes');
+
+    await user.keyboard('{PageUp}');
+    expect(onChange).toHaveBeenLastCalledWith({ minutes: '50' }, 'minutes');
+  });
+
+  it('keeps clamping at the ends when loop is off', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <PickerGroup value={{ minutes: '59' }} onChange={onChange} itemHeight={40} height={200}>
+        <PickerColumn name="minutes" options={buildOptions(60)} />
+      </PickerGroup>
+    );
+
+    const column = screen.getAllByRole('option')[0].closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('renders wrapped neighbours above the first option', () => {
+    render(
+      <PickerGroup value={{ minutes: '00' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="minutes" options={buildOptions(60)} loop />
+      </PickerGroup>
+    );
+
+    const labels = screen.getAllByRole('option').map((option) => option.textContent);
+    const selectedIndex = labels.indexOf('00');
+
+    expect(selectedIndex).toBeGreaterThan(0);
+    expect(labels.slice(selectedIndex - 2, selectedIndex)).toEqual(['58', '59']);
+    expect(screen.getAllByRole('option', { selected: true })).toHaveLength(1);
+  });
+
+  it('gives every rendered copy its own id and selects the centred one', () => {
+    const options = ['a', 'b', 'c'].map<PickerOption>((value) => ({
+      value,
+      render: () => value,
+      props: { id: `level-${value}` },
+    }));
+    render(
+      <PickerGroup value={{ level: 'b' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="level" options={options} loop />
+      </PickerGroup>
+    );
+
+    const rows = screen.getAllByRole('option');
+    const ids = rows.map((row) => row.id);
+    expect(rows.length).toBeGreaterThan(options.length);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const column = rows[0].closest('.picker-column') as HTMLElement;
+    const active = document.getElementById(column.getAttribute('aria-activedescendant') ?? '');
+    expect(active?.textContent).toBe('b');
+    expect(rows.filter((row) => row.getAttribute('aria-selected') === 'true')).toEqual([active]);
+  });
+});
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Picker from '../../wheel/Picker';
+
+// Settle springs finish immediately so wheel gestures commit once the wheel goes quiet
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+const DOM_DELTA_LINE = 1;
+
+function RangePicker({ coarseMultiplier }: { coarseMultiplier?: number }) {
+  const [value, setValue] = useState<string | number>(100);
+  return (
+    <>
+      <Picker
+        aria-label="Distance"
+        value={value}
+        onChange={setValue}
+        min={0}
+        max={1000}
+        coarseMultiplier={coarseMultiplier}
+      />
+      <output data-testid="distance">{value}</output>
+    </>
+  );
+}
+
+const currentValue = () => Number(screen.getByTestId('distance').textContent);
+
+describe('PickerColumn precision modifiers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('steps coarsely with Shift and by one row with Alt', () => {
+    render(<RangePicker />);
+    const column = screen.getByRole('listbox', { name: 'Distance' });
+
+    fireEvent.keyDown(column, { key: 'ArrowDown', shiftKey: true });
+    expect(currentValue()).toBe(110);
+
+    fireEvent.keyDown(column, { key: 'ArrowUp', shiftKey: true, altKey: true });
+    expect(currentValue()).toBe(109);
+  });
+
+  it('takes the coarse step from coarseMultiplier', () => {
+    render(<RangePicker coarseMultiplier={25} />);
+
+    fireEvent.keyDown(screen.getByRole('listbox', { name: 'Distance' }), {
+      key: 'ArrowDown',
+      shiftKey: true,
+    });
+    expect(currentValue()).toBe(125);
+  });
+
+  it('accelerates held arrow keys and starts over on a fresh press', () => {
+    render(<RangePicker />);
+    const column = screen.getByRole('listbox', { name: 'Distance' });
+
+    fireEvent.keyDown(column, { key: 'ArrowDown' });
+    fireEvent.keyDown(column, { key: 'ArrowDown', repeat: true });
+    expect(currentValue()).toBe(102);
+
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    fireEvent.keyDown(column, { key: 'ArrowDown', repeat: true });
+    expect(currentValue()).toBe(104);
+
+    act(() => {
+      vi.advanceTimersByTime(1500);
+    });
+    fireEvent.keyDown(column, { key: 'ArrowDown', repeat: true });
+    expect(currentValue()).toBe(112);
+
+    // Alt keeps held keys to single rows
+    fireEvent.keyDown(column, { key: 'ArrowDown', repeat: true, altKey: true });
+    expect(currentValue()).toBe(113);
+
+    fireEvent.keyDown(column, { key: 'ArrowUp' });
+    expect(currentValue()).toBe(112);
+  });
+
+  it('scales wheel steps with Shift and caps them to one row with Alt', () => {
+    render(<RangePicker />);
+    const column = screen.getByRole('listbox', { name: 'Distance' });
+    const wheel = (init: WheelEventInit) => {
+      act(() => {
+        column.dispatchEvent(
+          new WheelEvent('wheel', { deltaMode: DOM_DELTA_LINE, bubbles: true, ...init })
+        );
+      });
+      act(() => {
+        vi.advanceTimersByTime(250);
+      });
+    };
+
+    // Shift+wheel arrives sideways
+    wheel({ deltaX: 1, shiftKey: true });
+    expect(currentValue()).toBe(110);
+
+    wheel({ deltaY: 3, altKey: true });
+    expect(currentValue()).toBe(111);
+  });
+});
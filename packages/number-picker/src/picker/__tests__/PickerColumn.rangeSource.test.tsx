@@ -0,0 +1,186 @@
+import { createRef, useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import type { MotionValue } from 'framer-motion';
+import PickerGroup from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import Picker from '../../wheel/Picker';
+import { createRangeSource, isLazyRange } from '../../utils/pickerOptions';
+import { findRangeTypeaheadIndex } from '../utils/typeahead';
+import type { PickerColumnHandle } from '../types/handle';
+
+// Settle springs finish immediately so scrolls commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+const HUGE = createRangeSource({ min: 0, max: 100000, step: 0.01 });
+const UNBOUNDED = createRangeSource({ min: 0, max: Infinity, step: 1 });
+
+function SourceColumn({
+  source,
+  initial,
+  onChange,
+  columnRef,
+}: {
+  source: typeof HUGE;
+  initial: number;
+  onChange: (value: string | number) => void;
+  columnRef?: React.Ref<PickerColumnHandle>;
+}) {
+  const [value, setValue] = useState<{ value: string | number }>({ value: initial });
+  return (
+    <PickerGroup
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next.value);
+      }}
+      itemHeight={40}
+      height={200}
+    >
+      <PickerColumn ref={columnRef} name="value" aria-label="Amount" source={source} />
+    </PickerGroup>
+  );
+}
+
+describe('PickerColumn range source', () => {
+  it('renders only the virtual window of a ten-million-row range', () => {
+    render(<SourceColumn source={HUGE} initial={50000} onChange={vi.fn()} />);
+
+    const rows = screen.getAllByRole('option');
+    expect(rows.length).toBeLessThanOrEqual(11);
+    const selected = rows.find((row) => row.getAttribute('aria-selected') === 'true');
+    expect(selected?.textContent).toBe('50000');
+  });
+
+  it('steps and jumps by index like an option array', async () => {
+    const onChange = vi.fn();
+    const ref = createRef<PickerColumnHandle>();
+    const user = userEvent.setup();
+    render(<SourceColumn source={HUGE} initial={12.5} onChange={onChange} columnRef={ref} />);
+
+    screen.getByLabelText('Amount').focus();
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).toHaveBeenLastCalledWith(12.51);
+
+    act(() => ref.current?.scrollToValue(99999.99, { animated: false }));
+    expect(onChange).toHaveBeenLastCalledWith(99999.99);
+    expect(ref.current?.getVisualValue()).toBe(99999.99);
+
+    await user.keyboard('{End}');
+    expect(onChange).toHaveBeenLastCalledWith(100000);
+  });
+
+  it('keeps adding rows to an unbounded range as the value moves on', () => {
+    const onChange = vi.fn();
+    const ref = createRef<PickerColumnHandle>();
+    render(<SourceColumn source={UNBOUNDED} initial={0} onChange={onChange} columnRef={ref} />);
+
+    act(() => ref.current?.scrollByItems(5000, { animated: false }));
+    // The first scroll stops at the end of the rows exposed so far...
+    expect(onChange).toHaveBeenLastCalledWith(999);
+
+    // ...which moves on with the committed value
+    act(() => ref.current?.scrollByItems(5000, { animated: false }));
+    expect(onChange).toHaveBeenLastCalledWith(1998);
+  });
+
+  it('jumps past the exposed rows of an unbounded range with typeahead', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<SourceColumn source={UNBOUNDED} initial={0} onChange={onChange} />);
+
+    screen.getByLabelText('Amount').focus();
+    await user.keyboard('25000');
+
+    expect(onChange).toHaveBeenLastCalledWith(25000);
+    const selected = screen
+      .getAllByRole('option')
+      .find((row) => row.getAttribute('aria-selected') === 'true');
+    expect(selected?.textContent).toBe('25000');
+  });
+
+  it('lets Picker take unbounded numeric ranges', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<Picker value={100} onChange={onChange} min={0} max={Infinity} />);
+
+    const column = screen.getAllByRole('option')[0].closest('.picker-column') as HTMLElement;
+    column.focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenLastCalledWith(101);
+  });
+
+  it('labels Picker ranges for its locale and keeps numeric values', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <Picker value={1234.5} onChange={onChange} min={1000} max={2000} step={0.5} locale="de-DE" />
+    );
+
+    const selected = screen
+      .getAllByRole('option')
+      .find((option) => option.getAttribute('aria-selected') === 'true') as HTMLElement;
+    expect(selected.textContent).toBe('1.234,5');
+
+    (selected.closest('.picker-column') as HTMLElement).focus();
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).toHaveBeenLastCalledWith(1235);
+
+    // Typeahead reads plain values, not the grouped labels
+    await user.keyboard('1500');
+    expect(onChange).toHaveBeenLastCalledWith(1500);
+  });
+});
+
+describe('isLazyRange', () => {
+  it('keeps option arrays up to the threshold', () => {
+    expect(isLazyRange(createRangeSource({ min: 0, max: 9999, step: 1 }))).toBe(false);
+    expect(isLazyRange(HUGE)).toBe(true);
+    expect(isLazyRange(UNBOUNDED)).toBe(true);
+  });
+});
+
+describe('findRangeTypeaheadIndex', () => {
+  it('finds the first row whose label starts with the typed digits', () => {
+    const source = createRangeSource({ min: 40, max: 200, step: 1 });
+
+    expect(findRangeTypeaheadIndex(source, '7')).toBe(30); // 70
+    expect(findRangeTypeaheadIndex(source, '4')).toBe(0); // 40
+    expect(findRangeTypeaheadIndex(source, '1')).toBe(60); // 100
+    expect(findRangeTypeaheadIndex(source, '3')).toBe(-1);
+  });
+
+  it('matches decimals and skips magnitudes without rows', () => {
+    const source = createRangeSource({ min: 0, max: 100, step: 3 });
+    expect(findRangeTypeaheadIndex(source, '7')).toBe(24); // 72
+
+    const fine = createRangeSource({ min: 0, max: 10, step: 0.25 });
+    expect(findRangeTypeaheadIndex(fine, '2.7')).toBe(11); // 2.75
+    expect(findRangeTypeaheadIndex(fine, 'x')).toBe(-1);
+  });
+
+  it('matches values rather than de-DE labels', () => {
+    const source = createRangeSource({ min: 1000, max: 2000, step: 0.5, locale: 'de-DE' });
+    expect(source.labelAt(468)).toBe('1.234');
+
+    expect(findRangeTypeaheadIndex(source, '1234')).toBe(468);
+    expect(findRangeTypeaheadIndex(source, '1234.5')).toBe(469);
+    expect(findRangeTypeaheadIndex(source, '1.234')).toBe(-1);
+  });
+});
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import type { MotionValue } from 'framer-motion';
+import PickerGroup from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import PickerItem from '../PickerItem';
+import Picker from '../../wheel/Picker';
+import { TYPEAHEAD_RESET_MS } from '../hooks/useTypeahead';
+import type { PickerGestureEvent } from '../gestures';
+
+// Settle springs finish immediately so jumps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+const FRUITS = ['Apple', 'Banana', 'Blueberry', 'Cherry', 'Date'];
+const NONE_DISABLED: string[] = [];
+
+function FruitPicker({
+  onChange,
+  onGesture,
+  disabled = NONE_DISABLED,
+}: {
+  onChange: (value: string) => void;
+  onGesture?: (event: PickerGestureEvent) => void;
+  disabled?: string[];
+}) {
+  const [fruit, setFruit] = useState('Apple');
+  return (
+    <PickerGroup
+      value={{ fruit }}
+      onChange={(next) => {
+        setFruit(next.fruit);
+        onChange(next.fruit);
+      }}
+      itemHeight={40}
+      height={200}
+    >
+      <PickerColumn name="fruit" aria-label="Fruit" onGesture={onGesture}>
+        {FRUITS.map((name) => (
+          <PickerItem key={name} value={name.toLowerCase()} disabled={disabled.includes(name)}>
+            {name}
+          </PickerItem>
+        ))}
+      </PickerColumn>
+    </PickerGroup>
+  );
+}
+
+function WeightPicker({ onChange }: { onChange: (value: string | number) => void }) {
+  const [weight, setWeight] = useState<string | number>(40);
+  return (
+    <Picker
+      value={weight}
+      onChange={(next) => {
+        setWeight(next);
+        onChange(next);
+      }}
+      min={40}
+      max={200}
+    />
+  );
+}
+
+describe('PickerColumn typeahead', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('jumps to the first option starting with the typed text', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<FruitPicker onChange={onChange} />);
+
+    screen.getByLabelText('Fruit').focus();
+    await user.keyboard('b');
+    expect(onChange).toHaveBeenLastCalledWith('banana');
+
+    await user.keyboard('l');
+    expect(onChange).toHaveBeenLastCalledWith('blueberry');
+  });
+
+  it('emits a keyboard-sourced gesture around the commit', async () => {
+    const onGesture = vi.fn();
+    const user = userEvent.setup();
+    render(<FruitPicker onChange={() => {}} onGesture={onGesture} />);
+
+    screen.getByLabelText('Fruit').focus();
+    onGesture.mockClear();
+    await user.keyboard('c');
+
+    const events = onGesture.mock.calls
+      .map(([event]) => event as PickerGestureEvent)
+      .filter((event) => event.type !== 'value:visual');
+    expect(events[0]).toMatchObject({ type: 'drag:start', source: 'keyboard' });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'value:commit', value: 'cherry' })
+    );
+    expect(events[events.length - 1]).toMatchObject({ type: 'drag:end', hasMoved: true });
+  });
+
+  it('cycles through matches when the same letter is repeated, skipping disabled rows', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<FruitPicker onChange={onChange} disabled={['Banana']} />);
+
+    screen.getByLabelText('Fruit').focus();
+    await user.keyboard('b');
+    expect(onChange).toHaveBeenLastCalledWith('blueberry');
+
+    await user.keyboard('a');
+    // "ba" only matches the disabled Banana
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new search after the buffer times out', () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    render(<FruitPicker onChange={onChange} />);
+    const column = screen.getByLabelText('Fruit');
+
+    fireEvent.keyDown(column, { key: 'b' });
+    expect(onChange).toHaveBeenLastCalledWith('banana');
+
+    vi.advanceTimersByTime(TYPEAHEAD_RESET_MS + 10);
+    fireEvent.keyDown(column, { key: 'd' });
+    expect(onChange).toHaveBeenLastCalledWith('date');
+  });
+
+  it('ignores modified keys', () => {
+    const onChange = vi.fn();
+    render(<FruitPicker onChange={onChange} />);
+
+    fireEvent.keyDown(screen.getByLabelText('Fruit'), { key: 'c', ctrlKey: true });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('matches digits in numeric Picker ranges', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<WeightPicker onChange={onChange} />);
+
+    (screen.getAllByRole('option')[0].closest('.picker-column') as HTMLElement).focus();
+    await user.keyboard('7');
+    expect(onChange).toHaveBeenLastCalledWith(70);
+
+    await user.keyboard('2');
+    expect(onChange).toHaveBeenLastCalledWith(72);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import Picker from '../../wheel/Picker';
+
+const buildOptions = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, i) => ({
+    value: String(i),
+    render: ({ value }) => value,
+    props: {},
+  }));
+
+const renderedValues = () => screen.getAllByRole('option').map((row) => row.textContent);
+
+describe('PickerColumn visible rows', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders every row that fits the height plus the overscan', () => {
+    render(
+      <PickerGroup value={{ v: '50' }} onChange={() => {}} itemHeight={40} height={360}>
+        <PickerColumn name="v" options={buildOptions(100)} />
+      </PickerGroup>
+    );
+
+    // 9 visible rows and 3 more past each edge
+    const values = renderedValues();
+    expect(values).toHaveLength(15);
+    expect(values[0]).toBe('43');
+    expect(values.at(-1)).toBe('57');
+  });
+
+  it('takes the overscan from the overscan prop', () => {
+    render(
+      <PickerGroup value={{ v: '50' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="v" options={buildOptions(100)} overscan={0} />
+      </PickerGroup>
+    );
+
+    expect(renderedValues()).toEqual(['48', '49', '50', '51', '52']);
+  });
+
+  it('fills a tall Picker to its edges', () => {
+    render(<Picker value={50} onChange={() => {}} min={0} max={100} visibleItems={15} />);
+
+    // Seven rows on each side of the selection are on screen
+    const values = renderedValues();
+    expect(values).toContain('43');
+    expect(values).toContain('57');
+  });
+
+  it('grows the window when the container is measured taller than its height', async () => {
+    let resize: ResizeObserverCallback | undefined;
+    let observed: Element | undefined;
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        constructor(callback: ResizeObserverCallback) {
+          resize = callback;
+        }
+        observe(element: Element) {
+          observed = element;
+        }
+        disconnect() {}
+      }
+    );
+
+    render(
+      <PickerGroup value={{ v: '50' }} onChange={() => {}} itemHeight={40} height={200}>
+        <PickerColumn name="v" options={buildOptions(100)} />
+      </PickerGroup>
+    );
+    expect(renderedValues()).toHaveLength(11);
+    await waitFor(() => expect(observed).toBeDefined());
+
+    act(() =>
+      resize?.(
+        [
+          {
+            target: observed,
+            borderBoxSize: [{ blockSize: 440, inlineSize: 120 }],
+            contentRect: { width: 120, height: 440 },
+          } as unknown as ResizeObserverEntry,
+        ],
+        {} as ResizeObserver
+      )
+    );
+
+    // 11 visible rows and 3 more past each edge
+    expect(renderedValues()).toHaveLength(17);
+  });
+});
@@ -0,0 +1,163 @@
+import { createRef, useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import type { MotionValue } from 'framer-motion';
+import PickerGroup, { type PickerOption } from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import type { PickerColumnHandle } from '../types/handle';
+
+// Settle springs finish immediately so scrolls commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+const EMPTY_PROPS = {};
+const render60 = (state: { value: string | number }) => <span>{state.value}</span>;
+const range = (count: number): PickerOption[] =>
+  Array.from({ length: count }, (_, index) => ({
+    value: String(index),
+    render: render60,
+    props: EMPTY_PROPS,
+  }));
+const HOURS = range(24);
+const SIXTY = range(60);
+
+type Duration = { hours: string; minutes: string; seconds: string };
+const DURATION_CARRY = { seconds: 'minutes', minutes: 'hours' };
+
+function DurationPicker({
+  initial,
+  onChange,
+  carry = DURATION_CARRY,
+  secondsRef,
+}: {
+  initial: Duration;
+  onChange: (value: Duration, key: string) => void;
+  carry?: Partial<Record<string, string>>;
+  secondsRef?: React.Ref<PickerColumnHandle>;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <PickerGroup
+      value={value}
+      onChange={(next, key) => {
+        setValue(next);
+        onChange(next, key);
+      }}
+      carry={carry}
+      itemHeight={40}
+      height={200}
+    >
+      <PickerColumn name="hours" aria-label="Hours" options={HOURS} />
+      <PickerColumn name="minutes" aria-label="Minutes" options={SIXTY} loop />
+      <PickerColumn ref={secondsRef} name="seconds" aria-label="Seconds" options={SIXTY} loop />
+    </PickerGroup>
+  );
+}
+
+describe('PickerGroup carry', () => {
+  it('steps the parent column when a looping child wraps forward', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <DurationPicker initial={{ hours: '0', minutes: '5', seconds: '59' }} onChange={onChange} />
+    );
+
+    screen.getByLabelText('Seconds').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({ hours: '0', minutes: '6', seconds: '0' }, 'seconds');
+  });
+
+  it('borrows from the parent when a child wraps backward', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <DurationPicker initial={{ hours: '1', minutes: '5', seconds: '0' }} onChange={onChange} />
+    );
+
+    screen.getByLabelText('Seconds').focus();
+    await user.keyboard('{ArrowUp}');
+
+    expect(onChange).toHaveBeenCalledWith({ hours: '1', minutes: '4', seconds: '59' }, 'seconds');
+  });
+
+  it('carries along the chain in a single atomic change', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <DurationPicker initial={{ hours: '1', minutes: '59', seconds: '59' }} onChange={onChange} />
+    );
+
+    screen.getByLabelText('Seconds').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({ hours: '2', minutes: '0', seconds: '0' }, 'seconds');
+  });
+
+  it('stops at the end of a bounded parent', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <DurationPicker initial={{ hours: '23', minutes: '59', seconds: '59' }} onChange={onChange} />
+    );
+
+    screen.getByLabelText('Seconds').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledWith({ hours: '23', minutes: '0', seconds: '0' }, 'seconds');
+  });
+
+  it('carries wraps made by the wheel physics', async () => {
+    const onChange = vi.fn();
+    const secondsRef = createRef<PickerColumnHandle>();
+    render(
+      <DurationPicker
+        initial={{ hours: '0', minutes: '5', seconds: '58' }}
+        onChange={onChange}
+        secondsRef={secondsRef}
+      />
+    );
+
+    await act(async () => {
+      secondsRef.current?.scrollByItems(3);
+    });
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      { hours: '0', minutes: '6', seconds: '1' },
+      'seconds'
+    );
+  });
+
+  it('leaves other columns alone without a carry link', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <DurationPicker
+        initial={{ hours: '0', minutes: '5', seconds: '59' }}
+        onChange={onChange}
+        carry={{}}
+      />
+    );
+
+    screen.getByLabelText('Seconds').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledWith({ hours: '0', minutes: '5', seconds: '0' }, 'seconds');
+  });
+});
@@ -5,6 +5,27 @@ import PickerGroup from '../PickerGroup';
 import PickerColumn from '../PickerColumn';
 import PickerItem from '../PickerItem';
 
+// Two columns for the reading-direction tests
+const renderColumns = (onChange: () => void, dir?: 'ltr' | 'rtl') =>
+  render(
+    <PickerGroup
+      value={{ a: '1', b: '2' }}
+      onChange={onChange}
+      itemHeight={40}
+      height={200}
+      dir={dir}
+    >
+      <PickerColumn name="a">
+        <PickerItem value="1">A1</PickerItem>
+        <PickerItem value="2">A2</PickerItem>
+      </PickerColumn>
+      <PickerColumn name="b">
+        <PickerItem value="1">B1</PickerItem>
+        <PickerItem value="2">B2</PickerItem>
+      </PickerColumn>
+    </PickerGroup>
+  );
+
 describe('PickerGroup keyboard navigation', () => {
   it('single column: left/right arrows increment/decrement value', async () => {
     const onChange = vi.fn();
@@ -146,4 +167,153 @@ describe('PickerGroup keyboard navigation', () => {
     expect(document.activeElement).toBe(lastColumn);
     expect(onChange).not.toHaveBeenCalled();
   });
+
+  it('horizontal: up/down arrows change column focus, left/right change value', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <PickerGroup
+        value={{ kg: '70', grams: '500' }}
+        onChange={onChange}
+        itemHeight={60}
+        height={300}
+        orientation="horizontal"
+      >
+        <PickerColumn name="kg">
+          <PickerItem value="69">69</PickerItem>
+          <PickerItem value="70">70</PickerItem>
+          <PickerItem value="71">71</PickerItem>
+        </PickerColumn>
+        <PickerColumn name="grams">
+          <PickerItem value="0">0</PickerItem>
+          <PickerItem value="500">500</PickerItem>
+        </PickerColumn>
+      </PickerGroup>
+    );
+
+    const kgColumn = screen
+      .getByRole('option', { name: '70' })
+      .closest('.picker-column') as HTMLElement;
+    const gramsColumn = screen
+      .getByRole('option', { name: '500' })
+      .closest('.picker-column') as HTMLElement;
+
+    kgColumn.focus();
+
+    await user.keyboard('{ArrowRight}');
+    expect(onChange).toHaveBeenCalledWith({ kg: '71', grams: '500' }, 'kg');
+
+    onChange.mockClear();
+
+    await user.keyboard('{ArrowDown}');
+    expect(document.activeElement).toBe(gramsColumn);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await user.keyboard('{ArrowLeft}');
+    expect(onChange).toHaveBeenCalledWith({ kg: '70', grams: '0' }, 'grams');
+  });
+});
+
+describe('PickerGroup keyboard navigation (RTL)', () => {
+  it('multi-column: left arrow moves to the next column, right arrow back', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    renderColumns(onChange, 'rtl');
+
+    const [firstColumn, lastColumn] = [0, 2].map(
+      (index) => screen.getAllByRole('option')[index].closest('.picker-column') as HTMLElement
+    );
+    firstColumn.focus();
+
+    await user.keyboard('{ArrowLeft}');
+    expect(document.activeElement).toBe(lastColumn);
+
+    await user.keyboard('{ArrowRight}');
+    expect(document.activeElement).toBe(firstColumn);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('picks up the direction of an RTL ancestor', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <div dir="rtl">
+        <PickerGroup value={{ col: '1' }} onChange={onChange} itemHeight={40} height={200}>
+          <PickerColumn name="col">
+            <PickerItem value="0">0</PickerItem>
+            <PickerItem value="1">1</PickerItem>
+            <PickerItem value="2">2</PickerItem>
+          </PickerColumn>
+        </PickerGroup>
+      </div>
+    );
+
+    const column = screen
+      .getByRole('option', { name: '1' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    // Left arrow steps forward when the page reads right to left
+    await user.keyboard('{ArrowLeft}');
+    expect(onChange).toHaveBeenCalledWith({ col: '2' }, 'col');
+  });
+
+  it('an explicit dir overrides the surrounding direction', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <div dir="rtl">
+        <PickerGroup
+          value={{ col: '1' }}
+          onChange={onChange}
+          itemHeight={40}
+          height={200}
+          dir="ltr"
+        >
+          <PickerColumn name="col">
+            <PickerItem value="0">0</PickerItem>
+            <PickerItem value="1">1</PickerItem>
+            <PickerItem value="2">2</PickerItem>
+          </PickerColumn>
+        </PickerGroup>
+      </div>
+    );
+
+    const column = screen
+      .getByRole('option', { name: '1' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+
+    await user.keyboard('{ArrowRight}');
+    expect(onChange).toHaveBeenCalledWith({ col: '2' }, 'col');
+  });
+
+  it('horizontal: left arrow moves to the next value', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <PickerGroup
+        value={{ kg: '70' }}
+        onChange={onChange}
+        itemHeight={60}
+        height={300}
+        orientation="horizontal"
+        dir="rtl"
+      >
+        <PickerColumn name="kg">
+          <PickerItem value="69">69</PickerItem>
+          <PickerItem value="70">70</PickerItem>
+          <PickerItem value="71">71</PickerItem>
+        </PickerColumn>
+      </PickerGroup>
+    );
+
+    const column = screen
+      .getByRole('option', { name: '70' })
+      .closest('.picker-column') as HTMLElement;
+    column.focus();
+    await user.keyboard('{ArrowLeft}');
+    expect(onChange).toHaveBeenCalledWith({ kg: '71' }, 'kg');
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import PickerGroup from '../PickerGroup';
+import PickerColumn from '../PickerColumn';
+import PickerItem from '../PickerItem';
+
+describe('PickerGroup resolveValue', () => {
+  it('reconciles dependent columns before onChange fires', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    // Only "small" comes in "red"
+    const resolveValue = vi.fn((value: { size: string; color: string }) =>
+      value.size === 'small' ? value : { ...value, color: 'blue' }
+    );
+
+    render(
+      <PickerGroup
+        value={{ size: 'small', color: 'red' }}
+        onChange={onChange}
+        resolveValue={resolveValue}
+        itemHeight={40}
+        height={200}
+      >
+        <PickerColumn name="size" aria-label="Size">
+          <PickerItem value="small">small</PickerItem>
+          <PickerItem value="large">large</PickerItem>
+        </PickerColumn>
+        <PickerColumn name="color" aria-label="Color">
+          <PickerItem value="red">red</PickerItem>
+          <PickerItem value="blue">blue</PickerItem>
+        </PickerColumn>
+      </PickerGroup>
+    );
+
+    screen.getByLabelText('Size').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(resolveValue).toHaveBeenCalledWith({ size: 'large', color: 'red' }, 'size');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({ size: 'large', color: 'blue' }, 'size');
+  });
+});
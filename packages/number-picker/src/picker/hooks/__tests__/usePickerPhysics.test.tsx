@@ -66,6 +66,7 @@ type Option = {
   value: string;
   render: (state: { selected: boolean; visuallySelected: boolean }) => React.ReactNode;
   props: Record<string, unknown>;
+  disabled?: boolean;
 };
 
 const makeOptions = (count: number): Option[] =>
@@ -213,7 +214,67 @@ describe('usePickerPhysics', () => {
     });
 
     // Dragging up (100 -> 80) moves picker down, selecting a higher index
-    expect(changeValue).toHaveBeenCalledWith('test', 'Option 4');
+    expect(changeValue).toHaveBeenCalledWith('test', 'Option 4', 0);
+  });
+
+  it('reads the X axis when the column is horizontal', async () => {
+    const changeValue = vi.fn();
+    const options = makeOptions(5);
+    const { result } = renderHook(() =>
+      usePickerPhysics({
+        ...baseConfig,
+        options,
+        selectedIndex: 2,
+        changeValue,
+        orientation: 'horizontal',
+      })
+    );
+
+    const columnNode = {
+      setPointerCapture: vi.fn(),
+      releasePointerCapture: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      getBoundingClientRect: () => ({
+        top: 0,
+        bottom: 40,
+        height: 40,
+        width: 200,
+        left: 0,
+        right: 200,
+        x: 0,
+        y: 0,
+        toJSON: () => {},
+      }),
+    } as unknown as HTMLDivElement;
+
+    act(() => {
+      result.current.columnRef.current = columnNode;
+    });
+
+    // Vertical jitter must be ignored; only clientX drives the scroller
+    const pointerEvent = (clientX: number, clientY: number) =>
+      ({
+        pointerId: 1,
+        pointerType: 'touch',
+        clientX,
+        clientY,
+        currentTarget: columnNode,
+        target: columnNode,
+      }) as unknown as React.PointerEvent<HTMLDivElement>;
+
+    await act(async () => {
+      result.current.handlePointerDown(pointerEvent(100, 20));
+      result.current.handlePointerMove(pointerEvent(80, 60));
+      result.current.handlePointerUp(pointerEvent(80, 60));
+    });
+
+    act(() => {
+      flushNextAnimation();
+    });
+
+    // Dragging left (100 -> 80) moves the strip left, selecting a higher index
+    expect(changeValue).toHaveBeenCalledWith('test', 'Option 4', 0);
   });
 
   it('commits queued pointer taps even when animations are interrupted', async () => {
@@ -284,6 +345,64 @@ describe('usePickerPhysics', () => {
     expect(changeValue).toHaveBeenCalledTimes(2);
   });
 
+  it('moves past a disabled option when a tap would land on it', async () => {
+    const changeValue = vi.fn();
+    const options = makeOptions(10);
+    options[5].disabled = true;
+    const { result } = renderHook(() =>
+      usePickerPhysics({
+        ...baseConfig,
+        options,
+        selectedIndex: 4,
+        changeValue,
+      })
+    );
+
+    const columnTarget = {
+      setPointerCapture: vi.fn(),
+      releasePointerCapture: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      getBoundingClientRect: () => ({
+        top: 0,
+        bottom: 200,
+        height: 200,
+        width: 100,
+        left: 0,
+        right: 100,
+        x: 0,
+        y: 0,
+        toJSON: () => {},
+      }),
+    } as unknown as HTMLDivElement;
+
+    act(() => {
+      result.current.columnRef.current = columnTarget;
+    });
+
+    const pointerEvent = (clientY: number) =>
+      ({
+        pointerId: 1,
+        pointerType: 'mouse',
+        clientY,
+        currentTarget: columnTarget,
+        target: columnTarget,
+      }) as unknown as React.PointerEvent<HTMLDivElement>;
+
+    // Tap one row below center: Option 6 is disabled, so the settle continues to Option 7
+    await act(async () => {
+      result.current.handlePointerDown(pointerEvent(140));
+      result.current.handlePointerUp(pointerEvent(140));
+    });
+
+    act(() => {
+      flushNextAnimation();
+    });
+
+    expect(changeValue).toHaveBeenCalledTimes(1);
+    expect(changeValue).toHaveBeenCalledWith('test', 'Option 7', 0);
+  });
+
   describe('Event-driven API (onGesture)', () => {
     it('emits drag:start event on pointer capture', async () => {
       const onGesture = vi.fn();
@@ -457,6 +576,143 @@ describe('usePickerPhysics', () => {
     });
   });
 
+  describe('animateExternalChanges', () => {
+    const options = makeOptions(10);
+    const renderWithSelection = (config: Partial<Parameters<typeof usePickerPhysics>[0]>) =>
+      renderHook(
+        ({ selectedIndex }: { selectedIndex: number }) =>
+          usePickerPhysics({
+            ...baseConfig,
+            options,
+            selectedIndex,
+            ...config,
+          }),
+        { initialProps: { selectedIndex: 2 } }
+      );
+
+    it('jumps to external changes by default', () => {
+      const { result, rerender } = renderWithSelection({});
+
+      rerender({ selectedIndex: 6 });
+
+      expect(animateMock).not.toHaveBeenCalled();
+      expect(result.current.ySnap.get()).toBe(80 - 6 * 40);
+    });
+
+    it('animates external changes without emitting feedback or committing', async () => {
+      const changeValue = vi.fn();
+      const onGesture = vi.fn();
+      const { result, rerender } = renderWithSelection({
+        animateExternalChanges: true,
+        changeValue,
+        onGesture,
+      });
+      onGesture.mockClear();
+
+      rerender({ selectedIndex: 6 });
+
+      expect(animateMock).toHaveBeenCalledTimes(1);
+      expect(pendingAnimations[0].to).toBe(80 - 6 * 40);
+      expect(pendingAnimations[0].config).toMatchObject({ type: 'spring', stiffness: 180 });
+      expect(result.current.ySnap.get()).toBe(0);
+
+      // Pass through intermediate rows on the way
+      await act(async () => {
+        pendingAnimations[0].motionValue.set(80 - 4 * 40);
+      });
+      await act(async () => {
+        flushNextAnimation();
+      });
+
+      expect(result.current.ySnap.get()).toBe(80 - 6 * 40);
+      expect(changeValue).not.toHaveBeenCalled();
+      expect(onGesture).not.toHaveBeenCalled();
+    });
+
+    it('uses a tween when a duration is configured', () => {
+      const { rerender } = renderWithSelection({
+        animateExternalChanges: { type: 'tween', duration: 0.4 },
+      });
+
+      rerender({ selectedIndex: 5 });
+
+      expect(pendingAnimations[0].config).toMatchObject({
+        type: 'tween',
+        duration: 0.4,
+        ease: 'easeOut',
+      });
+    });
+
+    it('finishes at the external target when momentum is interrupted programmatically', () => {
+      const changeValue = vi.fn();
+      const { result, rerender } = renderWithSelection({
+        animateExternalChanges: true,
+        changeValue,
+      });
+
+      rerender({ selectedIndex: 7 });
+      act(() => {
+        result.current.interruptMomentum();
+      });
+
+      expect(pendingAnimations).toHaveLength(0);
+      expect(result.current.ySnap.get()).toBe(80 - 7 * 40);
+      expect(changeValue).not.toHaveBeenCalled();
+    });
+
+    it('stops where it is when the user grabs the wheel mid-animation', async () => {
+      const changeValue = vi.fn();
+      const { result, rerender } = renderWithSelection({
+        animateExternalChanges: true,
+        changeValue,
+      });
+
+      rerender({ selectedIndex: 8 });
+      const externalAnimation = pendingAnimations[0];
+      await act(async () => {
+        externalAnimation.motionValue.set(80 - 5 * 40);
+      });
+
+      const columnNode = {
+        setPointerCapture: vi.fn(),
+        releasePointerCapture: vi.fn(),
+      } as unknown as HTMLDivElement;
+      act(() => {
+        result.current.handlePointerDown({
+          pointerId: 1,
+          pointerType: 'touch',
+          clientY: 100,
+          currentTarget: columnNode,
+          target: columnNode,
+        } as unknown as React.PointerEvent<HTMLDivElement>);
+      });
+
+      expect(externalAnimation.stopped).toBe(true);
+      expect(result.current.ySnap.get()).toBe(80 - 5 * 40);
+      expect(changeValue).not.toHaveBeenCalled();
+    });
+
+    it('animates a clamp when trailing rows are removed from a bounded list', () => {
+      const shorterOptions = options.slice(0, 7);
+      const { rerender } = renderHook(
+        ({ selectedIndex, count }: { selectedIndex: number; count: number }) =>
+          usePickerPhysics({
+            ...baseConfig,
+            options: count === 10 ? options : shorterOptions,
+            selectedIndex,
+            animateExternalChanges: true,
+          }),
+        { initialProps: { selectedIndex: 9, count: 10 } }
+      );
+
+      // Day 31 → 28 when the month becomes February
+      rerender({ selectedIndex: 6, count: 7 });
+
+      expect(animateMock).toHaveBeenCalledTimes(1);
+      expect(pendingAnimations[0].to).toBe(80 - 6 * 40);
+    });
+  });
+
   describe('Optimization Edge Cases', () => {
     it('should skip animation when already at target position (no-op optimization)', async () => {
       const changeValue = vi.fn();
@@ -2,6 +2,7 @@ import { renderHook } from '@testing-library/react';
 import { describe, expect, it } from 'vitest';
 
 import { useVirtualWindow } from '../useVirtualWindow';
+import { createRowLayout } from '../../utils/rowLayout';
 
 describe('useVirtualWindow', () => {
   const baseProps = {
@@ -49,4 +50,31 @@ describe('useVirtualWindow', () => {
     expect(result.current.startIndex).toBe(2);
     expect(result.current.virtualOffsetY).toBe(112);
   });
+
+  it('lets looping windows run past both ends of the option range', () => {
+    const { result, rerender } = renderHook((props) => useVirtualWindow(props), {
+      initialProps: { ...baseProps, centerIndex: 1, loop: true },
+    });
+
+    expect(result.current.startIndex).toBe(-3);
+    expect(result.current.windowLength).toBe(11);
+    expect(result.current.virtualOffsetY).toBe(-3 * baseProps.itemHeight);
+
+    rerender({ ...baseProps, optionCount: 4, centerIndex: 42, loop: true });
+
+    expect(result.current.startIndex).toBe(38);
+    expect(result.current.windowLength).toBe(11);
+  });
+
+  it('covers the overscan distance rather than a row count when rows differ in size', () => {
+    // Rows half the nominal height: twice as many fit in the same distance
+    const rowLayout = createRowLayout(baseProps.optionCount, () => 24, baseProps.itemHeight);
+    const { result } = renderHook(() =>
+      useVirtualWindow({ ...baseProps, centerIndex: 10, rowLayout })
+    );
+
+    expect(result.current.startIndex).toBe(1);
+    expect(result.current.windowLength).toBe(19);
+    expect(result.current.virtualOffsetY).toBe(24);
+  });
 });
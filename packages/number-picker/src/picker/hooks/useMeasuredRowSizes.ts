@@ -0,0 +1,75 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import type { PickerOrientation } from '../types/orientation';
+import { scrollAxisSize } from '../utils/resizeEntry';
+
+const NO_SIZES: ReadonlyMap<number, number> = new Map();
+
+type MeasureRow = ((element: HTMLElement | null) => (() => void) | undefined) | undefined;
+
+interface MeasuredSizes {
+  /** The ref callback that measured `sizes` */
+  owner: MeasureRow;
+  sizes: ReadonlyMap<number, number>;
+}
+
+const NOT_MEASURED: MeasuredSizes = { owner: undefined, sizes: NO_SIZES };
+
+/**
+ * Ref callback that observes each row it is attached to. The observer is created with the first
+ * row and lets go of rows as they unmount; sizes it reports are tagged with the callback.
+ */
+function createRowMeasurer(
+  isHorizontal: boolean,
+  setMeasured: Dispatch<SetStateAction<MeasuredSizes>>
+): MeasureRow {
+  let observer: ResizeObserver | null = null;
+  const measure = (element: HTMLElement | null) => {
+    if (!element) return undefined;
+    observer ??= new ResizeObserver((entries) => {
+      setMeasured((previous) => {
+        const current = previous.owner === measure ? previous.sizes : NO_SIZES;
+        let next: Map<number, number> | null = null;
+        for (const entry of entries) {
+          const index = Number((entry.target as HTMLElement).dataset.optionIndex);
+          const size = scrollAxisSize(entry, isHorizontal);
+          // Detached or hidden rows report 0; keep what they measured while on screen
+          if (!Number.isInteger(index) || !(size > 0) || current.get(index) === size) {
+            continue;
+          }
+          next ??= new Map(current);
+          next.set(index, size);
+        }
+        return next ? { owner: measure, sizes: next } : previous;
+      });
+    });
+    const rowObserver = observer;
+    rowObserver.observe(element);
+    return () => rowObserver.unobserve(element);
+  };
+  return measure;
+}
+
+/**
+ * Measures rendered rows with a ResizeObserver, keyed by the `data-option-index` attribute the
+ * column puts on each row. Rows that were never rendered have no entry; the column falls back
+ * to its nominal row size for them.
+ * @param {boolean} enabled - Only `itemHeight="auto"` columns measure
+ * @param {PickerOrientation} orientation - Vertical columns measure height, horizontal ones width
+ * @returns {{ sizes: ReadonlyMap<number, number>, measureRow: ((element: HTMLElement | null) => (() => void) | undefined) | undefined }}
+ *   Measured sizes by option index, and the ref callback to attach to every row
+ */
+export function useMeasuredRowSizes(enabled: boolean, orientation: PickerOrientation) {
+  const [measured, setMeasured] = useState<MeasuredSizes>(NOT_MEASURED);
+  const isHorizontal = orientation === 'horizontal';
+  const measureRow = useMemo(
+    () =>
+      enabled && typeof ResizeObserver !== 'undefined'
+        ? createRowMeasurer(isHorizontal, setMeasured)
+        : undefined,
+    [enabled, isHorizontal]
+  );
+
+  // A new callback (orientation change, re-enabled) starts over from the nominal sizes
+  const sizes = measureRow && measured.owner === measureRow ? measured.sizes : NO_SIZES;
+  return { sizes, measureRow };
+}
@@ -1,13 +1,19 @@
-import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import {
   animate,
   useMotionValue,
   useMotionValueEvent,
   type AnimationPlaybackControls,
   type MotionValue,
+  type ValueAnimationTransition,
 } from 'framer-motion';
-import type { PickerOption } from '../PickerGroup';
+import type { PickerOptionList } from '../PickerGroup';
 import type { SnapPhysicsConfig } from '../types/snapPhysics';
+import type { PickerColumnVariant } from '../types/variant';
+import type { PickerOrientation } from '../types/orientation';
+import type { PickerDirection } from '../types/direction';
+import type { PickerScrollOptions } from '../types/handle';
+import type { AnimateExternalChanges } from '../types/externalChanges';
 import {
   DEFAULT_SNAP_PHYSICS,
   OPENING_DRAG_THRESHOLD_PIXELS,
@@ -23,7 +29,19 @@ import {
 import { useSnapPhysics } from './useSnapPhysics';
 import { useVirtualWindow } from './useVirtualWindow';
 import { useSnappedIndexStore } from '../useSnappedIndexStore';
-import { clamp, clampIndex, indexFromY, yFromIndex } from '../utils/math';
+import {
+  clamp,
+  clampIndex,
+  indexFromY,
+  nearestLoopIndex,
+  wrapIndex,
+  yFromIndex,
+} from '../utils/math';
+import { cylinderOffsetToRows } from '../utils/cylinder';
+import { rowForTranslate, translateForRow, type RowLayout } from '../utils/rowLayout';
+import { nearestEnabledIndex } from '../utils/enabledOptions';
+import { modifierStepRows } from '../utils/precision';
+import { COARSE_STEP_MULTIPLIER } from '../../config/ui';
 import { animationDebugger, debugSnapLog, debugPickerLog } from '../../utils/debug';
 import {
   animateMomentumWithFriction,
@@ -45,19 +63,49 @@ const clampWheelSensitivity = (value: number) => (Number.isFinite(value) && valu
 
 const clampWheelDeltaCap = (value: number) => (Number.isFinite(value) && value > 0 ? value : 1.25);
 
+const SETTLE_SPRING = { stiffness: 180, damping: 25, restDelta: 0.5, restSpeed: 10 };
+
+const resolveExternalChangeTransition = (
+  setting: AnimateExternalChanges | undefined
+): ValueAnimationTransition<number> | null => {
+  if (!setting) return null;
+  if (setting === true) return { type: 'spring', ...SETTLE_SPRING };
+  if (setting.type === 'tween') {
+    return { type: 'tween', duration: setting.duration, ease: setting.ease ?? 'easeOut' };
+  }
+  return { ...SETTLE_SPRING, ...setting, type: 'spring' };
+};
+
 export interface PickerColumnInteractionsConfig {
   key: string;
-  options: PickerOption[];
+  options: PickerOptionList;
   selectedIndex: number;
   itemHeight: number;
+  /** Per-row sizes; rows are `itemHeight` apart when omitted (`itemHeight` stays the nominal size) */
+  rowLayout?: RowLayout | null;
   height: number;
   isPickerOpen: boolean;
   wheelSensitivity: number;
   wheelDeltaCap: number;
-  changeValue: (key: string, value: string | number) => boolean;
+  /** `carry` is the number of laps a looping column crossed its seam (+1 for 59 → 00) */
+  changeValue: (key: string, value: string | number, carry?: number) => boolean;
   /** Event-driven gesture handler */
   onGesture?: PickerGestureHandler;
   snapConfig?: SnapPhysicsConfig;
+  /** Wrap around at both ends instead of stopping at the first/last option */
+  loop?: boolean;
+  /** Rendering mode; cylinder columns map tap offsets through the drum projection */
+  variant?: PickerColumnVariant;
+  /** Scroll axis; `height`/`itemHeight` are measured along it (width/item width when horizontal) */
+  orientation?: PickerOrientation;
+  /** Reading direction; RTL horizontal columns run from right to left */
+  layoutDirection?: PickerDirection;
+  /** Ignore pointer and wheel input (disabled or read-only columns) */
+  locked?: boolean;
+  /** Scroll to externally changed `selectedIndex` values instead of jumping (no feedback events) */
+  animateExternalChanges?: AnimateExternalChanges;
+  /** Wheel steps cover this many times the distance while Shift is held (Alt: one row at most) */
+  coarseMultiplier?: number;
   virtualization: {
     slotCount: number;
     overscan: number;
@@ -80,6 +128,14 @@ export interface PickerColumnInteractionsResult {
   handleClick: (event: React.MouseEvent<HTMLDivElement>) => void;
   handleDoubleClick: (event: React.MouseEvent<HTMLDivElement>) => void;
   interruptMomentum: () => void;
+  /** Scroll to an option index (short way round when looping) */
+  scrollToIndex: (index: number, options?: PickerScrollOptions) => void;
+  /** Scroll relative to the current (or in-flight target) row */
+  scrollByItems: (count: number, options?: PickerScrollOptions) => void;
+  /** Spring to an option index as a keyboard gesture (typeahead), emitting drag and commit events */
+  keyboardJumpToIndex: (index: number) => void;
+  /** Option index currently under the highlight */
+  getVisualIndex: () => number;
 }
 
 /**
@@ -95,6 +151,7 @@ export function usePickerPhysics({
   options,
   selectedIndex,
   itemHeight,
+  rowLayout = null,
   height,
   isPickerOpen,
   wheelSensitivity,
@@ -102,10 +159,24 @@ export function usePickerPhysics({
   changeValue,
   onGesture,
   snapConfig,
+  loop = false,
+  variant = 'flat',
+  orientation = 'vertical',
+  layoutDirection = 'ltr',
+  locked = false,
+  animateExternalChanges,
+  coarseMultiplier = COARSE_STEP_MULTIPLIER,
   virtualization,
 }: PickerColumnInteractionsConfig): PickerColumnInteractionsResult {
   // Create gesture emitter for event-driven API
   const emitter = useMemo(() => createGestureEmitter(onGesture), [onGesture]);
+  // Visual changes follow the wheel only: a new onGesture (the parent re-rendering for a value
+  // committed elsewhere) must not replay the row under a wheel that hasn't caught up yet
+  const visualEmitterRef = useRef(emitter);
+  // Layout effects run before the visual-change effect below, which reads the ref
+  useLayoutEffect(() => {
+    visualEmitterRef.current = emitter;
+  }, [emitter]);
 
   // Create velocity tracker for pointer/wheel gestures
   const velocityTracker = useMemo(
@@ -143,10 +214,35 @@ export function usePickerPhysics({
   const wheelSnapPhysics = useSnapPhysics(wheelSnapConfig);
 
   const lastIndex = Math.max(0, options.length - 1);
-  const maxTranslate = useMemo(() => height / 2 - itemHeight / 2, [height, itemHeight]);
+  const maxTranslate = useMemo(
+    () => (rowLayout ? translateForRow(rowLayout, 0, height) : height / 2 - itemHeight / 2),
+    [height, itemHeight, rowLayout]
+  );
   const minTranslate = useMemo(
-    () => height / 2 - itemHeight * options.length + itemHeight / 2,
-    [height, itemHeight, options.length]
+    () =>
+      rowLayout
+        ? translateForRow(rowLayout, lastIndex, height)
+        : height / 2 - itemHeight * options.length + itemHeight / 2,
+    [height, itemHeight, lastIndex, options.length, rowLayout]
+  );
+
+  // Looping columns track an unbounded "virtual" index; options are looked up modulo their count
+  const isLooping = loop && options.length > 0;
+
+  // Row under the center for a translate, before clamping: variable rows go through the layout's
+  // prefix sums, uniform rows are a division
+  const virtualIndexForTranslate = useCallback(
+    (translate: number) =>
+      rowLayout
+        ? rowForTranslate(rowLayout, translate, height)
+        : indexFromY(translate, itemHeight, maxTranslate),
+    [height, itemHeight, maxTranslate, rowLayout]
+  );
+
+  // Size of the row a snap or tap is working against
+  const rowSizeFor = useCallback(
+    (index: number) => (rowLayout ? rowLayout.sizeOf(index) : itemHeight),
+    [itemHeight, rowLayout]
   );
 
   const boundaryConstraints = useMemo<BoundaryConstraints>(
@@ -155,8 +251,61 @@ export function usePickerPhysics({
       maxTranslate,
       itemHeight,
       lastIndex,
+      loop: isLooping,
+      rowForTranslate: rowLayout ? virtualIndexForTranslate : undefined,
     }),
-    [itemHeight, lastIndex, maxTranslate, minTranslate]
+    [
+      isLooping,
+      itemHeight,
+      lastIndex,
+      maxTranslate,
+      minTranslate,
+      rowLayout,
+      virtualIndexForTranslate,
+    ]
+  );
+
+  const translateForIndex = useCallback(
+    (index: number) => {
+      if (rowLayout) {
+        return translateForRow(rowLayout, isLooping ? index : clampIndex(index, lastIndex), height);
+      }
+      return isLooping
+        ? maxTranslate - index * itemHeight
+        : yFromIndex(index, itemHeight, maxTranslate, lastIndex);
+    },
+    [height, isLooping, itemHeight, lastIndex, maxTranslate, rowLayout]
+  );
+
+  const indexForTranslate = useCallback(
+    (translate: number) => {
+      const index = virtualIndexForTranslate(translate);
+      return isLooping ? index : clampIndex(index, lastIndex);
+    },
+    [isLooping, lastIndex, virtualIndexForTranslate]
+  );
+
+  // Disabled options stay in the list (no scroll shift) but are never settled on
+  const enabledIndexFor = useCallback(
+    (index: number, direction = 0) =>
+      nearestEnabledIndex(options, index, { loop: isLooping, direction }),
+    [isLooping, options]
+  );
+
+  const isHorizontal = orientation === 'horizontal';
+  // RTL horizontal columns are mirrored, so X is measured from the right
+  const axisSign = isHorizontal && layoutDirection === 'rtl' ? -1 : 1;
+
+  // Pointer position along the scroll axis; everything downstream is axis-agnostic
+  const pointerAxis = useCallback(
+    (event: { clientX: number; clientY: number }) =>
+      isHorizontal ? axisSign * event.clientX : event.clientY,
+    [axisSign, isHorizontal]
+  );
+
+  const optionIndexFor = useCallback(
+    (index: number) => (isLooping ? wrapIndex(index, options.length) : index),
+    [isLooping, options.length]
   );
 
   const yRaw = useMotionValue(0);
@@ -175,13 +324,6 @@ export function usePickerPhysics({
     }
   });
 
-  useEffect(() => {
-    const initialIndex = clampIndex(selectedIndex, lastIndex);
-    const initialTranslate = yFromIndex(initialIndex, itemHeight, maxTranslate, lastIndex);
-    yRaw.set(initialTranslate);
-    ySnap.set(Math.round(initialTranslate));
-  }, [itemHeight, lastIndex, maxTranslate, selectedIndex, yRaw, ySnap]);
-
   const columnRef = useRef<HTMLDivElement | null>(null);
   const isMovingRef = useRef(false);
   const startPointerYRef = useRef(0);
@@ -197,12 +339,117 @@ export function usePickerPhysics({
   const activeAnimationIdRef = useRef<symbol | null>(null);
   const activeTargetIndexRef = useRef<number | null>(null);
   const lastIsPickerOpenRef = useRef(isPickerOpen);
+  // Target translate while the wheel follows an external value change (already committed)
+  const externalTargetRef = useRef<number | null>(null);
+  const syncedGeometryRef = useRef<string | null>(null);
+  const syncedSelectedIndexRef = useRef<number | null>(null);
+  // Virtual index the wheel last rested on; commits compare laps against it to report carries
+  const restingIndexRef = useRef(0);
+  const externalChangeTransitionRef = useRef(
+    resolveExternalChangeTransition(animateExternalChanges)
+  );
+  useLayoutEffect(() => {
+    externalChangeTransitionRef.current = resolveExternalChangeTransition(animateExternalChanges);
+  }, [animateExternalChanges]);
+
+  // Grabbing the wheel stops an external-change animation where it is (no jump, no commit)
+  const releaseExternalAnimation = useCallback(() => {
+    if (externalTargetRef.current === null) {
+      return;
+    }
+    externalTargetRef.current = null;
+    activeAnimationRef.current?.stop();
+    activeAnimationRef.current = null;
+    activeAnimationIdRef.current = null;
+  }, []);
 
   useEffect(() => {
-    lastVisualValueRef.current = options[selectedIndex]?.value ?? null;
+    const gestureInFlight =
+      isMovingRef.current ||
+      activeFrictionMomentumRef.current !== null ||
+      (activeAnimationRef.current !== null && externalTargetRef.current === null);
+
+    // Rows re-measured under a moving wheel shift by a few pixels; let the gesture finish
+    // instead of pulling the wheel back to the committed row
+    const selectionUnchanged = syncedSelectedIndexRef.current === selectedIndex;
+    syncedSelectedIndexRef.current = selectedIndex;
+    if (rowLayout && gestureInFlight && selectionUnchanged) {
+      return;
+    }
+
+    // Looping: stay on the current lap so a wrapped commit (59 → 00) doesn't rewind the list
+    const initialIndex = isLooping
+      ? nearestLoopIndex(virtualIndexForTranslate(yRaw.get()), selectedIndex, options.length)
+      : clampIndex(selectedIndex, lastIndex);
+    const initialTranslate = translateForIndex(initialIndex);
+    restingIndexRef.current = initialIndex;
+
+    // Only animate value changes from outside: not the first sync, layout changes, or while a
+    // gesture (or its own momentum/settle) is driving the wheel
+    const transition = externalChangeTransitionRef.current;
+    // Rows added/removed at the end of a bounded list (e.g. a day column going 31 → 28) keep
+    // every remaining row in place, so they don't count as a layout change
+    const geometry = `${itemHeight}:${maxTranslate}:${isLooping ? options.length : 'bounded'}:${rowLayout?.totalSize ?? ''}`;
+    const geometryUnchanged = syncedGeometryRef.current === geometry;
+    syncedGeometryRef.current = geometry;
+
+    releaseExternalAnimation();
+
+    if (
+      transition &&
+      geometryUnchanged &&
+      !gestureInFlight &&
+      Math.abs(yRaw.get() - initialTranslate) >= 1
+    ) {
+      const animationId = Symbol('picker-external');
+      activeAnimationIdRef.current = animationId;
+      externalTargetRef.current = initialTranslate;
+
+      const controls = animate(yRaw, initialTranslate, {
+        ...transition,
+        onComplete: () => {
+          if (activeAnimationIdRef.current !== animationId) {
+            return;
+          }
+          activeAnimationRef.current = null;
+          activeAnimationIdRef.current = null;
+          externalTargetRef.current = null;
+          yRaw.set(initialTranslate);
+        },
+      });
+      activeAnimationRef.current = controls;
+      return;
+    }
+
+    yRaw.set(initialTranslate);
+    ySnap.set(Math.round(initialTranslate));
+  }, [
+    isLooping,
+    itemHeight,
+    lastIndex,
+    maxTranslate,
+    options.length,
+    releaseExternalAnimation,
+    rowLayout,
+    selectedIndex,
+    translateForIndex,
+    virtualIndexForTranslate,
+    yRaw,
+    ySnap,
+  ]);
+
+  useEffect(() => {
+    lastVisualValueRef.current = options.at(selectedIndex)?.value ?? null;
   }, [options, selectedIndex]);
 
-  const centerIndex = useSnappedIndexStore(ySnap, itemHeight, maxTranslate, lastIndex);
+  const centerIndex = useSnappedIndexStore(
+    ySnap,
+    itemHeight,
+    maxTranslate,
+    lastIndex,
+    isLooping,
+    rowLayout ? virtualIndexForTranslate : undefined
+  );
 
   useEffect(() => {
     const wasClosed = !lastIsPickerOpenRef.current && isPickerOpen;
@@ -218,12 +465,18 @@ export function usePickerPhysics({
   }, [isPickerOpen, yRaw]);
 
   useEffect(() => {
-    const candidate = options[centerIndex]?.value;
+    // Rows passed while following an external value change are not user feedback; the last
+    // visual value stays on the (already committed) target so arriving there is silent too
+    if (externalTargetRef.current !== null) {
+      return;
+    }
+    const centerOptionIndex = optionIndexFor(centerIndex);
+    const candidate = options.at(centerOptionIndex)?.value;
     if (candidate !== undefined && candidate !== lastVisualValueRef.current) {
       lastVisualValueRef.current = candidate;
-      emitter.visualChange(candidate, centerIndex);
+      visualEmitterRef.current.visualChange(candidate, centerOptionIndex);
     }
-  }, [centerIndex, emitter, options]);
+  }, [centerIndex, optionIndexFor, options]);
 
   const { startIndex, windowLength, virtualOffsetY } = useVirtualWindow({
     centerIndex,
@@ -231,6 +484,8 @@ export function usePickerPhysics({
     optionCount: options.length,
     slotCount: virtualization.slotCount,
     overscan: virtualization.overscan,
+    loop: isLooping,
+    rowLayout,
   });
 
   const applyOverscrollDamping = useCallback(
@@ -257,11 +512,11 @@ export function usePickerPhysics({
 
       if (didOverscroll && !boundaryHitFiredRef.current) {
         if (nextTranslate < minTranslate) {
-          const value = options[lastIndex]?.value;
+          const value = options.at(lastIndex)?.value;
           emitter.boundaryHit('max', value);
           boundaryHitFiredRef.current = true;
         } else if (nextTranslate > maxTranslate) {
-          const value = options[0]?.value;
+          const value = options.at(0)?.value;
           emitter.boundaryHit('min', value);
           boundaryHitFiredRef.current = true;
         }
@@ -279,26 +534,40 @@ export function usePickerPhysics({
 
   const commitValueAtIndex = useCallback(
     (targetIndex: number) => {
-      const option = options[targetIndex];
+      const optionIndex = optionIndexFor(targetIndex);
+      const option = options.at(optionIndex);
       if (option) {
-        changeValue(key, option.value);
-        emitter.valueCommit(option.value, targetIndex);
+        const carry = isLooping
+          ? Math.floor(targetIndex / options.length) -
+            Math.floor(restingIndexRef.current / options.length)
+          : 0;
+        restingIndexRef.current = targetIndex;
+        changeValue(key, option.value, carry);
+        emitter.valueCommit(option.value, optionIndex);
       }
     },
-    [changeValue, emitter, key, options]
+    [changeValue, emitter, isLooping, key, optionIndexFor, options]
   );
 
   const finishAnimationInstantly = useCallback(() => {
+    const externalTarget = externalTargetRef.current;
+    if (externalTarget !== null) {
+      // The external value is already committed; only the wheel has to catch up
+      externalTargetRef.current = null;
+      yRaw.set(externalTarget);
+      return;
+    }
+
     const targetIndex = activeTargetIndexRef.current;
     if (targetIndex == null) {
       return;
     }
 
-    const targetTranslate = yFromIndex(targetIndex, itemHeight, maxTranslate, lastIndex);
+    const targetTranslate = translateForIndex(targetIndex);
     yRaw.set(targetTranslate);
     commitValueAtIndex(targetIndex);
     activeTargetIndexRef.current = null;
-  }, [commitValueAtIndex, itemHeight, lastIndex, maxTranslate, yRaw]);
+  }, [commitValueAtIndex, translateForIndex, yRaw]);
 
   const stopActiveAnimation = useCallback(() => {
     // Stop friction momentum animation if running
@@ -350,9 +619,14 @@ export function usePickerPhysics({
         onComplete?.();
         return;
       }
-      const clampedIndex = clampIndex(index, lastIndex);
-      const target = yFromIndex(clampedIndex, itemHeight, maxTranslate, lastIndex);
+      const requestedIndex = isLooping ? index : clampIndex(index, lastIndex);
       const currentY = yRaw.get();
+      // Landing on a disabled option moves on to the nearest enabled one, favouring travel direction
+      const clampedIndex = enabledIndexFor(
+        requestedIndex,
+        Math.sign(requestedIndex - virtualIndexForTranslate(currentY))
+      );
+      const target = translateForIndex(clampedIndex);
 
       // Optimization: Skip animation if already at target position (prevents no-op animations)
       const distance = Math.abs(currentY - target);
@@ -379,10 +653,7 @@ export function usePickerPhysics({
 
       const controls = animate(yRaw, target, {
         type: 'spring',
-        stiffness: 180,
-        damping: 25,
-        restDelta: 0.5,
-        restSpeed: 10,
+        ...SETTLE_SPRING,
         ...settleOptions?.spring,
         onComplete: () => {
           // Guard: If this animation was stopped, activeAnimationIdRef will be null/different
@@ -409,9 +680,10 @@ export function usePickerPhysics({
             yRaw.set(target); // Only snap if we committed (no race with new animation)
 
             // Emit settle event (direct settle without momentum)
-            const settledValue = options[clampedIndex]?.value;
+            const settledIndex = optionIndexFor(clampedIndex);
+            const settledValue = options.at(settledIndex)?.value;
             if (settledValue !== undefined) {
-              emitter.settle(settledValue, clampedIndex, Boolean(settleOptions?.momentum));
+              emitter.settle(settledValue, settledIndex, Boolean(settleOptions?.momentum));
             }
 
             onComplete?.();
@@ -425,15 +697,100 @@ export function usePickerPhysics({
     [
       commitValueAtIndex,
       emitter,
-      itemHeight,
+      enabledIndexFor,
+      isLooping,
       lastIndex,
-      maxTranslate,
+      optionIndexFor,
       options,
       stopActiveAnimation,
+      translateForIndex,
+      virtualIndexForTranslate,
       yRaw,
     ]
   );
 
+  // Programmatic scrolling (imperative handles); `index` is virtual when looping
+  const scrollToVirtualIndex = useCallback(
+    (index: number, animated: boolean) => {
+      if (options.length === 0) {
+        return;
+      }
+      if (animated) {
+        settleToIndex(index);
+        return;
+      }
+      stopActiveAnimation();
+      const requestedIndex = isLooping ? index : clampIndex(index, lastIndex);
+      const targetIndex = enabledIndexFor(
+        requestedIndex,
+        Math.sign(requestedIndex - indexForTranslate(yRaw.get()))
+      );
+      yRaw.set(translateForIndex(targetIndex));
+      commitValueAtIndex(targetIndex);
+    },
+    [
+      commitValueAtIndex,
+      enabledIndexFor,
+      indexForTranslate,
+      isLooping,
+      lastIndex,
+      options.length,
+      settleToIndex,
+      stopActiveAnimation,
+      translateForIndex,
+      yRaw,
+    ]
+  );
+
+  const scrollToIndex = useCallback(
+    (index: number, { animated = true }: PickerScrollOptions = {}) => {
+      const currentIndex = indexForTranslate(yRaw.get());
+      const target = isLooping ? nearestLoopIndex(currentIndex, index, options.length) : index;
+      scrollToVirtualIndex(target, animated);
+    },
+    [indexForTranslate, isLooping, options.length, scrollToVirtualIndex, yRaw]
+  );
+
+  // Keyboard jumps (typeahead) spring through the settle path like a short gesture, so
+  // consumers see a keyboard-sourced drag:start, the value:commit, and a closing drag:end
+  const keyboardJumpToIndex = useCallback(
+    (index: number) => {
+      if (options.length === 0) {
+        return;
+      }
+      const currentIndex = indexForTranslate(yRaw.get());
+      const target = isLooping ? nearestLoopIndex(currentIndex, index, options.length) : index;
+      releaseExternalAnimation();
+      emitter.dragStart('keyboard');
+      settleToIndex(target, () => {
+        emitter.dragEnd(true, 0);
+      });
+    },
+    [
+      emitter,
+      indexForTranslate,
+      isLooping,
+      options.length,
+      releaseExternalAnimation,
+      settleToIndex,
+      yRaw,
+    ]
+  );
+
+  const scrollByItems = useCallback(
+    (count: number, { animated = true }: PickerScrollOptions = {}) => {
+      // Chain from an in-flight target so rapid calls accumulate instead of restarting
+      const baseIndex = activeTargetIndexRef.current ?? indexForTranslate(yRaw.get());
+      scrollToVirtualIndex(baseIndex + count, animated);
+    },
+    [indexForTranslate, scrollToVirtualIndex, yRaw]
+  );
+
+  const getVisualIndex = useCallback(
+    () => optionIndexFor(indexForTranslate(yRaw.get())),
+    [indexForTranslate, optionIndexFor, yRaw]
+  );
+
   const settleToResolvedIndex = useCallback(
     (position: number, onComplete?: () => void, options?: { momentum?: boolean }) => {
       const targetIndex = resolveBoundaryIndex(position);
@@ -492,7 +849,7 @@ export function usePickerPhysics({
         maxTranslate,
       });
 
-      const isOutOfBounds = currentY < minTranslate || currentY > maxTranslate;
+      const isOutOfBounds = !isLooping && (currentY < minTranslate || currentY > maxTranslate);
       if (isOutOfBounds) {
         const boundaryType = currentY < minTranslate ? 'min' : 'max';
         settleBoundary(boundaryType, currentY, {
@@ -536,8 +893,10 @@ export function usePickerPhysics({
       const boundaryVelocityCap = itemHeight * BOUNDARY_FLICK_VELOCITY_CAP_MULTIPLIER;
       const distanceToMin = Math.abs(currentY - minTranslate);
       const distanceToMax = Math.abs(currentY - maxTranslate);
-      const nearMinBoundary = currentY < minTranslate || distanceToMin < itemHeight * 2;
-      const nearMaxBoundary = currentY > maxTranslate || distanceToMax < itemHeight * 2;
+      const nearMinBoundary =
+        !isLooping && (currentY < minTranslate || distanceToMin < itemHeight * 2);
+      const nearMaxBoundary =
+        !isLooping && (currentY > maxTranslate || distanceToMax < itemHeight * 2);
       const pushingTowardMin = velocity < 0;
       const pushingTowardMax = velocity > 0;
 
@@ -568,10 +927,10 @@ export function usePickerPhysics({
       const controls = animateMomentumWithFriction({
         control: yRaw,
         initialVelocity: boundaryClampedVelocity,
-        bounds: {
-          min: minTranslate,
-          max: maxTranslate,
-        },
+        // Looping columns never hit an edge, so momentum runs until friction settles it
+        bounds: isLooping
+          ? { min: Number.NEGATIVE_INFINITY, max: Number.POSITIVE_INFINITY }
+          : { min: minTranslate, max: maxTranslate },
         onBoundaryHit: (boundaryType, rawPosition) => {
           const boundaryState = settleBoundary(boundaryType, rawPosition, {
             // Drop flick momentum once overscroll occurs so rebound distance stays bounded
@@ -597,15 +956,16 @@ export function usePickerPhysics({
         },
         snapFunction: (position) => {
           // Calculate which item index this position corresponds to
-          const index = clampIndex(indexFromY(position, itemHeight, maxTranslate), lastIndex);
+          // (skipping disabled options; positive velocity scrolls towards lower indices)
+          const index = enabledIndexFor(indexForTranslate(position), -Math.sign(velocity));
           // Return the exact Y position for that index
-          return yFromIndex(index, itemHeight, maxTranslate, lastIndex);
+          return translateForIndex(index);
         },
         config: MOMENTUM_PHYSICS,
         onComplete: () => {
           // Calculate final index from yRaw position
           const finalY = yRaw.get();
-          const finalIndex = resolveBoundaryIndex(finalY);
+          const finalIndex = enabledIndexFor(resolveBoundaryIndex(finalY), -Math.sign(velocity));
 
           debugPickerLog('FRICTION MOMENTUM COMPLETE', {
             finalY: finalY.toFixed(1),
@@ -618,9 +978,10 @@ export function usePickerPhysics({
           activeFrictionMomentumRef.current = null;
 
           // Emit settle event (momentum settle after flicking)
-          const settledValue = options[finalIndex]?.value;
+          const settledIndex = optionIndexFor(finalIndex);
+          const settledValue = options.at(settledIndex)?.value;
           if (settledValue !== undefined) {
-            emitter.settle(settledValue, finalIndex, true);
+            emitter.settle(settledValue, settledIndex, true);
           }
 
           onComplete?.();
@@ -637,21 +998,25 @@ export function usePickerPhysics({
       activeFrictionMomentumRef.current = controls;
 
       // Track target for debugging (will be set when snap phase starts)
-      const estimatedIndex = clampIndex(indexFromY(currentY, itemHeight, maxTranslate), lastIndex);
+      const estimatedIndex = indexForTranslate(currentY);
       activeTargetIndexRef.current = estimatedIndex;
     },
     [
       commitValueAtIndex,
       emitter,
+      enabledIndexFor,
+      indexForTranslate,
+      isLooping,
       itemHeight,
-      lastIndex,
       maxTranslate,
       minTranslate,
+      optionIndexFor,
       options,
       resolveBoundaryIndex,
       settleBoundary,
       settleToResolvedIndex,
       stopActiveAnimation,
+      translateForIndex,
       yRaw,
     ]
   );
@@ -661,6 +1026,10 @@ export function usePickerPhysics({
 
     const handlePointerDown = useCallback(
     (event: React.PointerEvent<HTMLDivElement>) => {
+      if (locked) {
+        return;
+      }
+
       const element = event.currentTarget as HTMLElement;
       element.setPointerCapture?.(event.pointerId);
 
@@ -690,9 +1059,10 @@ export function usePickerPhysics({
         event.pointerType === 'touch'
           ? event.pointerType
           : '';
+      releaseExternalAnimation();
       stopActiveAnimation();
       isMovingRef.current = true;
-      startPointerYRef.current = event.clientY;
+      startPointerYRef.current = pointerAxis(event);
       startTranslateRef.current = yRaw.get();
       resetBoundaryHit();
       wasOpenOnPointerDownRef.current = isPickerOpen;
@@ -702,12 +1072,15 @@ export function usePickerPhysics({
 
       // Reset velocity tracker for new gesture
       velocityTracker.reset();
-      velocityTracker.addSample(event.clientY);
+      velocityTracker.addSample(pointerAxis(event));
       emitter.dragStart('pointer');
     },
       [
         emitter,
         isPickerOpen,
+        locked,
+        pointerAxis,
+        releaseExternalAnimation,
         resetBoundaryHit,
         snapPhysics,
         stopActiveAnimation,
@@ -727,9 +1100,9 @@ export function usePickerPhysics({
       }
 
       // Track velocity
-      velocityTracker.addSample(event.clientY);
+      velocityTracker.addSample(pointerAxis(event));
 
-      const deltaY = event.clientY - startPointerYRef.current;
+      const deltaY = pointerAxis(event) - startPointerYRef.current;
       const contentDelta = deltaY;
       if (!openingDragThresholdPassedRef.current) {
         if (Math.abs(deltaY) < OPENING_DRAG_THRESHOLD_PIXELS) {
@@ -740,17 +1113,17 @@ export function usePickerPhysics({
       }
 
       const rawTranslate = startTranslateRef.current + contentDelta;
-      const nearestIndex = indexFromY(rawTranslate, itemHeight, maxTranslate);
-      const snapTargetTranslate = yFromIndex(nearestIndex, itemHeight, maxTranslate, lastIndex);
+      const nearestIndex = virtualIndexForTranslate(rawTranslate);
+      const snapTargetTranslate = translateForIndex(nearestIndex);
 
       let nextTranslate = rawTranslate;
       const deltaToTarget = rawTranslate - snapTargetTranslate;
       if (snapEnabled) {
-        const totalPixelsMoved = Math.abs(event.clientY - startPointerYRef.current);
+        const totalPixelsMoved = Math.abs(deltaY);
         const snapResult = snapPhysics.calculate(
           { deltaY: deltaToTarget, velocityY: velocityTracker.getVelocity(), totalPixelsMoved },
           0,
-          itemHeight
+          rowSizeFor(nearestIndex)
         );
         nextTranslate = snapResult.mappedTranslate + snapTargetTranslate;
       } else {
@@ -760,18 +1133,24 @@ export function usePickerPhysics({
       updateScrollerWhileMoving(nextTranslate);
     },
     [
-      itemHeight,
-      lastIndex,
-      maxTranslate,
+      pointerAxis,
+      rowSizeFor,
       snapEnabled,
       snapPhysics,
+      translateForIndex,
       updateScrollerWhileMoving,
       velocityTracker,
+      virtualIndexForTranslate,
     ]
   );
 
   const handlePointerUp = useCallback(
     (event: React.PointerEvent<HTMLDivElement>) => {
+      // Locked columns never start a gesture, so there is nothing to release or settle
+      if (locked && !isMovingRef.current) {
+        return;
+      }
+
       debugPickerLog('POINTER UP', {
         pointerId: event.pointerId,
         isMovingBefore: isMovingRef.current,
@@ -820,10 +1199,7 @@ export function usePickerPhysics({
         return;
       }
 
-      const currentIndex = clampIndex(
-        indexFromY(currentTranslate, itemHeight, maxTranslate),
-        lastIndex
-      );
+      const currentIndex = indexForTranslate(currentTranslate);
 
       if (
         !hasMoved &&
@@ -833,17 +1209,26 @@ export function usePickerPhysics({
         columnRef.current
       ) {
         const rect = columnRef.current.getBoundingClientRect();
-        const centerY = rect.top + rect.height / 2;
-        const relativeOffset = event.clientY - centerY;
+        const center = isHorizontal
+          ? axisSign * (rect.left + rect.width / 2)
+          : rect.top + rect.height / 2;
+        const relativeOffset = pointerAxis(event) - center;
         const thresholdRatio =
           pointerType === 'touch' ? TOUCH_TAP_THRESHOLD_RATIO : CLICK_STEP_THRESHOLD_RATIO;
         const threshold = itemHeight * thresholdRatio;
         if (Math.abs(relativeOffset) > threshold) {
-          const rawSteps = relativeOffset / itemHeight;
+          // Variable rows: step to the row under the pointer
+          const rawSteps =
+            variant === 'cylinder'
+              ? cylinderOffsetToRows(relativeOffset, itemHeight)
+              : rowLayout
+                ? virtualIndexForTranslate(currentTranslate - relativeOffset) - currentIndex
+                : relativeOffset / itemHeight;
           const direction = rawSteps > 0 ? 1 : -1;
           const magnitude =
             pointerType === 'touch' ? 1 : Math.max(1, Math.round(Math.abs(rawSteps)));
-          const targetIndex = clampIndex(currentIndex + direction * magnitude, lastIndex);
+          const steppedIndex = currentIndex + direction * magnitude;
+          const targetIndex = isLooping ? steppedIndex : clampIndex(steppedIndex, lastIndex);
 
           if (targetIndex !== currentIndex) {
             // Get velocity before emitting event
@@ -890,16 +1275,24 @@ export function usePickerPhysics({
       settleFromY(currentTranslate, velocityForSettle, () => finalize(hasMoved));
     },
     [
+      axisSign,
       columnRef,
       emitter,
+      indexForTranslate,
+      isHorizontal,
+      isLooping,
       isPickerOpen,
       itemHeight,
       lastIndex,
-      maxTranslate,
+      locked,
+      pointerAxis,
+      rowLayout,
       settleFromY,
       settleToIndex,
       snapPhysics,
+      variant,
       velocityTracker,
+      virtualIndexForTranslate,
       yRaw,
     ]
   );
@@ -927,7 +1320,14 @@ export function usePickerPhysics({
 
   const handleWheeling = useCallback(
     (event: WheelEvent) => {
-      let delta = event.deltaY;
+      // Horizontal columns follow sideways trackpad swipes, falling back to a plain mouse wheel.
+      // Browsers turn Shift+wheel into a sideways scroll, so vertical columns read it back.
+      let delta =
+        isHorizontal && Math.abs(event.deltaX) > Math.abs(event.deltaY)
+          ? axisSign * event.deltaX
+          : event.shiftKey && event.deltaY === 0
+            ? event.deltaX
+            : event.deltaY;
 
       if (event.deltaMode === DOM_DELTA_MODE.LINE) {
         delta *= itemHeight;
@@ -946,7 +1346,11 @@ export function usePickerPhysics({
       }
       // LINE mode (mouse wheel) uses delta as-is after sensitivity scaling
 
-      const maxDelta = itemHeight * normalizedWheelDeltaCap;
+      // Shift covers `coarseMultiplier` times the distance; Alt moves one row per event at most
+      const precisionRows = modifierStepRows(event, coarseMultiplier);
+      delta *= precisionRows;
+
+      const maxDelta = itemHeight * (event.altKey ? 1 : normalizedWheelDeltaCap * precisionRows);
       const accumulated = wheelRemainderRef.current + delta;
       const boundedDelta = clamp(accumulated, -maxDelta, maxDelta);
       const wasCapped = Math.abs(accumulated) > Math.abs(boundedDelta);
@@ -954,7 +1358,7 @@ export function usePickerPhysics({
       if (wasCapped && Math.abs(accumulated - boundedDelta) / Math.abs(boundedDelta) > 0.2) {
         wheelWasCappedRef.current = true;
       }
-      wheelRemainderRef.current = accumulated - boundedDelta;
+      wheelRemainderRef.current = event.altKey ? 0 : accumulated - boundedDelta;
 
       const currentTranslate = yRaw.get();
       // Subtract delta because coordinate system: higher index = lower translateY
@@ -962,8 +1366,8 @@ export function usePickerPhysics({
       const rawTranslate = currentTranslate - boundedDelta;
 
       // Apply strong snap physics for satisfying magnetic "thunk" feel (like phone touch)
-      const nearestIndex = indexFromY(rawTranslate, itemHeight, maxTranslate);
-      const snapTargetTranslate = yFromIndex(nearestIndex, itemHeight, maxTranslate, lastIndex);
+      const nearestIndex = virtualIndexForTranslate(rawTranslate);
+      const snapTargetTranslate = translateForIndex(nearestIndex);
       const deltaToTarget = rawTranslate - snapTargetTranslate;
 
       let nextTranslate = rawTranslate;
@@ -973,7 +1377,7 @@ export function usePickerPhysics({
         const snapResult = wheelSnapPhysics.calculate(
           { deltaY: deltaToTarget, velocityY: velocityTracker.getVelocity(), totalPixelsMoved },
           0,
-          itemHeight
+          rowSizeFor(nearestIndex)
         );
         nextTranslate = snapResult.mappedTranslate + snapTargetTranslate;
       }
@@ -984,16 +1388,20 @@ export function usePickerPhysics({
       updateScrollerWhileMoving(nextTranslate);
     },
     [
+      axisSign,
+      coarseMultiplier,
       height,
+        isHorizontal,
         itemHeight,
-        lastIndex,
-        maxTranslate,
         normalizedWheelDeltaCap,
         normalizedWheelSensitivity,
         resetBoundaryHit,
+        rowSizeFor,
         snapEnabled,
+        translateForIndex,
         updateScrollerWhileMoving,
         velocityTracker,
+        virtualIndexForTranslate,
         wheelSnapPhysics,
         yRaw,
       ]
@@ -1001,7 +1409,7 @@ export function usePickerPhysics({
 
   const handleWheel = useCallback(
     (event: WheelEvent) => {
-      if (event.ctrlKey) {
+      if (event.ctrlKey || locked) {
         return;
       }
       event.preventDefault();
@@ -1009,6 +1417,7 @@ export function usePickerPhysics({
       if (wheelStartTranslateRef.current === null) {
         // Interrupt any active momentum animation before wheel scrolling starts
         // This ensures wheel behaves like keyboard arrow keys (immediate interruption)
+        releaseExternalAnimation();
         stopActiveAnimation();
 
         wheelStartTranslateRef.current = yRaw.get();
@@ -1056,6 +1465,8 @@ export function usePickerPhysics({
       [
         emitter,
         handleWheeling,
+        locked,
+        releaseExternalAnimation,
         resetBoundaryHit,
         settleFromY,
         snapPhysics,
@@ -1150,5 +1561,9 @@ export function usePickerPhysics({
     handleDoubleClick,
     // Exposed for external interruption (e.g., keyboard navigation, wheel events)
     interruptMomentum: stopActiveAnimation,
+    scrollToIndex,
+    scrollByItems,
+    keyboardJumpToIndex,
+    getVisualIndex,
   };
 }
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, type KeyboardEvent } from 'react';
+
+/** Idle time after which the typed buffer starts over (matches native `<select>` behaviour) */
+export const TYPEAHEAD_RESET_MS = 1000;
+
+/**
+ * Collects printable keystrokes into a buffer that resets after `TYPEAHEAD_RESET_MS` of
+ * inactivity.
+ * @param {(buffer: string) => boolean} onSearch - Called with the whole buffer after every
+ *   accepted key; return true when the key was used so its default action is prevented
+ * @returns {(event: KeyboardEvent) => boolean} Key handler; true when the key was consumed
+ */
+export function useTypeahead(onSearch: (buffer: string) => boolean) {
+  const bufferRef = useRef('');
+  const resetTimerRef = useRef<number | null>(null);
+
+  useEffect(
+    () => () => {
+      if (resetTimerRef.current !== null) {
+        window.clearTimeout(resetTimerRef.current);
+      }
+    },
+    []
+  );
+
+  return useCallback(
+    (event: KeyboardEvent) => {
+      const isPrintable =
+        event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+      // A leading space is left alone (it may toggle something); inside a buffer it's text
+      if (!isPrintable || (event.key === ' ' && bufferRef.current === '')) {
+        return false;
+      }
+
+      if (resetTimerRef.current !== null) {
+        window.clearTimeout(resetTimerRef.current);
+      }
+      resetTimerRef.current = window.setTimeout(() => {
+        bufferRef.current = '';
+        resetTimerRef.current = null;
+      }, TYPEAHEAD_RESET_MS);
+
+      bufferRef.current += event.key;
+      const handled = onSearch(bufferRef.current);
+      if (handled) {
+        event.preventDefault();
+      }
+      return handled;
+    },
+    [onSearch]
+  );
+}
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { clamp } from '../utils/math';
+import type { RowLayout } from '../utils/rowLayout';
 
 interface UseVirtualWindowArgs {
   centerIndex: number;
@@ -7,6 +8,13 @@ interface UseVirtualWindowArgs {
   optionCount: number;
   slotCount: number;
   overscan: number;
+  /** Looping columns render a full window of wrapped rows around any (virtual) center index */
+  loop?: boolean;
+  /**
+   * Variable row sizes: the window covers the same distance around the center row as
+   * `overscan` rows of `itemHeight`, however many rows that takes
+   */
+  rowLayout?: RowLayout | null;
 }
 
 /**
@@ -20,8 +28,26 @@ export function useVirtualWindow({
   optionCount,
   slotCount,
   overscan,
+  loop = false,
+  rowLayout = null,
 }: UseVirtualWindowArgs) {
   const { startIndex, windowLength } = useMemo(() => {
+    if (rowLayout && optionCount > 0) {
+      const center = rowLayout.offsetOf(centerIndex) + rowLayout.sizeOf(centerIndex) / 2;
+      const reach = (overscan + 0.5) * itemHeight;
+      let first = rowLayout.indexAt(center - reach);
+      let last = rowLayout.indexAt(center + reach);
+      if (!loop) {
+        first = clamp(first, 0, optionCount - 1);
+        last = clamp(last, 0, optionCount - 1);
+      }
+      return { startIndex: first, windowLength: last - first + 1 };
+    }
+
+    if (loop && optionCount > 0) {
+      return { startIndex: centerIndex - overscan, windowLength: slotCount };
+    }
+
     const available = Math.max(0, optionCount - slotCount);
     const nextStart = clamp(centerIndex - overscan, 0, available);
 
@@ -29,9 +55,12 @@ export function useVirtualWindow({
       startIndex: nextStart,
       windowLength: Math.min(slotCount, optionCount),
     };
-  }, [centerIndex, optionCount, overscan, slotCount]);
+  }, [centerIndex, itemHeight, loop, optionCount, overscan, rowLayout, slotCount]);
 
-  const virtualOffsetY = useMemo(() => startIndex * itemHeight, [itemHeight, startIndex]);
+  const virtualOffsetY = useMemo(
+    () => (rowLayout ? rowLayout.offsetOf(startIndex) : startIndex * itemHeight),
+    [itemHeight, rowLayout, startIndex]
+  );
 
   return { startIndex, windowLength, virtualOffsetY };
 }
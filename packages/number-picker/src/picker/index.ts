@@ -8,4 +8,5 @@ export default PickerGroup;
 export { PickerGroup, PickerColumn, PickerItem };
 export * from './types';
 export { usePickerConfig } from './context';
-export { usePickerData, type PickerOption } from './PickerGroup';
+export { usePickerData, type PickerOption, type PickerOptionList } from './PickerGroup';
+export { createRangeSource } from '../utils/pickerOptions';
@@ -0,0 +1,6 @@
+/**
+ * Reading direction of a picker.
+ * - `ltr`: columns run left to right and ArrowRight moves forward (default)
+ * - `rtl`: columns, horizontal items, and ArrowLeft/ArrowRight mirror (Arabic, Hebrew)
+ */
+export type PickerDirection = 'ltr' | 'rtl';
@@ -0,0 +1,13 @@
+/**
+ * Transition used when the controlled value changes from outside the picker.
+ * - `spring` (default): same spring as a gesture settle; any field can be overridden
+ * - `tween`: fixed-duration ease, `duration` in seconds
+ */
+export type ExternalChangeTransition =
+  | { type?: 'spring'; stiffness?: number; damping?: number; mass?: number }
+  | { type: 'tween'; duration: number; ease?: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' };
+
+/**
+ * `animateExternalChanges` setting: `true` for the default settle spring, or a transition.
+ */
+export type AnimateExternalChanges = boolean | ExternalChangeTransition;
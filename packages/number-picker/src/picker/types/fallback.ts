@@ -0,0 +1,10 @@
+/**
+ * Native control fallback for pickers.
+ *
+ * - `native`: always render a native `<select>` / `<input type="number">` instead of the wheel
+ * - `auto`: render native controls under forced colors or on touch-only devices, and in server
+ *   markup until hydration; the wheel everywhere else
+ *
+ * Omitted: always the wheel.
+ */
+export type PickerFallback = 'native' | 'auto';
@@ -0,0 +1,26 @@
+/**
+ * Options for programmatic scrolling through an imperative handle.
+ */
+export interface PickerScrollOptions {
+  /** Spring to the target like a keyboard step (default) or jump there instantly */
+  animated?: boolean;
+}
+
+/**
+ * Imperative handle exposed by `PickerColumn` (via `ref`).
+ *
+ * Values are the column's own option values. Scrolling commits through the same path as
+ * gestures, so `onChange` fires once the column settles.
+ */
+export interface PickerColumnHandle {
+  /** Scroll to the option with `value`; unknown values are ignored */
+  scrollToValue(value: string | number, options?: PickerScrollOptions): void;
+  /** Scroll `count` rows forward (positive) or back (negative) from the current position */
+  scrollByItems(count: number, options?: PickerScrollOptions): void;
+  /** Stop any momentum or settle animation, committing the row it was heading for */
+  stopMomentum(): void;
+  /** Move keyboard focus to the column */
+  focus(): void;
+  /** Value of the row currently under the highlight, including mid-gesture */
+  getVisualValue(): string | number | undefined;
+}
@@ -1 +1,10 @@
 export * from './snapPhysics';
+export * from './variant';
+export * from './orientation';
+export * from './direction';
+export * from './handle';
+export * from './externalChanges';
+export * from './rangeSource';
+export * from './fallback';
+export * from './steppers';
+export * from './validation';
@@ -0,0 +1,6 @@
+/**
+ * Scroll axis of a picker column.
+ * - `vertical`: rows stack top-to-bottom and scroll along Y (default)
+ * - `horizontal`: items sit side by side and scroll along X (rulers, carousels)
+ */
+export type PickerOrientation = 'vertical' | 'horizontal';
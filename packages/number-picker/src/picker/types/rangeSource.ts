@@ -0,0 +1,17 @@
+/**
+ * Lazy numeric rows for a column, queried by index instead of materialized as an option array.
+ * Memory and render cost depend only on the rows on screen, so 0–100000 in 0.01 steps is as
+ * cheap as 0–10. Create one with `createRangeSource`, or implement it for any ordered sequence.
+ */
+export interface PickerRangeSource {
+  /** Number of rows (ascending by value); `Infinity` for a range without an upper end */
+  readonly count: number;
+  /** Value of the row at `index` (0-based) */
+  valueAt(index: number): number;
+  /** Row index of `value`, or -1 when it isn't on the range */
+  indexOf(value: string | number): number;
+  /** Display text of the row at `index` */
+  labelAt(index: number): string;
+  /** Rows that are shown but can't be selected (all are enabled when omitted) */
+  isDisabled?(index: number): boolean;
+}
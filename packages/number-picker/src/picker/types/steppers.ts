@@ -0,0 +1,15 @@
+/**
+ * Stepper buttons beside a picker.
+ *
+ * - `inline`: increment/decrement stacked at the end of the field
+ * - `flanking`: decrement before the field, increment after it
+ *
+ * Omitted: no buttons.
+ */
+export type PickerSteppers = 'inline' | 'flanking';
+
+/** Accessible names of the stepper buttons, replacing the English `Increase …`/`Decrease …` */
+export interface PickerStepperLabels {
+  increase?: string;
+  decrease?: string;
+}
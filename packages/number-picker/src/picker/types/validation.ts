@@ -0,0 +1,14 @@
+/**
+ * Messages a picker's form field reports when its value fails validation. Each one defaults to
+ * an English message; `required` uses the browser's own.
+ */
+export interface PickerValidationMessages {
+  /** Range value outside `[min, max]` */
+  outOfRange?: (min: number, max: number) => string;
+  /** Range value below `min` when there is no upper end */
+  belowMin?: (min: number) => string;
+  /** Range value off the `step` grid */
+  offStep?: (step: number, min: number) => string;
+  /** Option value that doesn't name an enabled option */
+  unknownOption?: string;
+}
@@ -0,0 +1,6 @@
+/**
+ * Column rendering mode.
+ * - `flat`: rows scroll as a flat list behind the gradient overlays (default)
+ * - `cylinder`: rows are projected onto a 3D drum like the native iOS wheel
+ */
+export type PickerColumnVariant = 'flat' | 'cylinder';
@@ -2,6 +2,18 @@ import { useEffect, useRef, useSyncExternalStore } from 'react';
 import type { MotionValue } from 'framer-motion';
 import { clampIndex, indexFromY } from './utils/math';
 
+const resolveIndex = (
+  y: number,
+  rowHeight: number,
+  maxTranslate: number,
+  lastIndex: number,
+  loop: boolean,
+  rowForY?: (y: number) => number
+) => {
+  const index = rowForY ? rowForY(y) : indexFromY(y, rowHeight, maxTranslate);
+  return loop ? index : clampIndex(index, lastIndex);
+};
+
 /**
  * Server-side snapshot always returns 0 (initial index)
  */
@@ -13,28 +25,34 @@ const getServerSnapshot = () => 0;
  * @param {number} rowHeight
  * @param {number} maxTranslate
  * @param {number} lastIndex
+ * @param {boolean} [loop=false] - Report the unclamped virtual index (looping columns)
+ * @param {(y: number) => number} [rowForY] - Row lookup for variable row sizes (replaces `rowHeight` math)
  * @returns {number}
  */
 export function useSnappedIndexStore(
   ySnap: MotionValue<number>,
   rowHeight: number,
   maxTranslate: number,
-  lastIndex: number
+  lastIndex: number,
+  loop: boolean = false,
+  rowForY?: (y: number) => number
 ) {
   // ✅ FIX: Initialize with actual current index from MotionValue
   // Without this, indexRef starts at 0 even if ySnap is already at the correct position
-  const indexRef = useRef(clampIndex(indexFromY(ySnap.get(), rowHeight, maxTranslate), lastIndex));
+  const indexRef = useRef(
+    resolveIndex(ySnap.get(), rowHeight, maxTranslate, lastIndex, loop, rowForY)
+  );
   const subscribersRef = useRef(new Set<() => void>());
 
   // ✅ FIX: Sync indexRef when dependencies change (on mount and when picker config updates)
   useEffect(() => {
     const currentY = ySnap.get();
-    const correctIndex = clampIndex(indexFromY(currentY, rowHeight, maxTranslate), lastIndex);
+    const correctIndex = resolveIndex(currentY, rowHeight, maxTranslate, lastIndex, loop, rowForY);
     if (correctIndex !== indexRef.current) {
       indexRef.current = correctIndex;
       subscribersRef.current.forEach((notify) => notify());
     }
-  }, [ySnap, rowHeight, maxTranslate, lastIndex]);
+  }, [ySnap, rowHeight, maxTranslate, lastIndex, loop, rowForY]);
 
   useEffect(() => {
     if (typeof ySnap.on !== 'function') {
@@ -42,7 +60,7 @@ export function useSnappedIndexStore(
     }
 
     const unsubscribe = ySnap.on('change', (value) => {
-      const nextIndex = clampIndex(indexFromY(value, rowHeight, maxTranslate), lastIndex);
+      const nextIndex = resolveIndex(value, rowHeight, maxTranslate, lastIndex, loop, rowForY);
       if (nextIndex !== indexRef.current) {
         indexRef.current = nextIndex;
         subscribersRef.current.forEach((notify) => notify());
@@ -52,7 +70,7 @@ export function useSnappedIndexStore(
     return () => {
       unsubscribe?.();
     };
-  }, [ySnap, rowHeight, maxTranslate, lastIndex]);
+  }, [ySnap, rowHeight, maxTranslate, lastIndex, loop, rowForY]);
 
   const subscribe = (listener: () => void) => {
     subscribersRef.current.add(listener);
@@ -10,6 +10,10 @@ export interface BoundaryConstraints {
   maxTranslate: number;
   itemHeight: number;
   lastIndex: number;
+  /** Looping columns have no edges: no overscroll and no index clamping */
+  loop?: boolean;
+  /** Row under the center for a translate when rows differ in size (replaces `itemHeight` math) */
+  rowForTranslate?: (position: number) => number;
 }
 
 export const MOMENTUM_OVERSHOOT_CAP = 20;
@@ -18,7 +22,8 @@ const getMaxOverscrollDistance = (itemHeight: number) =>
   Math.min(MAX_OVERSCROLL_PIXELS, itemHeight * MAX_OVERSCROLL_RATIO);
 
 export function applyOverscrollDamping(position: number, constraints: BoundaryConstraints): number {
-  const { minTranslate, maxTranslate, itemHeight } = constraints;
+  const { minTranslate, maxTranslate, itemHeight, loop } = constraints;
+  if (loop) return position;
   const maxOverscroll = getMaxOverscrollDistance(itemHeight);
 
   if (position < minTranslate) {
@@ -39,12 +44,15 @@ export function applyOverscrollDamping(position: number, constraints: BoundaryCo
 }
 
 export function resolveBoundaryIndex(position: number, constraints: BoundaryConstraints): number {
-  const { minTranslate, maxTranslate, itemHeight, lastIndex } = constraints;
+  const { minTranslate, maxTranslate, itemHeight, lastIndex, loop, rowForTranslate } = constraints;
+  const rowAt = (translate: number) =>
+    rowForTranslate ? rowForTranslate(translate) : indexFromY(translate, itemHeight, maxTranslate);
 
+  if (loop) return rowAt(position);
   if (position < minTranslate) return lastIndex;
   if (position > maxTranslate) return 0;
 
-  const index = indexFromY(position, itemHeight, maxTranslate);
+  const index = rowAt(position);
   return clampIndex(index, lastIndex);
 }
 
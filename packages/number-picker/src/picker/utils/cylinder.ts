@@ -0,0 +1,70 @@
+import type { PickerOrientation } from '../types/orientation';
+import type { PickerDirection } from '../types/direction';
+
+/**
+ * Geometry for the `variant="cylinder"` drum rendering.
+ *
+ * Rows are laid out flat by the scroller; each row is then projected onto a drum
+ * whose circumference advances `CYLINDER_ROW_ANGLE` degrees per row. The projection
+ * only depends on the row's signed distance from the center (in rows), so it can be
+ * driven straight from the `ySnap` MotionValue without React renders.
+ */
+
+/** Rotation between neighbouring rows (degrees). 18° puts the drum edge 5 rows from center. */
+export const CYLINDER_ROW_ANGLE = 18;
+
+const ROW_ANGLE_RAD = (CYLINDER_ROW_ANGLE * Math.PI) / 180;
+
+/**
+ * Radius of the drum for a given row height (arc length between rows = itemHeight).
+ * @param {number} itemHeight
+ * @returns {number}
+ */
+export const cylinderRadius = (itemHeight: number) => itemHeight / ROW_ANGLE_RAD;
+
+/**
+ * CSS transform that moves a flat row onto the drum surface.
+ * @param {number} offsetRows - Signed distance from center in rows (negative = above)
+ * @param {number} itemHeight
+ * @param {PickerOrientation} [orientation='vertical'] - Horizontal drums turn around the Y axis
+ * @param {PickerDirection} [direction='ltr'] - RTL horizontal drums run from right to left
+ * @returns {string}
+ */
+export const cylinderRowTransform = (
+  offsetRows: number,
+  itemHeight: number,
+  orientation: PickerOrientation = 'vertical',
+  direction: PickerDirection = 'ltr'
+) => {
+  const radius = cylinderRadius(itemHeight);
+  const angle = offsetRows * ROW_ANGLE_RAD;
+  const projected = radius * Math.sin(angle) - offsetRows * itemHeight;
+  const depth = radius * Math.cos(angle) - radius;
+  const rotation = offsetRows * CYLINDER_ROW_ANGLE;
+  if (orientation === 'horizontal') {
+    const sign = direction === 'rtl' ? -1 : 1;
+    return `translateX(${sign * projected}px) translateZ(${depth}px) rotateY(${sign * rotation}deg)`;
+  }
+  return `translateY(${projected}px) translateZ(${depth}px) rotateX(${-rotation}deg)`;
+};
+
+/**
+ * Opacity for a row on the drum: fades towards the edge, hidden past it.
+ * @param {number} offsetRows
+ * @returns {number}
+ */
+export const cylinderRowOpacity = (offsetRows: number) =>
+  Math.max(0, Math.cos(offsetRows * ROW_ANGLE_RAD));
+
+/**
+ * Converts a pointer offset from the column center (px) into rows on the drum.
+ * Inverse of the projection, so taps land on the row that is visually under the pointer.
+ * @param {number} offsetPx
+ * @param {number} itemHeight
+ * @returns {number}
+ */
+export const cylinderOffsetToRows = (offsetPx: number, itemHeight: number) => {
+  const radius = cylinderRadius(itemHeight);
+  const ratio = Math.max(-1, Math.min(1, offsetPx / radius));
+  return Math.asin(ratio) / ROW_ANGLE_RAD;
+};
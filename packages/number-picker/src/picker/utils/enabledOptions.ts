@@ -0,0 +1,79 @@
+import { clamp, wrapIndex } from './math';
+
+type MaybeDisabled = { disabled?: boolean };
+/** Arrays and lazy option lists both qualify */
+type OptionsAt = { readonly length: number; at(index: number): MaybeDisabled | undefined };
+
+/**
+ * Finds the enabled option closest to `index`, checking `direction` first on ties.
+ * Looping columns search across the wrap; others stay within [0, count - 1].
+ * Returns `index` unchanged when it is already enabled or every option is disabled.
+ * @param {OptionsAt} options
+ * @param {number} index - Virtual index when looping, option index otherwise
+ * @param {{ loop?: boolean, direction?: number }} [config]
+ * @returns {number}
+ */
+export const nearestEnabledIndex = (
+  options: OptionsAt,
+  index: number,
+  { loop = false, direction = 0 }: { loop?: boolean; direction?: number } = {}
+) => {
+  const count = options.length;
+  const isEnabled = (candidate: number) => {
+    if (!loop && (candidate < 0 || candidate >= count)) return false;
+    return !options.at(wrapIndex(candidate, count))?.disabled;
+  };
+
+  if (count === 0 || isEnabled(index)) return index;
+
+  const preferred = direction < 0 ? -1 : 1;
+  for (let distance = 1; distance <= count; distance += 1) {
+    if (isEnabled(index + preferred * distance)) return index + preferred * distance;
+    if (isEnabled(index - preferred * distance)) return index - preferred * distance;
+  }
+  return index;
+};
+
+/**
+ * Moves `delta` options away from `fromIndex`, continuing past disabled options in the
+ * direction of travel. Non-looping columns fall back to the closest enabled option short
+ * of the target, or stay put when there is none.
+ * @param {OptionsAt} options
+ * @param {number} fromIndex
+ * @param {number} delta
+ * @param {boolean} loop
+ * @returns {number}
+ */
+export const stepToEnabledIndex = (
+  options: OptionsAt,
+  fromIndex: number,
+  delta: number,
+  loop: boolean
+) => {
+  const count = options.length;
+  if (count === 0 || delta === 0) return fromIndex;
+
+  const direction = delta > 0 ? 1 : -1;
+  const isEnabled = (candidate: number) => !options.at(candidate)?.disabled;
+
+  if (loop) {
+    for (let step = 0; step < count; step += 1) {
+      const candidate = wrapIndex(fromIndex + delta + direction * step, count);
+      if (isEnabled(candidate)) return candidate;
+    }
+    return fromIndex;
+  }
+
+  const target = clamp(fromIndex + delta, 0, count - 1);
+  for (let candidate = target; candidate >= 0 && candidate < count; candidate += direction) {
+    if (isEnabled(candidate)) return candidate;
+  }
+  for (
+    let candidate = target - direction;
+    candidate !== fromIndex && candidate >= 0 && candidate < count;
+    candidate -= direction
+  ) {
+    if (isEnabled(candidate)) return candidate;
+  }
+  return fromIndex;
+};
@@ -41,3 +41,29 @@ export const yFromIndex = (
   maxTranslate: number,
   lastIndex: number
 ) => maxTranslate - clampIndex(index, lastIndex) * rowHeight;
+
+/**
+ * Maps an unbounded (virtual) index onto the option array, wrapping in both directions.
+ * Used by looping columns where the scroller position is never clamped.
+ * @param {number} index
+ * @param {number} count
+ * @returns {number}
+ */
+export const wrapIndex = (index: number, count: number) =>
+  count > 0 ? ((index % count) + count) % count : 0;
+
+/**
+ * Finds the virtual index closest to `fromIndex` that wraps onto `targetIndex`.
+ * Lets looping columns move to a new option through the shortest path (59 → 00 steps forward).
+ * @param {number} fromIndex - Current virtual index
+ * @param {number} targetIndex - Option index in [0, count)
+ * @param {number} count
+ * @returns {number}
+ */
+export const nearestLoopIndex = (fromIndex: number, targetIndex: number, count: number) => {
+  if (count <= 0) return 0;
+  let delta = wrapIndex(targetIndex, count) - wrapIndex(fromIndex, count);
+  if (delta > count / 2) delta -= count;
+  if (delta < -count / 2) delta += count;
+  return fromIndex + delta;
+};
@@ -0,0 +1,8 @@
+/**
+ * Element id of a column's row, for `aria-activedescendant` references from inside the column
+ * or from a control that owns it (e.g. CollapsiblePicker's spinbutton).
+ * @param {string} columnId - Id of the column element
+ * @param {number} index - Row index (looping columns count past the end of the options)
+ * @returns {string}
+ */
+export const pickerOptionId = (columnId: string, index: number) => `${columnId}-option-${index}`;
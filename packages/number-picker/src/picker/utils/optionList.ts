@@ -0,0 +1,31 @@
+import type { PickerOption, PickerOptionList } from '../PickerGroup';
+import type { PickerRangeSource } from '../types/rangeSource';
+
+// Shared by every generated row, like the option arrays built by Picker and CollapsiblePicker
+const EMPTY_PROPS = {};
+
+/**
+ * Wraps a range source as an option list. Options are created when asked for, so only the
+ * rendered rows (plus the few indices physics looks up) ever exist.
+ * @param {PickerRangeSource} source
+ * @param {number} length - Rows exposed; unbounded sources pass how far they have grown
+ * @param {PickerOption['render']} render - Shared row renderer
+ * @returns {PickerOptionList}
+ */
+export const createSourceOptionList = (
+  source: PickerRangeSource,
+  length: number,
+  render: PickerOption['render']
+): PickerOptionList => ({
+  length,
+  at: (index) =>
+    Number.isInteger(index) && index >= 0 && index < length
+      ? {
+          value: source.valueAt(index),
+          render,
+          props: EMPTY_PROPS,
+          disabled: source.isDisabled?.(index),
+          textValue: source.labelAt(index),
+        }
+      : undefined,
+});
@@ -0,0 +1,33 @@
+import { KEY_REPEAT_ACCELERATION } from '../../config/ui';
+
+interface ModifierState {
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+/**
+ * Rows a single arrow key or wheel step covers under the held modifiers: Alt forces single-row
+ * precision (and wins over Shift), Shift moves `coarseMultiplier` rows.
+ * @param {ModifierState} event - Keyboard or wheel event
+ * @param {number} coarseMultiplier
+ * @returns {number}
+ */
+export const modifierStepRows = (event: ModifierState, coarseMultiplier: number) => {
+  if (event.altKey || !event.shiftKey) return 1;
+  return Number.isFinite(coarseMultiplier) && coarseMultiplier >= 1
+    ? Math.round(coarseMultiplier)
+    : 1;
+};
+
+/**
+ * Rows per auto-repeated key press after the key has been held for `heldMs`.
+ * @param {number} heldMs
+ * @returns {number}
+ */
+export const keyRepeatRows = (heldMs: number) => {
+  let rows = 1;
+  for (const stage of KEY_REPEAT_ACCELERATION) {
+    if (heldMs >= stage.afterMs) rows = stage.rows;
+  }
+  return rows;
+};
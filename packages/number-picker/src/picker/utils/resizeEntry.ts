@@ -0,0 +1,14 @@
+/**
+ * Size of an observed element along the scroll axis: its height in vertical columns, its
+ * width in horizontal ones. Uses the border box where the browser reports one.
+ * @param {ResizeObserverEntry} entry
+ * @param {boolean} isHorizontal
+ * @returns {number}
+ */
+export const scrollAxisSize = (entry: ResizeObserverEntry, isHorizontal: boolean) => {
+  const box = entry.borderBoxSize?.[0];
+  if (box) {
+    return isHorizontal ? box.inlineSize : box.blockSize;
+  }
+  return isHorizontal ? entry.contentRect.width : entry.contentRect.height;
+};
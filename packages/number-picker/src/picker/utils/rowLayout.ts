@@ -0,0 +1,88 @@
+import { wrapIndex } from './math';
+
+/**
+ * Row geometry for columns whose rows differ in size. Offsets come from a prefix-sum table
+ * (one number per option), so index ↔ position lookups are a read or a binary search instead of
+ * a multiplication. Indices past either end continue on the next/previous lap, which is what
+ * looping columns need; bounded columns clamp before asking.
+ */
+export interface RowLayout {
+  /** Options in one lap */
+  count: number;
+  /** Length of one lap (sum of all row sizes) */
+  totalSize: number;
+  /** Size of row `index` along the scroll axis */
+  sizeOf(index: number): number;
+  /** Start of row `index`, measured from the start of row 0 */
+  offsetOf(index: number): number;
+  /** Row containing `offset` (measured from the start of row 0) */
+  indexAt(offset: number): number;
+}
+
+/**
+ * Builds the layout for `count` rows sized by `sizeOf(optionIndex)`. Sizes that aren't
+ * positive numbers fall back to `fallbackSize`.
+ * @param {number} count
+ * @param {(index: number) => number} sizeOf
+ * @param {number} fallbackSize - Nominal row size (the group's `itemHeight`)
+ * @returns {RowLayout}
+ */
+export const createRowLayout = (
+  count: number,
+  sizeOf: (index: number) => number,
+  fallbackSize: number
+): RowLayout => {
+  const sizes = new Float64Array(count);
+  const offsets = new Float64Array(count + 1);
+  for (let index = 0; index < count; index += 1) {
+    const size = sizeOf(index);
+    sizes[index] = Number.isFinite(size) && size > 0 ? size : fallbackSize;
+    offsets[index + 1] = offsets[index] + sizes[index];
+  }
+  const totalSize = offsets[count];
+
+  return {
+    count,
+    totalSize,
+    sizeOf: (index) => (count > 0 ? sizes[wrapIndex(index, count)] : fallbackSize),
+    offsetOf: (index) => {
+      if (count === 0) return index * fallbackSize;
+      const lap = Math.floor(index / count);
+      return lap * totalSize + offsets[index - lap * count];
+    },
+    indexAt: (offset) => {
+      if (count === 0 || totalSize <= 0) return 0;
+      const lap = Math.floor(offset / totalSize);
+      const within = offset - lap * totalSize;
+      // Last row whose start is at or before `within`
+      let low = 0;
+      let high = count - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (offsets[middle] <= within) low = middle;
+        else high = middle - 1;
+      }
+      return lap * count + low;
+    },
+  };
+};
+
+/**
+ * Translate that centers row `index` in a viewport of `viewportSize`.
+ * @param {RowLayout} layout
+ * @param {number} index
+ * @param {number} viewportSize
+ * @returns {number}
+ */
+export const translateForRow = (layout: RowLayout, index: number, viewportSize: number) =>
+  viewportSize / 2 - (layout.offsetOf(index) + layout.sizeOf(index) / 2);
+
+/**
+ * Row under the viewport center at `translate` (not clamped to the option range).
+ * @param {RowLayout} layout
+ * @param {number} translate
+ * @param {number} viewportSize
+ * @returns {number}
+ */
+export const rowForTranslate = (layout: RowLayout, translate: number, viewportSize: number) =>
+  layout.indexAt(viewportSize / 2 - translate);
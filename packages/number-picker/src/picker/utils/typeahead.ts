@@ -0,0 +1,90 @@
+import type { PickerRangeSource } from '../types/rangeSource';
+
+type TypeaheadOption = { value: string | number; textValue?: string; disabled?: boolean };
+/** Arrays and lazy option lists both qualify */
+type TypeaheadOptions = { readonly length: number; at(index: number): TypeaheadOption | undefined };
+
+const textFor = (option: TypeaheadOption) =>
+  (option.textValue ?? String(option.value)).trim().toLocaleLowerCase();
+
+/**
+ * Finds the option a native `<select>` would jump to for the typed `buffer`: the first enabled
+ * option whose text starts with it. When nothing matches and the buffer is one character
+ * repeated ("aaa"), cycles through the options starting with that character instead, beginning
+ * after `fromIndex`.
+ * @param {TypeaheadOptions} options
+ * @param {string} buffer - Typed characters, in order
+ * @param {number} fromIndex - Currently selected option index
+ * @returns {number} - Option index, or -1 when nothing matches
+ */
+export const findTypeaheadIndex = (
+  options: TypeaheadOptions,
+  buffer: string,
+  fromIndex: number
+) => {
+  const query = buffer.toLocaleLowerCase();
+  if (!query) return -1;
+
+  for (let index = 0; index < options.length; index += 1) {
+    const option = options.at(index);
+    if (option && !option.disabled && textFor(option).startsWith(query)) return index;
+  }
+
+  const [first] = query;
+  if (query.length < 2 || [...query].some((char) => char !== first)) return -1;
+
+  for (let offset = 1; offset <= options.length; offset += 1) {
+    const index = (fromIndex + offset) % options.length;
+    const option = options.at(index);
+    if (option && !option.disabled && textFor(option).startsWith(first)) return index;
+  }
+  return -1;
+};
+
+/**
+ * First row of an ascending source whose value is at least `target` (`count` when there is
+ * none). Unbounded sources are searched by doubling the bound first.
+ */
+const firstIndexAtLeast = (source: PickerRangeSource, target: number) => {
+  let high = source.count;
+  if (!Number.isFinite(high)) {
+    high = 1;
+    while (source.valueAt(high - 1) < target) high *= 2;
+  }
+  let low = 0;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (source.valueAt(middle) < target) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// Magnitudes tried for an unbounded source before giving up
+const MAX_TYPEAHEAD_MAGNITUDE = 15;
+
+/**
+ * Typeahead for range sources without visiting every row. The typed digits are read as the
+ * leading digits of a number, and each magnitude ("7": 7–7.x, 70–79, 700–799, …) is searched in
+ * turn for its first row. Rows match on their plain value ("1234.5"), not their locale label
+ * ("1.234,5"), like option rows without a `textValue`.
+ * @param {PickerRangeSource} source
+ * @param {string} buffer - Typed characters, in order
+ * @returns {number} - Row index, or -1 when nothing matches
+ */
+export const findRangeTypeaheadIndex = (source: PickerRangeSource, buffer: string) => {
+  if (!/^\d+(\.\d*)?$/u.test(buffer) || source.count === 0) return -1;
+
+  const typed = Number(buffer);
+  // Only whole numbers without a leading zero can stand for larger magnitudes
+  const magnitudes = buffer.includes('.') || typed === 0 ? 0 : MAX_TYPEAHEAD_MAGNITUDE;
+  const lastValue = Number.isFinite(source.count) ? source.valueAt(source.count - 1) : Infinity;
+
+  for (let magnitude = 0; magnitude <= magnitudes; magnitude += 1) {
+    const lowest = typed * 10 ** magnitude;
+    if (lowest > lastValue) break;
+    const index = firstIndexAtLeast(source, lowest);
+    if (index < source.count && String(source.valueAt(index)).startsWith(buffer)) return index;
+  }
+  return -1;
+};
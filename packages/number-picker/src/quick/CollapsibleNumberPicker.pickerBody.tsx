@@ -3,12 +3,13 @@ import { PickerGroup, type PickerOption } from '../picker';
 import type { CollapsiblePickerRenderItemState } from './types';
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
 import type { PickerGestureHandler } from '../picker/gestures';
+import type { ValueList } from './valueList';
 
 // Shared empty props object to avoid 10,000 allocations for large datasets
 const EMPTY_PROPS = {};
 
 export interface PickerBodyProps {
-  values: string[];
+  values: ValueList;
   unit?: string;
   renderItem: (
     value: string,
@@ -60,8 +61,8 @@ export const PickerBody = React.memo(function PickerBody({
   // Direct options array bypasses O(n²) registration for scalability (thousands of items)
   const options = useMemo<PickerOption[]>(
     () =>
-      values.map((val) => ({
-        value: val,
+      Array.from({ length: values.length }, (_, index) => ({
+        value: values.at(index),
         render: sharedRender, // Same function reference for all items!
         props: EMPTY_PROPS, // Shared empty object (eliminates 10,000 allocations)
       })),
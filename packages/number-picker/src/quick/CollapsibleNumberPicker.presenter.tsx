@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { PickerBody, type PickerBodyProps } from './CollapsibleNumberPicker.pickerBody';
 import type { CollapsiblePickerTheme } from './types';
+import type { PickerDirection } from '../picker/types/direction';
+import type { StepperButtonsProps } from '../shared/StepperButtons';
 
 export type CSSVariableStyles = CSSProperties & Record<`--${string}`, string>;
 
@@ -24,6 +26,8 @@ export interface AriaProps {
   ariaValueMax?: number;
   ariaValueNow?: number;
   ariaValueText?: string;
+  /** Row of the open picker the spinbutton points at */
+  ariaActiveDescendant?: string;
   pickerWindowId: string;
 }
 
@@ -32,25 +36,50 @@ export interface SurfaceRefs {
   interactiveRef: React.RefObject<HTMLDivElement | null>;
   pickerRef: React.RefObject<HTMLDivElement | null>;
   highlightRef: React.RefObject<HTMLDivElement | null>;
+  /** Input shown while `textEntry.isEditing` */
+  textInputRef?: React.RefObject<HTMLInputElement | null>;
 }
 
 export interface LayoutProps {
   collapsedHeight: number;
   pickerWindowHeight: number;
   pickerTranslate?: number;
+  /** Explicit reading direction, set on the root so layout mirrors */
+  dir?: PickerDirection;
 }
 
 export interface PickerStateProps {
   showPicker: boolean;
   selectedIndex: number;
   totalValues: number;
+  disabled?: boolean;
+  readOnly?: boolean;
+  /** The closed display scrubs the value on horizontal drags */
+  scrub?: boolean;
 }
 
 export interface InteractionHandlers {
   onPointerDown: (event: React.PointerEvent) => void;
   onKeyDown: React.KeyboardEventHandler;
+  onDoubleClick?: React.MouseEventHandler;
+  /** Scrub tracking; capture handlers run before the wheel column sees the pointer */
+  onPointerMoveCapture?: React.PointerEventHandler;
+  onPointerUpCapture?: React.PointerEventHandler;
+  onPointerCancelCapture?: React.PointerEventHandler;
 }
 
+export interface TextEntryProps {
+  isEditing: boolean;
+  draft: string;
+  invalid: boolean;
+  onDraftChange: React.ChangeEventHandler<HTMLInputElement>;
+  onInputKeyDown: React.KeyboardEventHandler<HTMLInputElement>;
+  onInputBlur: React.FocusEventHandler<HTMLInputElement>;
+}
+
+/** Stepper buttons around the field; `controls` comes from the presenter */
+export type StepperControlsProps = Omit<StepperButtonsProps, 'controls' | 'className' | 'children'>;
+
 export interface ValueDisplayProps {
   valueNode: React.ReactNode;
   maxSampleString: string;
@@ -67,6 +96,8 @@ export interface QuickNumberPresenterViewModel {
   highlightTapHandlers: React.HTMLAttributes<HTMLDivElement>;
   pickerBodyProps: PickerBodyProps;
   valueDisplay: ValueDisplayProps;
+  textEntry?: TextEntryProps;
+  steppers?: StepperControlsProps;
   cssVariables: CSSVariableStyles;
   theme: CollapsiblePickerTheme;
 }
@@ -85,7 +85,6 @@ const CollapsibleNumberPickerComponent: React.FC<CollapsiblePickerProps> = ({
   const {
     values,
     selectedValue,
-    setSelectedValue,
     selectedIndex,
     totalValues,
     numericValue,
@@ -116,7 +115,6 @@ const CollapsibleNumberPickerComponent: React.FC<CollapsiblePickerProps> = ({
       enableAudioFeedback,
       showPicker,
       selectedValue,
-      setSelectedValue,
       onChange,
       timingConfig,
       timingPreset,
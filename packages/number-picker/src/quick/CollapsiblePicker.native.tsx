@@ -0,0 +1,127 @@
+import React, { useCallback, useId, useImperativeHandle, useMemo, useRef } from 'react';
+import { createRangeSource } from '../utils/pickerOptions';
+import { NativeNumberInput } from '../shared/NativeNumberInput';
+import { FormValueInput, rangeValidationMessage } from '../shared/FormValueInput';
+import { nearestStepIndex } from './utils';
+import type { CollapsiblePickerHandle, CollapsiblePickerProps } from './types';
+
+/**
+ * Native stand-in for CollapsiblePicker (its `fallback` prop): the label, an
+ * `<input type="number">` with the picker's `min`/`max`/`step`, the unit, and the helper text.
+ *
+ * Only values on the range are committed, through the same `onChange`. There is nothing to open,
+ * so `open`/`close` on the handle do nothing; scrolling commits the snapped value directly.
+ *
+ * @param {CollapsiblePickerProps} props
+ * @param {React.ForwardedRef<CollapsiblePickerHandle>} ref - Imperative handle
+ * @returns {React.ReactElement}
+ */
+export const NativeCollapsiblePicker = (
+  {
+    label,
+    value,
+    onChange,
+    unit,
+    min = 0,
+    max = 500,
+    step = 1,
+    placeholder = '—',
+    disabled = false,
+    readOnly = false,
+    locale,
+    formatOptions,
+    dir,
+    helperText,
+    name,
+    form,
+    required = false,
+    validationMessages,
+  }: CollapsiblePickerProps,
+  ref: React.ForwardedRef<CollapsiblePickerHandle>
+) => {
+  const inputId = useId();
+  const helperTextId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const source = useMemo(
+    () => createRangeSource({ min, max: max >= min ? max : min, step, locale, formatOptions }),
+    [formatOptions, locale, max, min, step]
+  );
+
+  useImperativeHandle(ref, () => {
+    const commitIndex = (index: number) => {
+      const next = source.valueAt(Math.max(0, Math.min(source.count - 1, index)));
+      if (next !== value) onChange(next);
+    };
+    const currentIndex = () =>
+      value === undefined ? 0 : nearestStepIndex(value, { min, step, count: source.count });
+
+    return {
+      scrollToValue: (target) =>
+        commitIndex(nearestStepIndex(target, { min, step, count: source.count })),
+      scrollByItems: (count) => commitIndex(currentIndex() + count),
+      // Nothing animates or opens in the native control
+      stopMomentum: () => {},
+      focus: () => inputRef.current?.focus(),
+      open: () => {},
+      close: () => {},
+      getVisualValue: () => value,
+    };
+  }, [min, onChange, source, step, value]);
+
+  // Form reset restores the value the picker was mounted with
+  const initialValueRef = useRef(value);
+  const handleFormReset = useCallback(() => {
+    if (initialValueRef.current !== undefined) {
+      onChange(initialValueRef.current);
+    }
+  }, [onChange]);
+  const focusInput = useCallback(() => inputRef.current?.focus(), []);
+
+  return (
+    <div
+      className="quick-number-input-root qni-native"
+      dir={dir}
+      data-disabled={disabled || undefined}
+      data-readonly={readOnly || undefined}
+    >
+      <label className="qni-native-label" htmlFor={inputId}>
+        {label}
+      </label>
+      <div className="qni-native-field">
+        <NativeNumberInput
+          inputRef={inputRef}
+          id={inputId}
+          className="qni-native-input"
+          source={source}
+          value={value ?? ''}
+          onCommit={onChange}
+          placeholder={placeholder}
+          disabled={disabled}
+          readOnly={readOnly}
+          aria-describedby={helperText ? helperTextId : undefined}
+        />
+        {unit && <span className="qni-unit">{unit}</span>}
+      </div>
+      {helperText && (
+        <p className="qni-native-helper" id={helperTextId}>
+          {helperText}
+        </p>
+      )}
+      {name && (
+        <FormValueInput
+          name={name}
+          form={form}
+          value={value === undefined ? '' : String(value)}
+          required={required}
+          disabled={disabled}
+          validationMessage={
+            value === undefined ? '' : rangeValidationMessage(value, min, max, validationMessages)
+          }
+          onReset={handleFormReset}
+          focusPicker={focusInput}
+        />
+      )}
+    </div>
+  );
+};
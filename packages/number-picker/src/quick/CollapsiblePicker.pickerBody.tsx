@@ -3,12 +3,20 @@ import { PickerGroup, type PickerOption } from '../picker';
 import type { CollapsiblePickerRenderItemState } from './types';
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
 import type { PickerGestureHandler } from '../picker/gestures';
+import type { PickerColumnHandle } from '../picker/types/handle';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import type { PickerDirection } from '../picker/types/direction';
+import { joinColumnValue, splitColumnValue, type ColumnLayout } from './columnLayout';
+import { nearestStepIndex } from './utils';
+import type { ValueLabels, ValueList } from './valueList';
 
 // Shared empty props object to avoid 10,000 allocations for large datasets
 const EMPTY_PROPS = {};
 
 export interface PickerBodyProps {
-  values: string[];
+  values: ValueList;
+  /** Display label by entry of `values` (locale formatting); the value itself when missing */
+  valueLabels?: ValueLabels;
   unit?: string;
   renderItem: (
     value: string,
@@ -24,16 +32,29 @@ export interface PickerBodyProps {
   snapConfig?: SnapPhysicsConfig;
   wheelSensitivity?: number;
   wheelDeltaCap?: number;
+  /** Rows per arrow/wheel step with Shift held */
+  coarseMultiplier?: number;
+  /** Imperative handle of the value column (drives the CollapsiblePicker ref) */
+  columnRef?: React.Ref<PickerColumnHandle>;
+  /** Id of the value column; the spinbutton points `aria-activedescendant` at its rows */
+  columnId?: string;
+  animateExternalChanges?: AnimateExternalChanges;
+  /** Multi-column layout (`columns="split"` / `"digits"`); a single column when omitted */
+  columnLayout?: ColumnLayout | null;
+  /** Reading direction of the picker; digit columns always run left to right */
+  direction?: PickerDirection;
 }
 
 /**
  * Renders the mobile picker column for the quick number input, wiring
- * change/drag callbacks and virtualization-friendly rows.
+ * change/drag callbacks and virtualization-friendly rows. With a column layout, the value is
+ * spread over several columns and recombined into a `values` entry on every change.
  * @param {PickerBodyProps} props
  * @returns {React.ReactElement}
  */
 export const PickerBody = React.memo(function PickerBody({
   values,
+  valueLabels,
   unit,
   renderItem,
   hasCustomRenderItem,
@@ -46,52 +67,248 @@ export const PickerBody = React.memo(function PickerBody({
   snapConfig,
   wheelSensitivity = 1,
   wheelDeltaCap = 1.25,
+  coarseMultiplier,
+  columnRef,
+  columnId,
+  animateExternalChanges,
+  columnLayout,
+  direction,
 }: PickerBodyProps) {
   // Shared render function eliminates 10,000 function closures for scalability
   const sharedRender = useCallback(
     (state: { selected: boolean; visuallySelected: boolean; value: string | number }) => (
       <PickerValueRow
-        value={String(state.value)}
+        value={valueLabels?.get(String(state.value)) ?? String(state.value)}
         unit={unit}
         renderItem={renderItem}
         hasCustomRenderItem={hasCustomRenderItem}
         state={state}
       />
     ),
-    [hasCustomRenderItem, renderItem, unit]
+    [hasCustomRenderItem, renderItem, unit, valueLabels]
   );
 
   // Direct options array bypasses O(n²) registration for scalability (thousands of items)
   const options = useMemo<PickerOption[]>(
     () =>
-      values.map((val) => ({
-        value: val,
-        render: sharedRender, // Same function reference for all items!
-        props: EMPTY_PROPS, // Shared empty object (eliminates 10,000 allocations)
-      })),
-    [sharedRender, values]
+      columnLayout || values.source
+        ? []
+        : Array.from({ length: values.length }, (_, index) => {
+            const val = values.at(index);
+            return {
+              value: val,
+              render: sharedRender, // Same function reference for all items!
+              props: EMPTY_PROPS, // Shared empty object (eliminates 10,000 allocations)
+              textValue: valueLabels?.get(val),
+            };
+          }),
+    [columnLayout, sharedRender, valueLabels, values]
   );
 
+  // Lazy lists hand the column their range source; its numeric values map back to entries
+  const handleColumnChange = useCallback(
+    (next: Record<string, string | number>) => {
+      if (!values.source) {
+        handleValueChange(next as { value: string });
+        return;
+      }
+      const entry = values.at(values.source.indexOf(next.value));
+      if (entry !== undefined) {
+        handleValueChange({ value: entry });
+      }
+    },
+    [handleValueChange, values]
+  );
+
+  if (columnLayout) {
+    return (
+      <MultiColumnBody
+        layout={columnLayout}
+        values={values}
+        unit={unit}
+        renderItem={renderItem}
+        pickerWindowHeight={pickerWindowHeight}
+        itemHeightPx={itemHeightPx}
+        selectedValue={selectedValue}
+        handleValueChange={handleValueChange}
+        onGesture={onGesture}
+        showPicker={showPicker}
+        snapConfig={snapConfig}
+        wheelSensitivity={wheelSensitivity}
+        wheelDeltaCap={wheelDeltaCap}
+        coarseMultiplier={coarseMultiplier}
+        animateExternalChanges={animateExternalChanges}
+        direction={direction}
+      />
+    );
+  }
+
   return (
     <PickerGroup
       value={selectedValue}
-      onChange={handleValueChange}
+      onChange={handleColumnChange}
       wheelSensitivity={wheelSensitivity}
       wheelDeltaCap={wheelDeltaCap}
       height={pickerWindowHeight}
       itemHeight={itemHeightPx}
+      dir={direction}
+      // The spinbutton's aria-valuetext already reports every change
+      announceValues={false}
     >
       <PickerGroup.Column
+        ref={columnRef}
+        id={columnId}
         name="value"
         isPickerOpen={showPicker}
         snapConfig={snapConfig}
         onGesture={onGesture}
         options={options}
+        source={values.source}
+        renderSourceItem={sharedRender}
+        animateExternalChanges={animateExternalChanges}
+        coarseMultiplier={coarseMultiplier}
       />
     </PickerGroup>
   );
 });
 
+type MultiColumnBodyProps = Omit<
+  PickerBodyProps,
+  'columnLayout' | 'columnRef' | 'hasCustomRenderItem'
+> & {
+  layout: ColumnLayout;
+};
+
+/**
+ * PickerGroup with one column per part of the value. Combinations that fall outside the
+ * range (or between steps) are snapped through `resolveValue`, so the columns never rest on
+ * a value the single-column list doesn't contain.
+ * @param {MultiColumnBodyProps} props
+ * @returns {React.ReactElement}
+ */
+const MultiColumnBody = React.memo(function MultiColumnBody({
+  layout,
+  values,
+  unit,
+  renderItem,
+  pickerWindowHeight,
+  itemHeightPx,
+  selectedValue,
+  handleValueChange,
+  onGesture,
+  showPicker,
+  snapConfig,
+  wheelSensitivity,
+  wheelDeltaCap,
+  coarseMultiplier,
+  animateExternalChanges,
+  direction,
+}: MultiColumnBodyProps) {
+  const snapToValue = useCallback(
+    (parts: Record<string, string | number>) =>
+      values.at(
+        nearestStepIndex(joinColumnValue(layout, parts), {
+          min: layout.min,
+          step: layout.step,
+          count: values.length,
+        })
+      ),
+    [layout, values]
+  );
+
+  const groupValue = useMemo(
+    () => splitColumnValue(layout, selectedValue.value),
+    [layout, selectedValue.value]
+  );
+
+  const resolveValue = useCallback(
+    (parts: Record<string, string | number>) => splitColumnValue(layout, snapToValue(parts)),
+    [layout, snapToValue]
+  );
+
+  const handleGroupChange = useCallback(
+    (parts: Record<string, string | number>) => {
+      const next = snapToValue(parts);
+      if (next !== undefined) {
+        handleValueChange({ value: next });
+      }
+    },
+    [handleValueChange, snapToValue]
+  );
+
+  // One shared render per column; row labels are looked up by part
+  const columnOptions = useMemo(
+    () =>
+      layout.columns.map((column) => {
+        const render = (state: {
+          selected: boolean;
+          visuallySelected: boolean;
+          value: string | number;
+        }) => (
+          <PickerValueRow
+            value={column.labels.get(String(state.value)) ?? String(state.value)}
+            renderItem={renderItem}
+            hasCustomRenderItem={false}
+            state={state}
+          />
+        );
+        return column.values.map<PickerOption>((part) => ({
+          value: part,
+          render,
+          props: EMPTY_PROPS,
+          textValue: column.labels.get(part),
+        }));
+      }),
+    [layout, renderItem]
+  );
+
+  return (
+    <PickerGroup
+      value={groupValue}
+      onChange={handleGroupChange}
+      resolveValue={resolveValue}
+      wheelSensitivity={wheelSensitivity}
+      wheelDeltaCap={wheelDeltaCap}
+      height={pickerWindowHeight}
+      itemHeight={itemHeightPx}
+      // Numbers read left to right in RTL text too; only the unit moves to the other side
+      dir="ltr"
+      announceValues={false}
+      data-columns={layout.mode}
+    >
+      {unit && direction === 'rtl' && (
+        <div className="picker-column-unit picker-column-unit-leading" aria-hidden>
+          {unit}
+        </div>
+      )}
+      {layout.columns.map((column, index) => (
+        <React.Fragment key={column.key}>
+          {index === layout.fractionStart && (
+            <div className="picker-column-separator" aria-hidden>
+              {layout.decimalSeparator}
+            </div>
+          )}
+          <PickerGroup.Column
+            name={column.key}
+            aria-label={column.ariaLabel}
+            isPickerOpen={showPicker}
+            snapConfig={snapConfig}
+            onGesture={onGesture}
+            options={columnOptions[index]}
+            animateExternalChanges={animateExternalChanges}
+            coarseMultiplier={coarseMultiplier}
+          />
+        </React.Fragment>
+      ))}
+      {unit && direction !== 'rtl' && (
+        <div className="picker-column-unit" aria-hidden>
+          {unit}
+        </div>
+      )}
+    </PickerGroup>
+  );
+});
+
 interface PickerValueRowProps {
   value: string;
   unit?: string;
@@ -3,6 +3,8 @@ import { LazyMotion, domAnimation, m } from 'framer-motion';
 import { ChevronDown, ChevronUp } from './icons';
 import { PickerBody, type PickerBodyProps } from './CollapsiblePicker.pickerBody';
 import type { CollapsiblePickerTheme } from './types';
+import type { PickerDirection } from '../picker/types/direction';
+import { StepperButtons, type StepperButtonsProps } from '../shared/StepperButtons';
 
 export type CSSVariableStyles = CSSProperties & Record<`--${string}`, string>;
 
@@ -24,6 +26,8 @@ export interface AriaProps {
   ariaValueMax?: number;
   ariaValueNow?: number;
   ariaValueText?: string;
+  /** Row of the open picker the spinbutton points at */
+  ariaActiveDescendant?: string;
   pickerWindowId: string;
 }
 
@@ -32,25 +36,50 @@ export interface SurfaceRefs {
   interactiveRef: React.RefObject<HTMLDivElement | null>;
   pickerRef: React.RefObject<HTMLDivElement | null>;
   highlightRef: React.RefObject<HTMLDivElement | null>;
+  /** Input shown while `textEntry.isEditing` */
+  textInputRef?: React.RefObject<HTMLInputElement | null>;
 }
 
 export interface LayoutProps {
   collapsedHeight: number;
   pickerWindowHeight: number;
   pickerTranslate?: number;
+  /** Explicit reading direction, set on the root so layout mirrors */
+  dir?: PickerDirection;
 }
 
 export interface PickerStateProps {
   showPicker: boolean;
   selectedIndex: number;
   totalValues: number;
+  disabled?: boolean;
+  readOnly?: boolean;
+  /** The closed display scrubs the value on horizontal drags */
+  scrub?: boolean;
 }
 
 export interface InteractionHandlers {
   onPointerDown: (event: React.PointerEvent) => void;
   onKeyDown: React.KeyboardEventHandler;
+  onDoubleClick?: React.MouseEventHandler;
+  /** Scrub tracking; capture handlers run before the wheel column sees the pointer */
+  onPointerMoveCapture?: React.PointerEventHandler;
+  onPointerUpCapture?: React.PointerEventHandler;
+  onPointerCancelCapture?: React.PointerEventHandler;
 }
 
+export interface TextEntryProps {
+  isEditing: boolean;
+  draft: string;
+  invalid: boolean;
+  onDraftChange: React.ChangeEventHandler<HTMLInputElement>;
+  onInputKeyDown: React.KeyboardEventHandler<HTMLInputElement>;
+  onInputBlur: React.FocusEventHandler<HTMLInputElement>;
+}
+
+/** Stepper buttons around the field; `controls` comes from the presenter */
+export type StepperControlsProps = Omit<StepperButtonsProps, 'controls' | 'className' | 'children'>;
+
 export interface ValueDisplayProps {
   valueNode: React.ReactNode;
   maxSampleString: string;
@@ -67,6 +96,8 @@ export interface QuickNumberPresenterViewModel {
   highlightTapHandlers: React.HTMLAttributes<HTMLDivElement>;
   pickerBodyProps: PickerBodyProps;
   valueDisplay: ValueDisplayProps;
+  textEntry?: TextEntryProps;
+  steppers?: StepperControlsProps;
   cssVariables: CSSVariableStyles;
   theme: CollapsiblePickerTheme;
 }
@@ -98,6 +129,8 @@ export const CollapsiblePickerPresenter = React.memo(function CollapsiblePickerP
     highlightTapHandlers,
     pickerBodyProps,
     valueDisplay,
+    textEntry,
+    steppers,
     cssVariables,
     theme,
   } = viewModel;
@@ -118,39 +151,92 @@ export const CollapsiblePickerPresenter = React.memo(function CollapsiblePickerP
     ariaValueMax,
     ariaValueNow,
     ariaValueText,
+    ariaActiveDescendant,
     pickerWindowId,
   } = ariaProps;
-  const { wrapperRef, interactiveRef, pickerRef, highlightRef } = refs;
-  const { collapsedHeight, pickerWindowHeight, pickerTranslate } = layout;
-  const { showPicker, selectedIndex, totalValues } = pickerState;
-  const { onPointerDown, onKeyDown } = handlers;
+  const { wrapperRef, interactiveRef, pickerRef, highlightRef, textInputRef } = refs;
+  const { collapsedHeight, pickerWindowHeight, pickerTranslate, dir } = layout;
+  const {
+    showPicker,
+    totalValues,
+    disabled = false,
+    readOnly = false,
+    scrub = false,
+  } = pickerState;
+  const locked = disabled || readOnly;
+  const {
+    onPointerDown,
+    onKeyDown,
+    onDoubleClick,
+    onPointerMoveCapture,
+    onPointerUpCapture,
+    onPointerCancelCapture,
+  } = handlers;
   const { valueNode, maxSampleString } = valueDisplay;
   const closedHasValue = currentValue !== undefined;
+  const isEditing = textEntry?.isEditing ?? false;
 
   // Memoize inline styles to prevent unnecessary re-renders
-  const closedDisplayStyle = useMemo<CSSProperties>(
-    () => ({
+  const closedDisplayStyle = useMemo<CSSProperties>(() => {
+    // While editing, the display sits above picker-surface so the input receives pointers
+    if (isEditing) {
+      return { opacity: 1, visibility: 'visible' as const, zIndex: 20 };
+    }
+    return {
       opacity: showPicker ? 0 : 1,
       visibility: showPicker ? ('hidden' as const) : ('visible' as const),
       pointerEvents: 'none' as const,
       transition: 'opacity 0.2s',
-    }),
-    [showPicker]
+    };
+  }, [isEditing, showPicker]);
+
+  const rootStyle = useMemo<CSSProperties>(
+    () => (disabled ? { ...cssVariables, opacity: theme.disabledOpacity } : cssVariables),
+    [cssVariables, disabled, theme.disabledOpacity]
   );
 
+  const closedSurfaceColors = useMemo(() => {
+    if (disabled) {
+      return {
+        borderColor: theme.disabledBorderColor,
+        backgroundColor: theme.disabledBackgroundColor,
+      };
+    }
+    return {
+      borderColor: readOnly
+        ? theme.readOnlyBorderColor
+        : closedHasValue
+          ? theme.closedBorderColor
+          : theme.closedBorderColorEmpty,
+      backgroundColor: closedHasValue
+        ? theme.closedBackgroundColor
+        : theme.closedBackgroundColorEmpty,
+    };
+  }, [closedHasValue, disabled, readOnly, theme]);
+
+  // Scrubbable displays hint at horizontal drags
+  const closedCursor = scrub ? 'ew-resize' : 'pointer';
   const pickerSurfaceStyle = useMemo<CSSProperties>(
     () => ({
       pointerEvents: 'auto' as const,
       // Higher z-index when closed to receive initial click, lower when open to allow PickerColumn drag
       zIndex: showPicker ? 5 : 15,
-      cursor: showPicker ? 'grab' : 'pointer',
+      cursor: disabled ? 'not-allowed' : readOnly ? 'default' : showPicker ? 'grab' : closedCursor,
       // Set explicit height to match visible bounds (prevents extended hitbox)
       height: showPicker ? `${pickerWindowHeight}px` : `${collapsedHeight}px`,
       transform: showPicker ? `translateY(${pickerTranslate}px)` : undefined,
       transition: 'transform 0.2s ease-out',
       userSelect: 'none' as const,
     }),
-    [pickerWindowHeight, pickerTranslate, showPicker, collapsedHeight]
+    [
+      pickerWindowHeight,
+      pickerTranslate,
+      showPicker,
+      collapsedHeight,
+      disabled,
+      readOnly,
+      closedCursor,
+    ]
   );
 
   const motionDivStyle = useMemo<CSSProperties>(
@@ -176,7 +262,13 @@ export const CollapsiblePickerPresenter = React.memo(function CollapsiblePickerP
 
   return (
     <LazyMotion features={domAnimation} strict>
-      <div className="quick-number-input-root space-y-2" style={cssVariables}>
+      <div
+        className="quick-number-input-root space-y-2"
+        style={rootStyle}
+        dir={dir}
+        data-disabled={disabled || undefined}
+        data-readonly={readOnly || undefined}
+      >
         <div className="flex items-center gap-2">
           <label
             className="font-archivo text-sm uppercase tracking-wider"
@@ -186,7 +278,7 @@ export const CollapsiblePickerPresenter = React.memo(function CollapsiblePickerP
           >
             {label}
           </label>
-          {lastValue !== undefined && currentValue !== lastValue && (
+          {!locked && lastValue !== undefined && currentValue !== lastValue && (
             <button
               type="button"
               onClick={onUseLastValue}
@@ -201,103 +293,126 @@ export const CollapsiblePickerPresenter = React.memo(function CollapsiblePickerP
           )}
         </div>
 
-        <div
-          className="relative"
-          style={{ height: `${collapsedHeight}px` }}
-          ref={wrapperRef}
-          data-testid="qni-wrapper"
-        >
+        <StepperButtons {...steppers} controls={controlId}>
           <div
-            className="absolute top-0 left-0 right-0"
-            data-testid="qni-closed"
-            aria-hidden={showPicker}
-            style={closedDisplayStyle}
+            className="relative"
+            style={{ height: `${collapsedHeight}px` }}
+            ref={wrapperRef}
+            data-testid="qni-wrapper"
           >
             <div
-              className="w-full px-4 transition-all flex items-center justify-center relative"
-              style={{
-                height: `${collapsedHeight}px`,
-                borderWidth: 2,
-                borderStyle: 'solid',
-                borderColor: closedHasValue
-                  ? theme.closedBorderColor
-                  : theme.closedBorderColorEmpty,
-                backgroundColor: closedHasValue
-                  ? theme.closedBackgroundColor
-                  : theme.closedBackgroundColorEmpty,
-              }}
+              className="absolute top-0 left-0 right-0"
+              data-testid="qni-closed"
+              aria-hidden={showPicker && !isEditing}
+              style={closedDisplayStyle}
             >
-              <div className="qni-closed">
-                <span className="qni-ghost" aria-hidden>
-                  {maxSampleString} {unit}
-                </span>
-                <div className="qni-inner">
-                  <ChevronDown className="qni-chevron" />
-                  <span className="qni-value">{valueNode}</span>
-                  {unit && <span className="qni-unit">{unit}</span>}
-                  <ChevronUp className="qni-chevron" />
+              <div
+                className="w-full px-4 transition-all flex items-center justify-center relative"
+                style={{
+                  height: `${collapsedHeight}px`,
+                  borderWidth: 2,
+                  borderStyle: 'solid',
+                  ...closedSurfaceColors,
+                }}
+              >
+                <div className="qni-closed">
+                  <span className="qni-ghost" aria-hidden>
+                    {maxSampleString} {unit}
+                  </span>
+                  <div className="qni-inner">
+                    <ChevronDown className="qni-chevron" />
+                    {isEditing && textEntry ? (
+                      <input
+                        ref={textInputRef}
+                        className="qni-value qni-text-input"
+                        data-testid="qni-text-input"
+                        type="text"
+                        inputMode="decimal"
+                        size={Math.max(maxSampleString.length, 1)}
+                        autoComplete="off"
+                        spellCheck={false}
+                        aria-labelledby={labelId}
+                        aria-describedby={ariaDescribedBy}
+                        aria-invalid={textEntry.invalid || undefined}
+                        value={textEntry.draft}
+                        onChange={textEntry.onDraftChange}
+                        onKeyDown={textEntry.onInputKeyDown}
+                        onBlur={textEntry.onInputBlur}
+                      />
+                    ) : (
+                      <span className="qni-value">{valueNode}</span>
+                    )}
+                    {unit && <span className="qni-unit">{unit}</span>}
+                    <ChevronUp className="qni-chevron" />
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          <div
-            className="absolute top-0 left-0 right-0 overflow-hidden focus:outline-hidden picker-surface"
-            style={pickerSurfaceStyle}
-            id={controlId}
-            ref={interactiveRef}
-            role="spinbutton"
-            data-testid="picker-surface"
-            data-state={showPicker ? 'open' : 'closed'}
-            tabIndex={0}
-            aria-labelledby={labelId}
-            aria-describedby={ariaDescribedBy}
-            aria-valuemin={ariaValueMin}
-            aria-valuemax={ariaValueMax}
-            aria-valuenow={ariaValueNow}
-            aria-valuetext={ariaValueText}
-            aria-controls={pickerWindowId}
-            aria-expanded={showPicker}
-            aria-activedescendant={
-              showPicker && totalValues > 0 ? `picker-value-option-${selectedIndex}` : undefined
-            }
-            onPointerDown={onPointerDown}
-            onKeyDown={onKeyDown}
-          >
-            <m.div
-              aria-hidden={!showPicker}
-              animate={{
-                opacity: showPicker ? 1 : 0,
-                scaleY: showPicker ? 1 : collapsedHeight / pickerWindowHeight,
-              }}
-              transition={{ duration: 0.2 }}
-              className="overflow-hidden"
-              style={motionDivStyle}
+            <div
+              className="absolute top-0 left-0 right-0 overflow-hidden focus:outline-hidden picker-surface"
+              style={pickerSurfaceStyle}
+              id={controlId}
+              ref={interactiveRef}
+              role="spinbutton"
+              data-testid="picker-surface"
+              data-state={showPicker ? 'open' : 'closed'}
+              tabIndex={disabled ? -1 : 0}
+              aria-disabled={disabled || undefined}
+              aria-readonly={readOnly || undefined}
+              aria-labelledby={labelId}
+              aria-describedby={ariaDescribedBy}
+              aria-valuemin={ariaValueMin}
+              aria-valuemax={ariaValueMax}
+              aria-valuenow={ariaValueNow}
+              aria-valuetext={ariaValueText}
+              aria-controls={pickerWindowId}
+              aria-expanded={showPicker}
+              aria-activedescendant={
+                showPicker && totalValues > 0 ? ariaActiveDescendant : undefined
+              }
+              onPointerDown={onPointerDown}
+              onPointerMoveCapture={onPointerMoveCapture}
+              onPointerUpCapture={onPointerUpCapture}
+              onPointerCancelCapture={onPointerCancelCapture}
+              onKeyDown={onKeyDown}
+              onDoubleClick={onDoubleClick}
             >
-              <div
-                className="w-full relative"
-                style={pickerWindowStyle}
-                ref={pickerRef}
-                data-testid="picker-window"
-                id={pickerWindowId}
+              <m.div
                 aria-hidden={!showPicker}
-                {...highlightTapHandlers}
+                animate={{
+                  opacity: showPicker ? 1 : 0,
+                  scaleY: showPicker ? 1 : collapsedHeight / pickerWindowHeight,
+                }}
+                transition={{ duration: 0.2 }}
+                className="overflow-hidden"
+                style={motionDivStyle}
               >
-                <div className="picker-fade-top" />
-                <div className="picker-highlight-fill" aria-hidden />
                 <div
-                  className="picker-highlight picker-highlight-hitbox"
-                  ref={highlightRef}
-                  aria-hidden
-                />
-                <div className="picker-fade-bottom" />
-                <div className="picker-container">
-                  <PickerBody {...pickerBodyProps} />
+                  className="w-full relative"
+                  style={pickerWindowStyle}
+                  ref={pickerRef}
+                  data-testid="picker-window"
+                  id={pickerWindowId}
+                  aria-hidden={!showPicker}
+                  {...highlightTapHandlers}
+                >
+                  <div className="picker-fade-top" />
+                  <div className="picker-highlight-fill" aria-hidden />
+                  <div
+                    className="picker-highlight picker-highlight-hitbox"
+                    ref={highlightRef}
+                    aria-hidden
+                  />
+                  <div className="picker-fade-bottom" />
+                  <div className="picker-container">
+                    <PickerBody {...pickerBodyProps} />
+                  </div>
                 </div>
-              </div>
-            </m.div>
+              </m.div>
+            </div>
           </div>
-        </div>
+        </StepperButtons>
 
         {helperText && (
           <p className="text-xs text-white/60 font-archivo leading-relaxed" id={helperTextId}>
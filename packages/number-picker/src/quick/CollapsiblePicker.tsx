@@ -1,20 +1,33 @@
-import React, { useRef, useEffect, useCallback, useMemo, useId } from 'react';
+import React, { forwardRef, useRef, useEffect, useCallback, useMemo, useId } from 'react';
 import { ITEM_HEIGHT } from '../config/ui';
 import { DEFAULT_SNAP_PHYSICS } from '../config/physics';
 import { useResolvedTheme } from './hooks/useResolvedTheme';
 import { usePickerVisibility } from './hooks/usePickerVisibility';
 import { usePickerCoordinator } from './hooks/usePickerCoordinator';
 import { CollapsiblePickerPresenter } from './CollapsiblePicker.presenter';
+import { NativeCollapsiblePicker } from './CollapsiblePicker.native';
 import { useQuickNumberPresentation } from './hooks/useQuickNumberPresentation';
 import { useQuickPickerFeedbackService } from './hooks/useQuickPickerFeedbackService';
 import { useQuickNumberControllers } from './hooks/useQuickNumberControllers';
 import { useQuickNumberPresenterViewModel } from './hooks/useQuickNumberPresenterViewModel';
+import { useCollapsiblePickerHandle } from './hooks/useCollapsiblePickerHandle';
+import { useTextEntry } from './hooks/useTextEntry';
+import { useScrubGesture } from './hooks/useScrubGesture';
+import { buildColumnLayout } from './columnLayout';
+import { decimalSeparatorOf } from './utils';
+import { createGestureEmitter } from '../picker/gestures';
+import { pickerOptionId } from '../picker/utils/optionId';
+import { useLayoutDirection } from '../shared/hooks/useLayoutDirection';
+import { useNativeFallback } from '../shared/hooks/useNativeFallback';
+import { FormValueInput, rangeValidationMessage } from '../shared/FormValueInput';
 import type {
+  CollapsiblePickerHandle,
   CollapsiblePickerProps,
   CollapsiblePickerRenderItemState,
   RenderItemFn,
 } from './types';
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerColumnHandle } from '../picker/types/handle';
 
 /**
  * CollapsiblePicker - Interactive picker with open/close animation
@@ -27,43 +40,75 @@ import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
  * - Haptic & audio feedback
  * - Customizable theming
  * - Accessibility support
+ * - Disabled and read-only modes
+ * - Imperative ref handle (scrollToValue, scrollByItems, open, close, ...)
+ * - Direct text entry on the closed display (double-click or type a number)
+ * - Split whole/decimal or per-digit wheels (`columns`)
+ * - Native form fields (`name`, `form`, `required`): submitted, reset, and validated with the form
+ * - Locale-aware labels (`locale`, `formatOptions`)
+ * - Right-to-left layouts (`dir`, or the direction it renders in)
+ * - Shift/Alt for coarse/fine arrow and wheel steps; held arrows accelerate
+ * - Scrub-to-adjust: drag the closed display sideways to step the value (`scrub`)
+ * - Stepper buttons with press-and-hold repeat (`steppers`)
+ * - Native `<input type="number">` fallback (`fallback`) for touch-only devices, forced colors,
+ *   and server-rendered markup
  *
  * For always-visible picker, see Picker component.
  *
  * @component
  * @param {CollapsiblePickerProps} props - Configuration for value range, theming, and behavior.
+ * @param {React.ForwardedRef<CollapsiblePickerHandle>} ref - Imperative handle
  * @returns {React.ReactElement}
  */
-const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
-  label,
-  value,
-  onChange,
-  unit,
-  min = 0,
-  max = 500,
-  step = 1,
-  lastValue,
-  placeholder = '—',
-  initialValue,
-  isOpen: controlledIsOpen,
-  onRequestOpen,
-  onRequestClose,
-  itemHeight: itemHeightProp,
-  theme: themeOverrides,
-  renderValue,
-  renderItem,
-  helperText,
-  enableSnapPhysics = true,
-  snapPhysicsConfig,
-  enableHaptics = true,
-  enableAudioFeedback = true,
-  feedbackConfig,
-  wheelSensitivity = 1,
-  wheelDeltaCap = 1.25,
-  visualTweaks,
-  timingPreset,
-  timingConfig,
-}) => {
+const CollapsiblePickerInner = (
+  {
+    label,
+    value,
+    onChange,
+    unit,
+    min = 0,
+    max = 500,
+    step = 1,
+    lastValue,
+    placeholder = '—',
+    initialValue,
+    isOpen: controlledIsOpen,
+    onRequestOpen,
+    onRequestClose,
+    disabled = false,
+    readOnly = false,
+    allowTextEntry = true,
+    columns = 'single',
+    locale,
+    formatOptions,
+    dir,
+    itemHeight: itemHeightProp,
+    theme: themeOverrides,
+    renderValue,
+    renderItem,
+    helperText,
+    enableSnapPhysics = true,
+    snapPhysicsConfig,
+    enableHaptics = true,
+    enableAudioFeedback = true,
+    feedbackConfig,
+    wheelSensitivity = 1,
+    wheelDeltaCap = 1.25,
+    coarseMultiplier,
+    scrub,
+    steppers,
+    stepperLabels,
+    animateExternalChanges,
+    visualTweaks,
+    timingPreset,
+    timingConfig,
+    name,
+    form,
+    required = false,
+    validationMessages,
+  }: CollapsiblePickerProps,
+  ref: React.ForwardedRef<CollapsiblePickerHandle>
+) => {
   const {
     showPicker,
     isControlled,
@@ -76,11 +121,13 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
   });
 
   const theme = useResolvedTheme(themeOverrides);
+  const locked = disabled || readOnly;
 
   const controlId = useId();
   const labelId = useId();
   const helperTextId = useId();
   const pickerWindowId = useId();
+  const valueColumnId = `${pickerWindowId}-value`;
 
   const itemHeightPx = itemHeightProp ?? ITEM_HEIGHT;
   const pickerWindowHeight = itemHeightPx * 5;
@@ -97,8 +144,8 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
 
   const {
     values,
+    valueLabels,
     selectedValue,
-    setSelectedValue,
     selectedIndex,
     totalValues,
     numericValue,
@@ -106,6 +153,7 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
     valueNode,
     maxSampleString,
     cssVariables,
+    decimalPlaces,
   } = useQuickNumberPresentation({
     value,
     lastValue,
@@ -121,6 +169,8 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
     itemHeightPx,
     pickerWindowHeight,
     renderValue,
+    locale,
+    formatOptions,
   });
 
   const { timing, handleVisualValueChange, handleValueChange, playConfirmationIfChanged } =
@@ -130,7 +180,6 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
       feedbackConfig,
       showPicker,
       selectedValue,
-      setSelectedValue,
       onChange,
       timingConfig,
       timingPreset,
@@ -161,7 +210,9 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
     selectedValue,
     timing,
     playConfirmationIfChanged,
+    locked,
   });
+  const direction = useLayoutDirection(wrapperRef, dir);
 
   useEffect(() => {
     if (process.env.NODE_ENV === 'development') {
@@ -180,6 +231,29 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
     }
   }, [isControlled, onRequestClose, onRequestOpen]);
 
+  const columnRef = useRef<PickerColumnHandle>(null);
+
+  // Form reset restores the value the picker was mounted with (an empty picker can't be cleared)
+  const initialValueRef = useRef(value);
+  const handleFormReset = useCallback(() => {
+    if (initialValueRef.current !== undefined) {
+      onChange(initialValueRef.current);
+    }
+  }, [onChange]);
+  const focusSurface = useCallback(() => interactiveRef.current?.focus(), [interactiveRef]);
+
+  useCollapsiblePickerHandle(ref, {
+    showPicker,
+    values,
+    selectedIndex,
+    selectedValue,
+    columnRef,
+    interactiveRef,
+    handlePickerOpen,
+    handlePickerClose,
+    handleValueChange,
+  });
+
   const renderItemRef = useRef<RenderItemFn | undefined>(renderItem);
   useEffect(() => {
     renderItemRef.current = renderItem;
@@ -207,7 +281,53 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
     stateMachine,
     lastValue,
     onChange,
+    locked,
+    direction,
+    coarseMultiplier,
+  });
+
+  const textEntry = useTextEntry({
+    enabled: allowTextEntry && !locked,
+    showPicker,
+    values,
+    selectedValue,
+    min,
+    max,
+    step,
+    unit,
+    handleValueChange,
+    handlePickerClose,
+    interactiveRef,
   });
+  const { handleSurfaceKeyDown } = textEntry;
+
+  // Typed digits start a text edit; everything else keeps the spinbutton key contract
+  const handleSurfaceKeys = useCallback(
+    (event: React.KeyboardEvent<HTMLDivElement>) => {
+      handleSurfaceKeyDown(event);
+      handleKeyDown(event);
+    },
+    [handleKeyDown, handleSurfaceKeyDown]
+  );
+
+  const textEntryProps = useMemo(
+    () => ({
+      isEditing: textEntry.isEditing,
+      draft: textEntry.draft,
+      invalid: textEntry.invalid,
+      onDraftChange: textEntry.handleDraftChange,
+      onInputKeyDown: textEntry.handleInputKeyDown,
+      onInputBlur: textEntry.handleInputBlur,
+    }),
+    [
+      textEntry.isEditing,
+      textEntry.draft,
+      textEntry.invalid,
+      textEntry.handleDraftChange,
+      textEntry.handleInputKeyDown,
+      textEntry.handleInputBlur,
+    ]
+  );
 
   // Wrap onGesture to integrate feedback
   const onGestureWithFeedback: typeof onGesture = useCallback(
@@ -222,15 +342,86 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
         // Direct snaps (keyboard, tap) use regular haptic
         handleVisualValueChange(event.value, { isSettle: true });
       }
+      // Closed-display changes (scrub, steppers) have no close to play the confirmation on
+      if (event.type === 'value:commit' && !showPicker) {
+        playConfirmationIfChanged();
+      }
       // Forward to orchestration
       onGesture(event);
     },
-    [handleVisualValueChange, onGesture]
+    [handleVisualValueChange, onGesture, playConfirmationIfChanged, showPicker]
+  );
+
+  const scrubConfig = typeof scrub === 'object' ? scrub : undefined;
+  const scrubGesture = useScrubGesture({
+    enabled: Boolean(scrub) && !locked,
+    showPicker,
+    values,
+    selectedIndex,
+    pixelsPerStep: scrubConfig?.pixelsPerStep,
+    pointerLock: scrubConfig?.pointerLock,
+    direction,
+    handleValueChange,
+    onGesture: onGestureWithFeedback,
+    openFromPointer: handlePointerDown,
+  });
+
+  const stepEmitter = useMemo(
+    () => createGestureEmitter(onGestureWithFeedback),
+    [onGestureWithFeedback]
+  );
+  const handleStep = useCallback(
+    (delta: number) => {
+      const nextIndex = Math.max(0, Math.min(totalValues - 1, selectedIndex + delta));
+      if (locked || nextIndex === selectedIndex) return;
+      const next = values.at(nextIndex);
+      handleValueChange({ value: next });
+      stepEmitter.visualChange(next, nextIndex);
+      stepEmitter.valueCommit(next, nextIndex);
+    },
+    [handleValueChange, locked, selectedIndex, stepEmitter, totalValues, values]
+  );
+  const stepperProps = useMemo(
+    () =>
+      steppers
+        ? {
+            layout: steppers,
+            onStep: handleStep,
+            canDecrement: !locked && selectedIndex > 0,
+            canIncrement: !locked && selectedIndex < totalValues - 1,
+            label,
+            labels: stepperLabels,
+            coarseMultiplier,
+          }
+        : undefined,
+    [
+      coarseMultiplier,
+      handleStep,
+      label,
+      locked,
+      selectedIndex,
+      stepperLabels,
+      steppers,
+      totalValues,
+    ]
+  );
+
+  const columnLayout = useMemo(
+    () =>
+      buildColumnLayout(columns, {
+        min,
+        max,
+        step,
+        decimalPlaces,
+        decimalSeparator: decimalSeparatorOf(locale, formatOptions),
+      }),
+    [columns, decimalPlaces, formatOptions, locale, max, min, step]
   );
 
   const pickerBodyProps = useMemo(
     () => ({
       values,
+      valueLabels,
       unit,
       renderItem: stableRenderItem,
       hasCustomRenderItem,
@@ -243,9 +434,18 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
       snapConfig: pickerSnapConfig,
       wheelSensitivity,
       wheelDeltaCap,
+      coarseMultiplier,
+      // Split columns have no single value column; the ref handle commits directly instead
+      columnRef: columnLayout ? undefined : columnRef,
+      columnId: columnLayout ? undefined : valueColumnId,
+      animateExternalChanges,
+      columnLayout,
+      direction,
     }),
     [
+      columnLayout,
       values,
+      valueLabels,
       unit,
       stableRenderItem,
       hasCustomRenderItem,
@@ -258,6 +458,10 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
       pickerSnapConfig,
       wheelSensitivity,
       wheelDeltaCap,
+      coarseMultiplier,
+      animateExternalChanges,
+      direction,
+      valueColumnId,
     ]
   );
 
@@ -278,22 +482,38 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
       collapsedHeight,
       pickerWindowHeight,
       pickerTranslate,
+      dir,
     },
     pickerState: {
       showPicker,
       selectedIndex,
       totalValues,
+      disabled,
+      readOnly,
+      scrub: Boolean(scrub),
     },
     aria: {
       min: Number.isFinite(min) ? min : undefined,
       max: Number.isFinite(max) ? max : undefined,
       valueNow: Number.isFinite(numericValue) ? numericValue : undefined,
       valueText: ariaValueText,
+      activeDescendant: columnLayout ? undefined : pickerOptionId(valueColumnId, selectedIndex),
+    },
+    refs: {
+      wrapperRef,
+      interactiveRef,
+      pickerRef,
+      highlightRef,
+      textInputRef: textEntry.inputRef,
     },
-    refs: { wrapperRef, interactiveRef, pickerRef, highlightRef },
     handlers: {
-      onPointerDown: handlePointerDown,
-      onKeyDown: handleKeyDown,
+      // Falls through to handlePointerDown unless a scrub can start
+      onPointerDown: scrubGesture.handlePointerDown,
+      onPointerMoveCapture: scrubGesture.handlePointerMoveCapture,
+      onPointerUpCapture: scrubGesture.handlePointerUpCapture,
+      onPointerCancelCapture: scrubGesture.handlePointerCancelCapture,
+      onKeyDown: handleSurfaceKeys,
+      onDoubleClick: textEntry.handleDoubleClick,
     },
     highlightTapHandlers,
     pickerBodyProps,
@@ -302,13 +522,47 @@ const CollapsiblePicker: React.FC<CollapsiblePickerProps> = ({
       maxSampleString,
       unit,
     },
+    textEntry: textEntryProps,
+    steppers: stepperProps,
     cssVariables,
     theme,
   });
 
-  return <CollapsiblePickerPresenter viewModel={presenterViewModel} />;
+  return (
+    <>
+      <CollapsiblePickerPresenter viewModel={presenterViewModel} />
+      {name && (
+        <FormValueInput
+          name={name}
+          form={form}
+          value={value === undefined ? '' : String(value)}
+          required={required}
+          disabled={disabled}
+          validationMessage={
+            value === undefined ? '' : rangeValidationMessage(value, min, max, validationMessages)
+          }
+          onReset={handleFormReset}
+          focusPicker={focusSurface}
+        />
+      )}
+    </>
+  );
 };
 
+const CollapsiblePickerWheel = forwardRef(CollapsiblePickerInner);
+const CollapsiblePickerNative = forwardRef(NativeCollapsiblePicker);
+
+const CollapsiblePicker = forwardRef<CollapsiblePickerHandle, CollapsiblePickerProps>(
+  function CollapsiblePicker(props, ref) {
+    const native = useNativeFallback(props.fallback);
+    return native ? (
+      <CollapsiblePickerNative ref={ref} {...props} />
+    ) : (
+      <CollapsiblePickerWheel ref={ref} {...props} />
+    );
+  }
+);
+
 // ✅ PERFORMANCE FIX: Wrap in React.memo with deep comparison for config objects
 // Without this, component re-renders when parent updates even if props are equivalent
 // Custom comparison handles object props (snapPhysicsConfig, visualTweaks, theme)
@@ -325,12 +579,24 @@ const CollapsiblePickerMemoized = React.memo(CollapsiblePicker, (prevProps, next
     prevProps.lastValue !== nextProps.lastValue ||
     prevProps.initialValue !== nextProps.initialValue ||
     prevProps.isOpen !== nextProps.isOpen ||
+    prevProps.disabled !== nextProps.disabled ||
+    prevProps.readOnly !== nextProps.readOnly ||
+    prevProps.allowTextEntry !== nextProps.allowTextEntry ||
+    prevProps.columns !== nextProps.columns ||
+    prevProps.locale !== nextProps.locale ||
+    prevProps.dir !== nextProps.dir ||
+    prevProps.fallback !== nextProps.fallback ||
     prevProps.itemHeight !== nextProps.itemHeight ||
+    prevProps.coarseMultiplier !== nextProps.coarseMultiplier ||
+    prevProps.steppers !== nextProps.steppers ||
     prevProps.enableSnapPhysics !== nextProps.enableSnapPhysics ||
     prevProps.enableHaptics !== nextProps.enableHaptics ||
     prevProps.enableAudioFeedback !== nextProps.enableAudioFeedback ||
     prevProps.helperText !== nextProps.helperText ||
-    prevProps.timingPreset !== nextProps.timingPreset
+    prevProps.timingPreset !== nextProps.timingPreset ||
+    prevProps.name !== nextProps.name ||
+    prevProps.form !== nextProps.form ||
+    prevProps.required !== nextProps.required
   ) {
     return false; // Props changed, re-render
   }
@@ -369,6 +635,39 @@ const CollapsiblePickerMemoized = React.memo(CollapsiblePicker, (prevProps, next
     }
   }
 
+  if (prevProps.formatOptions || nextProps.formatOptions) {
+    if (
+      !shallowEqual(
+        prevProps.formatOptions as Record<string, unknown> | undefined,
+        nextProps.formatOptions as Record<string, unknown> | undefined
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (prevProps.validationMessages || nextProps.validationMessages) {
+    if (
+      !shallowEqual(
+        prevProps.validationMessages as Record<string, unknown> | undefined,
+        nextProps.validationMessages as Record<string, unknown> | undefined
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (prevProps.stepperLabels || nextProps.stepperLabels) {
+    if (
+      !shallowEqual(
+        prevProps.stepperLabels as Record<string, unknown> | undefined,
+        nextProps.stepperLabels as Record<string, unknown> | undefined
+      )
+    ) {
+      return false;
+    }
+  }
+
   if (prevProps.theme || nextProps.theme) {
     if (
       !shallowEqual(
@@ -380,6 +679,36 @@ const CollapsiblePickerMemoized = React.memo(CollapsiblePicker, (prevProps, next
     }
   }
 
+  if (prevProps.animateExternalChanges !== nextProps.animateExternalChanges) {
+    const prevAnimate = prevProps.animateExternalChanges;
+    const nextAnimate = nextProps.animateExternalChanges;
+    if (
+      typeof prevAnimate !== 'object' ||
+      typeof nextAnimate !== 'object' ||
+      !shallowEqual(
+        prevAnimate as Record<string, unknown> | undefined,
+        nextAnimate as Record<string, unknown> | undefined
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (prevProps.scrub !== nextProps.scrub) {
+    const prevScrub = prevProps.scrub;
+    const nextScrub = nextProps.scrub;
+    if (
+      typeof prevScrub !== 'object' ||
+      typeof nextScrub !== 'object' ||
+      !shallowEqual(
+        prevScrub as Record<string, unknown> | undefined,
+        nextScrub as Record<string, unknown> | undefined
+      )
+    ) {
+      return false;
+    }
+  }
+
   if (prevProps.timingConfig || nextProps.timingConfig) {
     if (
       !shallowEqual(
@@ -417,6 +746,7 @@ function shallowEqual(
 export default CollapsiblePickerMemoized;
 
 export type {
+  CollapsiblePickerHandle,
   CollapsiblePickerProps,
   CollapsiblePickerRenderItemState,
   CollapsiblePickerTheme,
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerColumns } from '../types';
+
+// Settle springs finish immediately so keyboard steps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function Harness({ columns }: { columns?: CollapsiblePickerColumns }) {
+  const [value, setValue] = useState(82);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      step={0.5}
+      value={value}
+      onChange={setValue}
+      columns={columns}
+    />
+  );
+}
+
+describe('CollapsiblePicker accessibility', () => {
+  it('points the open spinbutton at the selected row', async () => {
+    const { getByTestId } = render(<Harness />);
+    const surface = getByTestId('picker-surface');
+    expect(surface.getAttribute('aria-activedescendant')).toBeNull();
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    const active = document.getElementById(surface.getAttribute('aria-activedescendant') ?? '');
+    expect(active?.getAttribute('role')).toBe('option');
+    expect(active?.getAttribute('aria-selected')).toBe('true');
+    expect(active?.textContent).toContain('82');
+
+    await act(async () => {
+      fireEvent.keyDown(surface, { key: 'ArrowDown' });
+    });
+    const next = document.getElementById(surface.getAttribute('aria-activedescendant') ?? '');
+    expect(next?.textContent).toContain('82.5');
+  });
+
+  it('leaves announcements to the spinbutton instead of a live region', async () => {
+    const { getByTestId, queryByRole } = render(<Harness />);
+
+    await act(async () => {
+      fireEvent.pointerDown(getByTestId('picker-surface'), { pointerType: 'mouse' });
+    });
+    expect(queryByRole('status')).toBeNull();
+  });
+
+  it('has no active row when the value is spread over columns', async () => {
+    const { getByTestId } = render(<Harness columns="split" />);
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    expect(surface.getAttribute('aria-activedescendant')).toBeNull();
+  });
+});
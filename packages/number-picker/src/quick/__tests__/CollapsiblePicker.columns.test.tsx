@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerColumns } from '../types';
+
+// Settle springs finish immediately so keyboard steps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function Harness({
+  initial,
+  columns,
+  onChange,
+}: {
+  initial: number;
+  columns: CollapsiblePickerColumns;
+  onChange: (value: number) => void;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      step={0.5}
+      value={value}
+      columns={columns}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+    />
+  );
+}
+
+const openPicker = async (surface: HTMLElement) => {
+  await act(async () => {
+    fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+  });
+};
+
+const selectedLabel = (column: HTMLElement) =>
+  column.querySelector('[aria-selected="true"]')?.textContent;
+
+describe('CollapsiblePicker columns', () => {
+  it('renders a whole-number and a decimal column for split mode', async () => {
+    const { getByTestId, getByLabelText, container } = render(
+      <Harness initial={82.5} columns="split" onChange={vi.fn()} />
+    );
+    await openPicker(getByTestId('picker-surface'));
+
+    expect(selectedLabel(getByLabelText('Whole number'))).toBe('82');
+    expect(selectedLabel(getByLabelText('Decimal part'))).toBe('5');
+    expect(container.querySelector('.picker-column-separator')).toBeTruthy();
+  });
+
+  it('recombines column changes into the value', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, getByLabelText } = render(
+      <Harness initial={82.5} columns="split" onChange={onChange} />
+    );
+    await openPicker(getByTestId('picker-surface'));
+
+    await act(async () => {
+      fireEvent.keyDown(getByLabelText('Whole number'), { key: 'ArrowDown' });
+    });
+
+    expect(onChange).toHaveBeenLastCalledWith(83.5);
+  });
+
+  it('snaps combinations past max back into the range', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, getByLabelText } = render(
+      <Harness initial={199.5} columns="split" onChange={onChange} />
+    );
+    await openPicker(getByTestId('picker-surface'));
+
+    await act(async () => {
+      fireEvent.keyDown(getByLabelText('Whole number'), { key: 'ArrowDown' });
+    });
+
+    expect(onChange).toHaveBeenLastCalledWith(200);
+    expect(selectedLabel(getByLabelText('Decimal part'))).toBe('0');
+  });
+
+  it('renders one column per digit', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, getByLabelText } = render(
+      <Harness initial={82.5} columns="digits" onChange={onChange} />
+    );
+    await openPicker(getByTestId('picker-surface'));
+
+    expect(selectedLabel(getByLabelText('Digit 1 of 4'))).toBe('0');
+    expect(selectedLabel(getByLabelText('Digit 2 of 4'))).toBe('8');
+
+    await act(async () => {
+      fireEvent.keyDown(getByLabelText('Digit 1 of 4'), { key: 'ArrowDown' });
+    });
+
+    expect(onChange).toHaveBeenLastCalledWith(182.5);
+  });
+});
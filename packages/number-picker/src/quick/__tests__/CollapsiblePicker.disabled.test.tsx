@@ -0,0 +1,74 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+
+describe('CollapsiblePicker disabled / readOnly', () => {
+  const baseProps = {
+    label: 'Weight',
+    unit: 'kg',
+    value: 42,
+    onChange: vi.fn(),
+  } as const;
+
+  it('does not open on pointer, wheel, or keyboard input when disabled', async () => {
+    const onRequestOpen = vi.fn();
+    const { getByTestId } = render(
+      <CollapsiblePicker {...baseProps} onRequestOpen={onRequestOpen} disabled />
+    );
+
+    const surface = getByTestId('picker-surface');
+    expect(surface).toHaveAttribute('aria-disabled', 'true');
+    expect(surface).toHaveAttribute('tabindex', '-1');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+      fireEvent.wheel(getByTestId('qni-wrapper'), { deltaY: 120 });
+      fireEvent.keyDown(surface, { key: 'Enter' });
+      fireEvent.keyDown(surface, { key: 'ArrowDown' });
+    });
+
+    expect(surface.getAttribute('data-state')).toBe('closed');
+    expect(onRequestOpen).not.toHaveBeenCalled();
+    expect(baseProps.onChange).not.toHaveBeenCalled();
+  });
+
+  it('stays focusable but closed when readOnly', async () => {
+    const { getByTestId } = render(<CollapsiblePicker {...baseProps} readOnly />);
+
+    const surface = getByTestId('picker-surface');
+    expect(surface).toHaveAttribute('aria-readonly', 'true');
+    expect(surface).toHaveAttribute('tabindex', '0');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'touch' });
+      fireEvent.keyDown(surface, { key: ' ' });
+    });
+
+    expect(surface.getAttribute('data-state')).toBe('closed');
+  });
+
+  it('closes an open picker when it becomes disabled', async () => {
+    const { getByTestId, rerender } = render(<CollapsiblePicker {...baseProps} />);
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    expect(surface.getAttribute('data-state')).toBe('open');
+
+    await act(async () => {
+      rerender(<CollapsiblePicker {...baseProps} disabled />);
+    });
+    expect(surface.getAttribute('data-state')).toBe('closed');
+  });
+
+  it('applies the dimmed theme tokens when disabled', () => {
+    const { container } = render(
+      <CollapsiblePicker {...baseProps} disabled theme={{ disabledOpacity: '0.3' }} />
+    );
+
+    const root = container.querySelector('.quick-number-input-root') as HTMLElement;
+    expect(root).toHaveAttribute('data-disabled', 'true');
+    expect(root.style.opacity).toBe('0.3');
+  });
+});
@@ -0,0 +1,124 @@
+import { act, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+
+const formOf = (container: HTMLElement) => container.querySelector('form') as HTMLFormElement;
+// Stable across rerenders, so only the prop under test changes
+const ignoreChange = () => {};
+const messagesForm = (unit: string) => (
+  <form>
+    <CollapsiblePicker
+      name="weight"
+      label="Weight"
+      unit="kg"
+      value={720}
+      max={500}
+      onChange={ignoreChange}
+      validationMessages={{ outOfRange: (min, max) => `${min}–${max} ${unit} only` }}
+    />
+  </form>
+);
+
+describe('CollapsiblePicker form integration', () => {
+  it('submits the value and checks it against min/max', () => {
+    const { container, rerender } = render(
+      <form>
+        <CollapsiblePicker name="weight" label="Weight" unit="kg" value={72} onChange={() => {}} />
+      </form>
+    );
+
+    expect(new FormData(formOf(container)).get('weight')).toBe('72');
+    expect(formOf(container).checkValidity()).toBe(true);
+
+    rerender(
+      <form>
+        <CollapsiblePicker
+          name="weight"
+          label="Weight"
+          unit="kg"
+          value={720}
+          max={500}
+          onChange={() => {}}
+        />
+      </form>
+    );
+    expect(formOf(container).checkValidity()).toBe(false);
+  });
+
+  it('reports consumer messages and focuses the surface for them', () => {
+    const { container, getByTestId, rerender } = render(messagesForm('kg'));
+    const input = container.querySelector('input[name="weight"]') as HTMLInputElement;
+    expect(input.validationMessage).toBe('0–500 kg only');
+
+    // New messages alone re-render the memoized picker
+    rerender(messagesForm('Kilo'));
+    expect(input.validationMessage).toBe('0–500 Kilo only');
+
+    act(() => input.focus());
+    expect(document.activeElement).toBe(getByTestId('picker-surface'));
+  });
+
+  it('is missing while empty and required', () => {
+    const { container } = render(
+      <form>
+        <CollapsiblePicker
+          name="weight"
+          label="Weight"
+          unit="kg"
+          value={undefined}
+          required
+          onChange={() => {}}
+        />
+      </form>
+    );
+
+    expect(new FormData(formOf(container)).get('weight')).toBe('');
+    expect(formOf(container).checkValidity()).toBe(false);
+  });
+
+  it('restores the initial value when the form is reset', () => {
+    const onChange = vi.fn();
+    const renderForm = (weight: number) => (
+      <form>
+        <CollapsiblePicker
+          name="weight"
+          label="Weight"
+          unit="kg"
+          value={weight}
+          onChange={onChange}
+        />
+      </form>
+    );
+
+    const { container, rerender } = render(renderForm(72));
+    rerender(renderForm(80));
+    expect(new FormData(formOf(container)).get('weight')).toBe('80');
+
+    act(() => formOf(container).reset());
+
+    expect(onChange).toHaveBeenLastCalledWith(72);
+  });
+
+  it('stops listening for resets once unmounted', () => {
+    const onChange = vi.fn();
+    const renderForm = (showPicker: boolean) => (
+      <form>
+        {showPicker && (
+          <CollapsiblePicker
+            name="weight"
+            label="Weight"
+            unit="kg"
+            value={72}
+            onChange={onChange}
+          />
+        )}
+      </form>
+    );
+
+    const { container, rerender } = render(renderForm(true));
+    rerender(renderForm(false));
+    act(() => formOf(container).reset());
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
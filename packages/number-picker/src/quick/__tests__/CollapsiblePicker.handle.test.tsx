@@ -0,0 +1,71 @@
+import { createRef } from 'react';
+import { act, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerHandle } from '../types';
+
+const renderPicker = () => {
+  const ref = createRef<CollapsiblePickerHandle>();
+  const onChange = vi.fn();
+  const utils = render(
+    <CollapsiblePicker ref={ref} label="Weight" unit="kg" value={42} onChange={onChange} />
+  );
+  return { ...utils, ref, onChange };
+};
+
+describe('CollapsiblePicker imperative handle', () => {
+  it('commits values directly while closed', () => {
+    const { ref, onChange } = renderPicker();
+
+    act(() => ref.current?.scrollToValue(60));
+    expect(onChange).toHaveBeenLastCalledWith(60);
+
+    act(() => ref.current?.scrollByItems(-2));
+    expect(onChange).toHaveBeenLastCalledWith(40);
+    expect(ref.current?.getVisualValue()).toBe(42);
+  });
+
+  it('opens and closes the picker', async () => {
+    const { ref, getByTestId } = renderPicker();
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => ref.current?.open());
+    expect(surface.getAttribute('data-state')).toBe('open');
+
+    await act(async () => ref.current?.close());
+    expect(surface.getAttribute('data-state')).toBe('closed');
+  });
+
+  it('moves focus to the interactive surface', () => {
+    const { ref, getByTestId } = renderPicker();
+
+    act(() => ref.current?.focus());
+
+    expect(document.activeElement).toBe(getByTestId('picker-surface'));
+  });
+
+  it('reads a ten-million-row range lazily', async () => {
+    const ref = createRef<CollapsiblePickerHandle>();
+    const onChange = vi.fn();
+    const { getAllByRole } = render(
+      <CollapsiblePicker
+        ref={ref}
+        label="Amount"
+        unit="kg"
+        min={0}
+        max={100000}
+        step={0.01}
+        value={12.5}
+        onChange={onChange}
+      />
+    );
+
+    act(() => ref.current?.scrollByItems(3));
+    expect(onChange).toHaveBeenLastCalledWith(12.53);
+    act(() => ref.current?.scrollToValue(99999.99));
+    expect(onChange).toHaveBeenLastCalledWith(99999.99);
+
+    await act(async () => ref.current?.open());
+    expect(getAllByRole('option').length).toBeLessThanOrEqual(11);
+  });
+});
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerColumns } from '../types';
+
+// Settle springs finish immediately so keyboard steps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function Harness({
+  initial,
+  onChange,
+  ...formatProps
+}: {
+  initial: number;
+  onChange?: (value: number) => void;
+  locale?: string;
+  formatOptions?: Intl.NumberFormatOptions;
+  columns?: CollapsiblePickerColumns;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={2000}
+      step={0.5}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+      {...formatProps}
+    />
+  );
+}
+
+describe('CollapsiblePicker locale formatting', () => {
+  it('shows the closed value and aria-valuetext with the locale separators', () => {
+    const { getByTestId } = render(<Harness initial={1234.5} locale="de-DE" />);
+
+    expect(getByTestId('quick-number-display').textContent).toBe('1.234,5');
+    expect(getByTestId('picker-surface').getAttribute('aria-valuetext')).toBe('1.234,5 kg');
+  });
+
+  it('labels rows for the locale and still reports numbers', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, getAllByRole } = render(
+      <Harness initial={82.5} locale="fr-FR" onChange={onChange} />
+    );
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    const selected = getAllByRole('option').find(
+      (option) => option.getAttribute('aria-selected') === 'true'
+    );
+    expect(selected?.textContent).toContain('82,5');
+
+    await act(async () => {
+      fireEvent.keyDown(surface, { key: 'ArrowDown' });
+    });
+    expect(onChange).toHaveBeenLastCalledWith(83);
+    expect(surface.getAttribute('aria-valuetext')).toBe('83 kg');
+  });
+
+  it('pads fraction digits from formatOptions', () => {
+    const { getByTestId } = render(
+      <Harness initial={82} locale="en-US" formatOptions={{ minimumFractionDigits: 2 }} />
+    );
+
+    expect(getByTestId('quick-number-display').textContent).toBe('82.00');
+  });
+
+  it('separates split columns with the locale decimal separator', async () => {
+    const { getByTestId, container } = render(
+      <Harness initial={82.5} locale="de-DE" columns="split" />
+    );
+
+    await act(async () => {
+      fireEvent.pointerDown(getByTestId('picker-surface'), { pointerType: 'mouse' });
+    });
+    expect(container.querySelector('.picker-column-separator')?.textContent).toBe(',');
+  });
+});
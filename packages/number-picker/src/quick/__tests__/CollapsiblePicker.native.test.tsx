@@ -0,0 +1,87 @@
+import { createRef, useState } from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerHandle } from '../types';
+
+function Harness({ onChange }: { onChange: (value: number) => void }) {
+  const [value, setValue] = useState<number | undefined>(70);
+  return (
+    <form>
+      <CollapsiblePicker
+        fallback="native"
+        label="Weight"
+        unit="kg"
+        helperText="Morning weigh-in"
+        name="weight"
+        value={value}
+        onChange={(next) => {
+          setValue(next);
+          onChange(next);
+        }}
+        min={40}
+        max={200}
+        step={0.5}
+      />
+    </form>
+  );
+}
+
+describe('CollapsiblePicker native fallback', () => {
+  it('renders a labelled number input with the range, unit, and helper text', () => {
+    render(<Harness onChange={() => {}} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Weight' }) as HTMLInputElement;
+    expect(input.value).toBe('70');
+    expect(input.min).toBe('40');
+    expect(input.max).toBe('200');
+    expect(input.step).toBe('0.5');
+    expect(screen.getByText('kg')).toBeTruthy();
+    expect(document.getElementById(input.getAttribute('aria-describedby') ?? '')?.textContent).toBe(
+      'Morning weigh-in'
+    );
+    expect(screen.queryByRole('listbox')).toBeNull();
+  });
+
+  it('commits values on the range and keeps the form field in sync', () => {
+    const onChange = vi.fn();
+    const { container } = render(<Harness onChange={onChange} />);
+    const input = screen.getByRole('spinbutton', { name: 'Weight' });
+
+    fireEvent.change(input, { target: { value: '70.3' } });
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: '71.5' } });
+    expect(onChange).toHaveBeenCalledWith(71.5);
+    const form = container.querySelector('form') as HTMLFormElement;
+    expect(new FormData(form).get('weight')).toBe('71.5');
+
+    // Leaving a half-typed value shows the committed one again
+    fireEvent.change(input, { target: { value: '7' } });
+    fireEvent.blur(input);
+    expect((input as HTMLInputElement).value).toBe('71.5');
+  });
+
+  it('snaps handle scrolls to the step', () => {
+    const ref = createRef<CollapsiblePickerHandle>();
+    const onChange = vi.fn();
+    render(
+      <CollapsiblePicker
+        ref={ref}
+        fallback="native"
+        label="Reps"
+        unit=""
+        value={10}
+        onChange={onChange}
+        min={0}
+        max={20}
+        step={2}
+      />
+    );
+
+    act(() => ref.current?.scrollToValue(7.2));
+    expect(onChange).toHaveBeenLastCalledWith(8);
+    act(() => ref.current?.scrollByItems(-2));
+    expect(onChange).toHaveBeenLastCalledWith(6);
+  });
+});
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+
+// Settle springs finish immediately so keyboard steps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function Harness({
+  coarseMultiplier,
+  onChange,
+}: {
+  coarseMultiplier?: number;
+  onChange: (value: number) => void;
+}) {
+  const [value, setValue] = useState(80);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      step={0.5}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+      coarseMultiplier={coarseMultiplier}
+    />
+  );
+}
+
+const press = async (surface: HTMLElement, init: KeyboardEventInit) => {
+  await act(async () => {
+    fireEvent.keyDown(surface, { key: 'ArrowDown', ...init });
+  });
+};
+
+describe('CollapsiblePicker precision modifiers', () => {
+  it('steps coarsely with Shift and by one value with Alt', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<Harness onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    // The first arrow opens the picker
+    await press(surface, {});
+    expect(surface.getAttribute('data-state')).toBe('open');
+
+    await press(surface, { shiftKey: true });
+    expect(onChange).toHaveBeenLastCalledWith(85);
+
+    await press(surface, { key: 'ArrowUp', shiftKey: true, altKey: true });
+    expect(onChange).toHaveBeenLastCalledWith(84.5);
+  });
+
+  it('takes the coarse step from coarseMultiplier', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<Harness coarseMultiplier={4} onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    await press(surface, {});
+    await press(surface, { key: 'ArrowUp', shiftKey: true });
+    expect(onChange).toHaveBeenLastCalledWith(78);
+  });
+});
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { MotionValue } from 'framer-motion';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerColumns } from '../types';
+import type { PickerDirection } from '../../picker/types/direction';
+
+// Settle springs finish immediately so keyboard steps commit synchronously
+vi.mock('framer-motion', async () => {
+  const actual = await vi.importActual('framer-motion');
+  return {
+    ...actual,
+    animate: (
+      motionValue: MotionValue<number>,
+      to: number,
+      config?: { onComplete?: () => void }
+    ) => {
+      motionValue.set(to);
+      config?.onComplete?.();
+      return { stop: () => {} };
+    },
+  };
+});
+
+function Harness({
+  initial,
+  onChange,
+  ...layoutProps
+}: {
+  initial: number;
+  onChange?: (value: number) => void;
+  dir?: PickerDirection;
+  columns?: CollapsiblePickerColumns;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      step={0.5}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+      {...layoutProps}
+    />
+  );
+}
+
+describe('CollapsiblePicker right-to-left', () => {
+  it('steps forward with ArrowLeft and back with ArrowRight', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<Harness initial={82} dir="rtl" onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    await act(async () => {
+      fireEvent.keyDown(surface, { key: 'ArrowLeft' });
+    });
+    expect(onChange).toHaveBeenLastCalledWith(82.5);
+
+    await act(async () => {
+      fireEvent.keyDown(surface, { key: 'ArrowRight' });
+    });
+    expect(onChange).toHaveBeenLastCalledWith(82);
+  });
+
+  it('follows the direction of the surrounding page', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(
+      <div dir="rtl">
+        <Harness initial={82} onChange={onChange} />
+      </div>
+    );
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    await act(async () => {
+      fireEvent.keyDown(surface, { key: 'ArrowLeft' });
+    });
+    expect(onChange).toHaveBeenLastCalledWith(82.5);
+  });
+
+  it('keeps split digits left to right and leads with the unit', async () => {
+    const { getByTestId, container } = render(<Harness initial={82.5} dir="rtl" columns="split" />);
+
+    await act(async () => {
+      fireEvent.pointerDown(getByTestId('picker-surface'), { pointerType: 'mouse' });
+    });
+    const group = container.querySelector('[data-columns="split"]') as HTMLElement;
+    expect(group.getAttribute('dir')).toBe('ltr');
+    expect(group.firstElementChild?.classList.contains('picker-column-unit-leading')).toBe(true);
+    expect(group.lastElementChild?.classList.contains('picker-column-unit')).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { CollapsiblePickerScrubConfig } from '../types';
+
+function Harness({
+  scrub = true,
+  onChange,
+  haptics,
+}: {
+  scrub?: boolean | CollapsiblePickerScrubConfig;
+  onChange?: (value: number) => void;
+  haptics?: { trigger: (isSettle?: boolean) => void; cleanup: () => void };
+}) {
+  const [value, setValue] = useState(70);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+      scrub={scrub}
+      enableAudioFeedback={false}
+      feedbackConfig={haptics ? { adapters: { haptics } } : undefined}
+    />
+  );
+}
+
+const pointer = (type: 'Down' | 'Move' | 'Up', x: number, y = 100) => ({
+  type,
+  init: { pointerId: 1, pointerType: 'mouse', button: 0, clientX: x, clientY: y },
+});
+
+async function gesture(surface: HTMLElement, steps: ReturnType<typeof pointer>[]) {
+  await act(async () => {
+    for (const { type, init } of steps) {
+      fireEvent[`pointer${type}`](surface, init);
+    }
+  });
+}
+
+describe('CollapsiblePicker scrub-to-adjust', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('steps the value on horizontal drags without opening', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<Harness onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    await gesture(surface, [pointer('Down', 100), pointer('Move', 124)]);
+    expect(onChange).toHaveBeenLastCalledWith(73);
+
+    await gesture(surface, [pointer('Move', 84), pointer('Up', 84)]);
+    expect(onChange).toHaveBeenLastCalledWith(68);
+    expect(surface.getAttribute('data-state')).toBe('closed');
+    expect(surface.getAttribute('aria-valuenow')).toBe('68');
+  });
+
+  it('takes the step distance from pixelsPerStep', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<Harness scrub={{ pixelsPerStep: 20 }} onChange={onChange} />);
+
+    await gesture(getByTestId('picker-surface'), [
+      pointer('Down', 100),
+      pointer('Move', 150),
+      pointer('Up', 150),
+    ]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith(72);
+  });
+
+  it('opens on release of a tap and on vertical drags', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, unmount } = render(<Harness onChange={onChange} />);
+    let surface = getByTestId('picker-surface');
+
+    await gesture(surface, [pointer('Down', 100)]);
+    expect(surface.getAttribute('data-state')).toBe('closed');
+    await gesture(surface, [pointer('Up', 101)]);
+    expect(surface.getAttribute('data-state')).toBe('open');
+    unmount();
+
+    surface = render(<Harness onChange={onChange} />).getByTestId('picker-surface');
+    await gesture(surface, [pointer('Down', 100, 100), pointer('Move', 102, 110)]);
+    expect(surface.getAttribute('data-state')).toBe('open');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('plays step haptics and locks the mouse pointer while scrubbing', async () => {
+    const haptics = { trigger: vi.fn(), cleanup: vi.fn() };
+    const requestPointerLock = vi.fn(function (this: Element) {
+      Object.defineProperty(document, 'pointerLockElement', {
+        configurable: true,
+        value: this,
+      });
+      return Promise.resolve();
+    });
+    const exitPointerLock = vi.fn();
+    Object.defineProperty(document, 'exitPointerLock', {
+      configurable: true,
+      value: exitPointerLock,
+    });
+
+    try {
+      const { getByTestId } = render(<Harness haptics={haptics} />);
+      // Feedback adapters load asynchronously
+      await act(async () => {});
+      const surface = getByTestId('picker-surface');
+      surface.requestPointerLock = requestPointerLock;
+
+      await gesture(surface, [pointer('Down', 100), pointer('Move', 116)]);
+      expect(requestPointerLock).toHaveBeenCalledTimes(1);
+      expect(haptics.trigger).toHaveBeenCalledTimes(1);
+
+      // Locked pointers report relative movement only
+      await act(async () => {
+        fireEvent.pointerMove(surface, { pointerId: 1, pointerType: 'mouse', clientX: 116 });
+      });
+      await gesture(surface, [pointer('Up', 116)]);
+      expect(exitPointerLock).toHaveBeenCalledTimes(1);
+      expect(surface.getAttribute('aria-valuenow')).toBe('72');
+    } finally {
+      delete (document as { exitPointerLock?: unknown }).exitPointerLock;
+      delete (document as { pointerLockElement?: unknown }).pointerLockElement;
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import type { PickerSteppers } from '../../picker/types/steppers';
+
+// One tick per act, so each repeat sees the value the previous one rendered
+const tick = (ms: number) =>
+  act(() => {
+    vi.advanceTimersByTime(ms);
+  });
+
+function Harness({
+  initial = 70,
+  steppers = 'flanking',
+  onChange,
+  haptics,
+}: {
+  initial?: number;
+  steppers?: PickerSteppers;
+  onChange?: (value: number) => void;
+  haptics?: { trigger: (isSettle?: boolean) => void; cleanup: () => void };
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <CollapsiblePicker
+      label="Weight"
+      unit="kg"
+      min={0}
+      max={200}
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+      steppers={steppers}
+      enableAudioFeedback={false}
+      feedbackConfig={haptics ? { adapters: { haptics } } : undefined}
+    />
+  );
+}
+
+describe('CollapsiblePicker stepper buttons', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('labels the buttons and points them at the spinbutton', () => {
+    const { getByRole, getByTestId } = render(<Harness steppers="inline" />);
+    const increase = getByRole('button', { name: 'Increase Weight' });
+    const decrease = getByRole('button', { name: 'Decrease Weight' });
+
+    const surfaceId = getByTestId('picker-surface').id;
+    expect(increase.getAttribute('aria-controls')).toBe(surfaceId);
+    expect(decrease.getAttribute('aria-controls')).toBe(surfaceId);
+  });
+
+  it('steps on keyboard activation with haptics and stays closed', async () => {
+    const onChange = vi.fn();
+    const haptics = { trigger: vi.fn(), cleanup: vi.fn() };
+    const { getByRole, getByTestId } = render(<Harness onChange={onChange} haptics={haptics} />);
+    // Feedback adapters load asynchronously
+    await act(async () => {
+      await vi.dynamicImportSettled();
+    });
+
+    // Enter/Space on a button dispatch a click without a pointer press
+    fireEvent.click(getByRole('button', { name: 'Increase Weight' }));
+    expect(onChange).toHaveBeenLastCalledWith(71);
+    fireEvent.click(getByRole('button', { name: 'Decrease Weight' }), { shiftKey: true });
+    expect(onChange).toHaveBeenLastCalledWith(61);
+
+    expect(haptics.trigger).toHaveBeenCalledTimes(2);
+    const surface = getByTestId('picker-surface');
+    expect(surface.getAttribute('data-state')).toBe('closed');
+    expect(surface.getAttribute('aria-valuenow')).toBe('61');
+  });
+
+  it('repeats and accelerates while held, until released', () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    const { getByRole } = render(<Harness onChange={onChange} />);
+    const increase = getByRole('button', { name: 'Increase Weight' });
+
+    fireEvent.pointerDown(increase, { button: 0, pointerType: 'mouse' });
+    expect(onChange).toHaveBeenLastCalledWith(71);
+
+    tick(400);
+    expect(onChange).toHaveBeenLastCalledWith(72);
+    tick(80);
+    expect(onChange).toHaveBeenLastCalledWith(73);
+
+    // Held past 500ms, each repeat covers two rows
+    tick(80);
+    expect(onChange).toHaveBeenLastCalledWith(75);
+
+    fireEvent.pointerUp(window);
+    tick(1000);
+    expect(onChange).toHaveBeenCalledTimes(4);
+  });
+
+  it('disables the button at the end of the range', () => {
+    const onChange = vi.fn();
+    const { getByRole } = render(<Harness initial={199} onChange={onChange} />);
+    const increase = getByRole('button', { name: 'Increase Weight' });
+
+    fireEvent.click(increase);
+    expect(onChange).toHaveBeenLastCalledWith(200);
+    expect(increase).toHaveProperty('disabled', true);
+    expect(getByRole('button', { name: 'Decrease Weight' })).toHaveProperty('disabled', false);
+  });
+});
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import CollapsiblePicker from '../CollapsiblePicker';
+import { nearestStepIndex, parseEnteredValue } from '../utils';
+
+const startTyping = async (surface: HTMLElement, key: string) => {
+  await act(async () => {
+    fireEvent.keyDown(surface, { key });
+  });
+};
+
+describe('parseEnteredValue', () => {
+  it('reads plain, comma-decimal and unit-suffixed numbers', () => {
+    expect(parseEnteredValue('82.5')).toBe(82.5);
+    expect(parseEnteredValue(' 82,5 ')).toBe(82.5);
+    expect(parseEnteredValue('82.5 kg', 'kg')).toBe(82.5);
+    expect(parseEnteredValue('82.5KG', 'kg')).toBe(82.5);
+    expect(parseEnteredValue('-.5')).toBe(-0.5);
+  });
+
+  it('rejects anything that is not a plain number', () => {
+    expect(parseEnteredValue('')).toBeNull();
+    expect(parseEnteredValue('abc')).toBeNull();
+    expect(parseEnteredValue('1e3')).toBeNull();
+    expect(parseEnteredValue('1,000.5')).toBeNull();
+    expect(parseEnteredValue('82.5 lb', 'kg')).toBeNull();
+  });
+
+  it('snaps to the nearest step within the row count', () => {
+    expect(nearestStepIndex(82.6, { min: 0, step: 0.5, count: 1001 })).toBe(165);
+    expect(nearestStepIndex(82.8, { min: 0, step: 0.5, count: 1001 })).toBe(166);
+    expect(nearestStepIndex(900, { min: 0, step: 0.5, count: 1001 })).toBe(1000);
+  });
+});
+
+describe('CollapsiblePicker text entry', () => {
+  const baseProps = {
+    label: 'Weight',
+    unit: 'kg',
+    min: 0,
+    max: 200,
+    step: 0.5,
+    value: 70,
+  } as const;
+
+  it('turns the closed display into an input when a digit is typed', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<CollapsiblePicker {...baseProps} onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    await startTyping(surface, '8');
+
+    const input = getByTestId('qni-text-input') as HTMLInputElement;
+    expect(input.value).toBe('8');
+    expect(document.activeElement).toBe(input);
+    expect(surface.getAttribute('data-state')).toBe('closed');
+
+    await act(async () => {
+      fireEvent.change(input, { target: { value: '82.5 kg' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(onChange).toHaveBeenCalledWith(82.5);
+    expect(document.activeElement).toBe(surface);
+  });
+
+  it('snaps typed values to the nearest step', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<CollapsiblePicker {...baseProps} onChange={onChange} />);
+
+    await startTyping(getByTestId('picker-surface'), '8');
+    const input = getByTestId('qni-text-input');
+    await act(async () => {
+      fireEvent.change(input, { target: { value: '82,7' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(onChange).toHaveBeenCalledWith(82.5);
+  });
+
+  it('keeps out-of-range text in the input and marks it invalid', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<CollapsiblePicker {...baseProps} onChange={onChange} />);
+
+    await startTyping(getByTestId('picker-surface'), '9');
+    const input = getByTestId('qni-text-input');
+    await act(async () => {
+      fireEvent.change(input, { target: { value: '950' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('reverts on Escape without changing the value', async () => {
+    const onChange = vi.fn();
+    const { getByTestId, queryByTestId } = render(
+      <CollapsiblePicker {...baseProps} onChange={onChange} />
+    );
+
+    await startTyping(getByTestId('picker-surface'), '5');
+    await act(async () => {
+      fireEvent.keyDown(getByTestId('qni-text-input'), { key: 'Escape' });
+    });
+
+    expect(queryByTestId('qni-text-input')).toBeNull();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('starts editing the current value on double-click and closes the wheel', async () => {
+    const onChange = vi.fn();
+    const { getByTestId } = render(<CollapsiblePicker {...baseProps} onChange={onChange} />);
+    const surface = getByTestId('picker-surface');
+
+    await act(async () => {
+      fireEvent.pointerDown(surface, { pointerType: 'mouse' });
+    });
+    expect(surface.getAttribute('data-state')).toBe('open');
+
+    await act(async () => {
+      fireEvent.doubleClick(surface);
+    });
+
+    const input = getByTestId('qni-text-input') as HTMLInputElement;
+    expect(input.value).toBe('70');
+    expect(surface.getAttribute('data-state')).toBe('closed');
+  });
+
+  it('updates an open wheel with the committed value', async () => {
+    const onChange = vi.fn();
+    const Harness = () => {
+      const [value, setValue] = useState(70);
+      return (
+        <CollapsiblePicker
+          {...baseProps}
+          value={value}
+          onChange={(next) => {
+            onChange(next);
+            setValue(next);
+          }}
+          isOpen
+          onRequestClose={vi.fn()}
+        />
+      );
+    };
+    const { getByTestId } = render(<Harness />);
+    const surface = getByTestId('picker-surface');
+
+    await startTyping(surface, '7');
+    const input = getByTestId('qni-text-input');
+    await act(async () => {
+      fireEvent.change(input, { target: { value: '71' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(onChange).toHaveBeenCalledWith(71);
+    expect(surface).toHaveAttribute('aria-valuenow', '71');
+    const selected = getByTestId('picker-window').querySelector('[aria-selected="true"]');
+    expect(selected?.textContent).toContain('71');
+  });
+
+  it('ignores typing when text entry is off or the picker is read-only', async () => {
+    const { getByTestId, queryByTestId, rerender } = render(
+      <CollapsiblePicker {...baseProps} onChange={vi.fn()} allowTextEntry={false} />
+    );
+
+    await startTyping(getByTestId('picker-surface'), '8');
+    expect(queryByTestId('qni-text-input')).toBeNull();
+
+    rerender(<CollapsiblePicker {...baseProps} onChange={vi.fn()} readOnly />);
+    await startTyping(getByTestId('picker-surface'), '8');
+    expect(queryByTestId('qni-text-input')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildColumnLayout, joinColumnValue, splitColumnValue } from '../columnLayout';
+
+describe('buildColumnLayout', () => {
+  it('splits a decimal range into whole-number and decimal columns', () => {
+    const layout = buildColumnLayout('split', { min: 0, max: 500, step: 0.1, decimalPlaces: 1 });
+
+    expect(layout?.columns.map((column) => column.key)).toEqual(['integer', 'fraction']);
+    expect(layout?.columns[0].values).toHaveLength(501);
+    expect(layout?.columns[1].values).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']);
+    expect(layout?.fractionStart).toBe(1);
+  });
+
+  it('only lists the fractions the step can reach, padded to the decimal places', () => {
+    const layout = buildColumnLayout('split', { min: 0, max: 10, step: 0.25, decimalPlaces: 2 });
+    const fraction = layout?.columns[1];
+
+    expect(fraction?.values).toEqual(['0', '25', '50', '75']);
+    expect(fraction?.labels.get('0')).toBe('00');
+  });
+
+  it('builds one column per digit', () => {
+    const layout = buildColumnLayout('digits', { min: 0, max: 500, step: 0.5, decimalPlaces: 1 });
+
+    expect(layout?.columns).toHaveLength(4);
+    expect(layout?.columns[0].values).toEqual(['0', '1', '2', '3', '4', '5']);
+    expect(layout?.columns[3].values).toEqual(['0', '5']);
+    expect(layout?.fractionStart).toBe(3);
+  });
+
+  it('falls back to a single column for single mode and negative ranges', () => {
+    expect(buildColumnLayout('single', { min: 0, max: 10, step: 1, decimalPlaces: 0 })).toBeNull();
+    expect(buildColumnLayout('split', { min: -5, max: 5, step: 0.5, decimalPlaces: 1 })).toBeNull();
+  });
+});
+
+describe('splitColumnValue / joinColumnValue', () => {
+  it('round-trips values through the columns', () => {
+    const split = buildColumnLayout('split', { min: 0, max: 500, step: 0.1, decimalPlaces: 1 })!;
+    const digits = buildColumnLayout('digits', { min: 0, max: 500, step: 0.1, decimalPlaces: 1 })!;
+
+    expect(splitColumnValue(split, '82.5')).toEqual({ integer: '82', fraction: '5' });
+    expect(joinColumnValue(split, { integer: '82', fraction: '5' })).toBe(82.5);
+    expect(splitColumnValue(digits, '82.5')).toEqual({
+      'digit-0': '0',
+      'digit-1': '8',
+      'digit-2': '2',
+      'digit-3': '5',
+    });
+    expect(joinColumnValue(digits, splitColumnValue(digits, '407.3'))).toBe(407.3);
+  });
+});
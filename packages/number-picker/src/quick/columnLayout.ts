@@ -0,0 +1,159 @@
+import type { CollapsiblePickerColumns } from './types';
+
+/**
+ * One wheel of a multi-column CollapsiblePicker. A column shows the part of the value that
+ * sits at `weight` (in step-scaled integer units), wrapped by `modulus` when it is a digit.
+ */
+export interface ValueColumn {
+  key: string;
+  ariaLabel: string;
+  weight: number;
+  modulus: number;
+  /** Row values (the part as a string) that occur somewhere in the range */
+  values: string[];
+  /** Row labels by row value */
+  labels: Map<string, string>;
+}
+
+/**
+ * How a numeric range is split across columns, plus what's needed to snap a recombined value
+ * back onto the range.
+ */
+export interface ColumnLayout {
+  mode: Exclude<CollapsiblePickerColumns, 'single'>;
+  columns: ValueColumn[];
+  /** Index of the first column after the decimal point; -1 when there is none */
+  fractionStart: number;
+  /** 10^decimalPlaces: values are handled as integers in this unit */
+  scale: number;
+  min: number;
+  step: number;
+  /** Shown between the whole and fraction columns */
+  decimalSeparator: string;
+}
+
+interface ColumnLayoutOptions {
+  min: number;
+  max: number;
+  step: number;
+  decimalPlaces: number;
+  /** Decimal separator of the display locale (default `.`) */
+  decimalSeparator?: string;
+}
+
+const partOf = (scaled: number, column: Pick<ValueColumn, 'weight' | 'modulus'>) =>
+  Math.floor(scaled / column.weight) % column.modulus;
+
+/**
+ * Builds the column layout for `columns="split"` (integer + fraction) or `columns="digits"`
+ * (one column per digit). Each column only lists parts that occur in the range, so a 0.5
+ * step gets a two-row fraction column.
+ * @param {CollapsiblePickerColumns} mode
+ * @param {object} range - `min`, `max`, `step` and the decimal places from `useFormattedValues`
+ * @returns {ColumnLayout | null} - `null` for `single`, negative ranges, or an unusable step
+ */
+export const buildColumnLayout = (
+  mode: CollapsiblePickerColumns,
+  { min, max, step, decimalPlaces, decimalSeparator = '.' }: ColumnLayoutOptions
+): ColumnLayout | null => {
+  if (mode === 'single' || !(step > 0) || min < 0 || !Number.isFinite(max) || max < min) {
+    return null;
+  }
+
+  const scale = 10 ** decimalPlaces;
+  const scaledMin = Math.round(min * scale);
+  const scaledStep = Math.round(step * scale);
+  const count = Math.floor((Math.round(max * scale) - scaledMin) / scaledStep) + 1;
+  const scaledLast = scaledMin + (count - 1) * scaledStep;
+
+  const shapes: Array<Omit<ValueColumn, 'values' | 'labels'> & { pad: number }> = [];
+  if (mode === 'split') {
+    shapes.push({
+      key: 'integer',
+      ariaLabel: 'Whole number',
+      weight: scale,
+      modulus: Infinity,
+      pad: 0,
+    });
+    if (decimalPlaces > 0) {
+      shapes.push({
+        key: 'fraction',
+        ariaLabel: 'Decimal part',
+        weight: 1,
+        modulus: scale,
+        pad: decimalPlaces,
+      });
+    }
+  } else {
+    const integerDigits = String(Math.floor(scaledLast / scale)).length;
+    const totalDigits = integerDigits + decimalPlaces;
+    for (let position = 0; position < totalDigits; position += 1) {
+      shapes.push({
+        key: `digit-${position}`,
+        ariaLabel: `Digit ${position + 1} of ${totalDigits}`,
+        weight: 10 ** (totalDigits - 1 - position),
+        modulus: 10,
+        pad: 0,
+      });
+    }
+  }
+
+  const columns = shapes.map<ValueColumn>(({ key, ariaLabel, weight, modulus, pad }) => {
+    const shape = { weight, modulus };
+    const seen = new Set<number>();
+    for (let index = 0; index < count; index += 1) {
+      seen.add(partOf(scaledMin + index * scaledStep, shape));
+    }
+    const values: string[] = [];
+    const labels = new Map<string, string>();
+    // Walk the possible parts in order instead of sorting the set
+    const first = Number.isFinite(shape.modulus) ? 0 : partOf(scaledMin, shape);
+    const last = Number.isFinite(shape.modulus) ? shape.modulus - 1 : partOf(scaledLast, shape);
+    for (let part = first; part <= last; part += 1) {
+      if (seen.has(part)) {
+        values.push(String(part));
+        labels.set(String(part), String(part).padStart(pad, '0'));
+      }
+    }
+    return { key, ariaLabel, weight, modulus, values, labels };
+  });
+
+  return {
+    mode,
+    columns,
+    fractionStart: decimalPlaces > 0 ? columns.length - (mode === 'split' ? 1 : decimalPlaces) : -1,
+    scale,
+    min,
+    step,
+    decimalSeparator,
+  };
+};
+
+/**
+ * Splits a formatted value into column parts.
+ * @param {ColumnLayout} layout
+ * @param {string} value - A value from the single-column list
+ * @returns {Record<string, string>}
+ */
+export const splitColumnValue = (layout: ColumnLayout, value: string) => {
+  const scaled = Math.round(Number(value) * layout.scale);
+  const parts: Record<string, string> = {};
+  for (const column of layout.columns) {
+    parts[column.key] = String(partOf(scaled, column));
+  }
+  return parts;
+};
+
+/**
+ * Recombines column parts into a number (not yet snapped to the range).
+ * @param {ColumnLayout} layout
+ * @param {Record<string, string | number>} parts
+ * @returns {number}
+ */
+export const joinColumnValue = (layout: ColumnLayout, parts: Record<string, string | number>) => {
+  let scaled = 0;
+  for (const column of layout.columns) {
+    scaled += (Number(parts[column.key]) || 0) * column.weight;
+  }
+  return scaled / layout.scale;
+};
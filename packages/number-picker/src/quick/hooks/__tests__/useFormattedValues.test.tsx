@@ -20,4 +20,43 @@ describe('useFormattedValues', () => {
     expect(result.current.values).not.toContain('11.00');
     expect(result.current.displayValue).toBe('11');
   });
+
+  it('formats labels for the locale while keeping plain value strings', () => {
+    const { result } = renderHook(() =>
+      useFormattedValues({
+        value: 1234.5,
+        lastValue: undefined,
+        min: 1230,
+        max: 1240,
+        step: 0.5,
+        placeholder: '--',
+        locale: 'de-DE',
+      })
+    );
+
+    expect(result.current.values).toContain('1234.5');
+    expect(result.current.selectedValue.value).toBe('1234.5');
+    expect(result.current.formattedValueMap.get('1234.5')).toBe('1.234,5');
+    expect(result.current.displayValue).toBe('1.234,5');
+  });
+
+  it('keys cached labels on the locale and format options', () => {
+    const range = {
+      value: 2.5,
+      lastValue: undefined,
+      min: 0,
+      max: 5,
+      step: 0.5,
+      placeholder: '--',
+    };
+    const english = renderHook(() => useFormattedValues({ ...range, locale: 'en-US' }));
+    const french = renderHook(() => useFormattedValues({ ...range, locale: 'fr-FR' }));
+    const fixed = renderHook(() =>
+      useFormattedValues({ ...range, locale: 'en-US', formatOptions: { minimumFractionDigits: 2 } })
+    );
+
+    expect(english.result.current.formattedValueMap.get('2.5')).toBe('2.5');
+    expect(french.result.current.formattedValueMap.get('2.5')).toBe('2,5');
+    expect(fixed.result.current.formattedValueMap.get('2')).toBe('2.00');
+  });
 });
@@ -1323,4 +1323,51 @@ describe('usePickerStateMachine (XState)', () => {
       });
     });
   });
+
+  describe('Locked (disabled / read-only)', () => {
+    it('stays closed on pointer and wheel input while locked', () => {
+      const onRequestClose = vi.fn();
+      const { result } = renderHook(() =>
+        usePickerStateMachine({
+          isOpen: false,
+          isControlled: false,
+          onRequestClose,
+          locked: true,
+        })
+      );
+
+      act(() => {
+        result.current.handlePointerDown();
+        result.current.handleWheelStart();
+      });
+
+      expect(result.current.state).toBe('closed');
+      expect(result.current.shouldBlockClose).toBe(false);
+    });
+
+    it('resumes normal transitions once unlocked', () => {
+      const onRequestClose = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ locked }) =>
+          usePickerStateMachine({
+            isOpen: true,
+            isControlled: false,
+            onRequestClose,
+            locked,
+          }),
+        { initialProps: { locked: true } }
+      );
+
+      act(() => {
+        result.current.handlePointerDown();
+      });
+      expect(result.current.state).toBe('closed');
+
+      rerender({ locked: false });
+      act(() => {
+        result.current.handlePointerDown();
+      });
+      expect(result.current.state).toBe('interacting');
+    });
+  });
 });
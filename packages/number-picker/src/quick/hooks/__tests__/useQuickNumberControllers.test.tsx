@@ -66,6 +66,7 @@ describe('useQuickNumberControllers', () => {
       currentGestureSource,
       isOpeningInteraction,
       stateMachine,
+      locked: false,
     });
   });
 
@@ -28,6 +28,10 @@ const THEME: CollapsiblePickerTheme = {
   labelColor: '#ccc',
   lastValueButtonColor: '#0ff',
   focusRingColor: 'rgba(0,255,255,0.7)',
+  disabledOpacity: '0.45',
+  disabledBorderColor: 'rgba(255,255,255,0.2)',
+  disabledBackgroundColor: 'rgba(0,0,0,0.2)',
+  readOnlyBorderColor: 'rgba(255,255,255,0.4)',
 };
 
 const BASE_PROPS = {
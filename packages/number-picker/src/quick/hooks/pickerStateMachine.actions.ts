@@ -46,6 +46,10 @@ export const pickerActions = {
     }
     return {};
   }),
+  storeLockedFlag: assign(({ event }: { event: { type: string; locked: boolean } }) => {
+    assertEvent(event, 'SET_LOCKED');
+    return { locked: event.locked };
+  }),
   notifyRequestClose: ({ context }: { context: PickerContext }) => {
     const reason = context.isSingleGesture ? 'gesture' : 'idle';
     context.config.onRequestClose({
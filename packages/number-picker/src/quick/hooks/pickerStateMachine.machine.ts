@@ -45,6 +45,7 @@ export const pickerStateMachine = setup({
     isSingleGesture: true,
     openedViaWheel: false,
     atBoundary: false,
+    locked: input.locked ?? false,
     config: {
       isOpen: input.isOpen,
       isControlled: input.isControlled,
@@ -55,15 +56,23 @@ export const pickerStateMachine = setup({
     },
   }),
 
+  on: {
+    SET_LOCKED: {
+      actions: 'storeLockedFlag',
+    },
+  },
+
   states: {
     closed: {
       on: {
         POINTER_DOWN: {
           target: 'interacting',
+          guard: 'isUnlocked',
           actions: pickerActions.startPointerInteraction,
         },
         WHEEL_START: {
           target: 'interacting',
+          guard: 'isUnlocked',
           actions: pickerActions.startWheelInteraction,
         },
         FORCE_CLOSE: {
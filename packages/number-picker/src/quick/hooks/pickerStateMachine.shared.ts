@@ -6,6 +6,8 @@ export interface PickerContext {
   isSingleGesture: boolean;
   openedViaWheel: boolean;
   atBoundary: boolean;
+  /** Disabled/read-only pickers stay `closed` until unlocked. */
+  locked: boolean;
   config: {
     isOpen: boolean;
     isControlled: boolean;
@@ -25,7 +27,8 @@ export type PickerEvent =
   | { type: 'FORCE_CLOSE' }
   | { type: 'RESET_IDLE' }
   | { type: 'EXTERNAL_CLOSE'; reason?: string }
-  | { type: 'AUTO_CLOSE' };
+  | { type: 'AUTO_CLOSE' }
+  | { type: 'SET_LOCKED'; locked: boolean };
 
 export interface CloseContext {
   reason:
@@ -47,6 +50,8 @@ export interface PickerStateMachineConfig {
   idleTimeout?: number;
   settleGracePeriod?: number;
   wheelIdleTimeout?: number;
+  /** Blocks opening from `closed` (disabled or read-only pickers). */
+  locked?: boolean;
 }
 
 /**
@@ -60,6 +65,7 @@ export const pickerGuards = {
     context.activeInputs.size === 1 && context.activeInputs.has('wheel'),
   isSingleGesture: ({ context }: { context: PickerContext }) => context.isSingleGesture,
   isWheelOpened: ({ context }: { context: PickerContext }) => context.openedViaWheel,
+  isUnlocked: ({ context }: { context: PickerContext }) => !context.locked,
   isExternallyClosed: ({ context }: { context: PickerContext }) =>
     context.config.isControlled && !context.config.isOpen,
 };
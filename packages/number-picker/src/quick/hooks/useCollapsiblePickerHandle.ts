@@ -0,0 +1,102 @@
+import { useImperativeHandle, type Ref, type RefObject } from 'react';
+import type { PickerColumnHandle } from '../../picker/types/handle';
+import type { CollapsiblePickerHandle } from '../types';
+import type { ValueList } from '../valueList';
+
+interface UseCollapsiblePickerHandleArgs {
+  showPicker: boolean;
+  values: ValueList;
+  selectedIndex: number;
+  selectedValue: { value: string };
+  columnRef: RefObject<PickerColumnHandle | null>;
+  interactiveRef: RefObject<HTMLDivElement | null>;
+  handlePickerOpen: () => void;
+  handlePickerClose: (reason?: string) => void;
+  handleValueChange: (newValue: { value: string }) => void;
+}
+
+// Binary search over the ascending entries, so lazy lists aren't walked row by row
+const nearestValueIndex = (values: ValueList, target: number) => {
+  if (values.length === 0 || Number.isNaN(target)) return -1;
+  let low = 0;
+  let high = values.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (Number(values.at(middle)) < target) low = middle + 1;
+    else high = middle;
+  }
+  if (low > 0 && target - Number(values.at(low - 1)) <= Number(values.at(low)) - target) {
+    return low - 1;
+  }
+  return low;
+};
+
+/**
+ * Wires the CollapsiblePicker ref handle. While open, scrolling goes through the column so it
+ * animates like a gesture; while closed, the value is committed directly.
+ * @param {Ref<CollapsiblePickerHandle>} ref - Forwarded ref from the component
+ * @param {object} params - Visibility, value list, refs, and open/close/change callbacks.
+ */
+export const useCollapsiblePickerHandle = (
+  ref: Ref<CollapsiblePickerHandle>,
+  {
+    showPicker,
+    values,
+    selectedIndex,
+    selectedValue,
+    columnRef,
+    interactiveRef,
+    handlePickerOpen,
+    handlePickerClose,
+    handleValueChange,
+  }: UseCollapsiblePickerHandleArgs
+) => {
+  useImperativeHandle(ref, () => {
+    const commitIndex = (index: number) => {
+      const next = values.at(Math.max(0, Math.min(values.length - 1, index)));
+      if (next !== undefined && next !== selectedValue.value) {
+        handleValueChange({ value: next });
+      }
+    };
+
+    return {
+      scrollToValue: (value, options) => {
+        const index = nearestValueIndex(values, value);
+        if (index === -1) return;
+        if (showPicker && columnRef.current) {
+          columnRef.current.scrollToValue(values.at(index), options);
+        } else {
+          commitIndex(index);
+        }
+      },
+      scrollByItems: (count, options) => {
+        if (showPicker && columnRef.current) {
+          columnRef.current.scrollByItems(count, options);
+        } else {
+          commitIndex(selectedIndex + count);
+        }
+      },
+      stopMomentum: () => columnRef.current?.stopMomentum(),
+      focus: () => interactiveRef.current?.focus(),
+      open: handlePickerOpen,
+      close: (reason = 'imperative') => handlePickerClose(reason),
+      getVisualValue: () => {
+        const visual =
+          showPicker && columnRef.current
+            ? columnRef.current.getVisualValue()
+            : values.at(selectedIndex);
+        return visual === undefined ? undefined : Number(visual);
+      },
+    };
+  }, [
+    columnRef,
+    handlePickerClose,
+    handlePickerOpen,
+    handleValueChange,
+    interactiveRef,
+    selectedIndex,
+    selectedValue.value,
+    showPicker,
+    values,
+  ]);
+};
@@ -1,10 +1,11 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
-import { countDecimals, createFormatter } from '../utils';
-import { generateRangeOptions } from '../../utils/pickerOptions';
+import { useMemo, useCallback } from 'react';
+import { countDecimals, createFormatter, formatSettingsKey } from '../utils';
+import { createRangeSource, generateRangeOptions, isLazyRange } from '../../utils/pickerOptions';
+import { createLazyValueList, type ValueLabels, type ValueList } from '../valueList';
 
 type CachedFormattedValues = {
-  values: string[];
-  formattedValueMap: Map<string, string>;
+  values: ValueList;
+  formattedValueMap: ValueLabels;
 };
 
 class LRUCache<K, V> {
@@ -43,8 +44,13 @@ class LRUCache<K, V> {
 
 const formattedValueCache = new LRUCache<string, CachedFormattedValues>(50);
 
-const buildCacheKey = (min: number, max: number, step: number, decimals: number) =>
-  `${min}|${max}|${step}|${decimals}`;
+const buildCacheKey = (
+  min: number,
+  max: number,
+  step: number,
+  decimals: number,
+  formatSettings: string
+) => `${min}|${max}|${step}|${decimals}|${formatSettings}`;
 
 interface UseFormattedValuesOptions {
   value: number | undefined;
@@ -54,22 +60,28 @@ interface UseFormattedValuesOptions {
   step: number;
   placeholder: string;
   initialValue?: number;
+  locale?: string;
+  formatOptions?: Intl.NumberFormatOptions;
 }
 
 interface UseFormattedValuesResult {
-  values: string[];
+  values: ValueList;
   selectedValue: { value: string };
   selectedIndex: number;
-  setSelectedValue: React.Dispatch<React.SetStateAction<{ value: string }>>;
+  /** Display formatter (locale-aware) */
   formatValue: (val: number) => string;
   getValidValue: (val: number | undefined) => number;
-  formattedValueMap: Map<string, string>;
+  /** Display label by entry of `values` */
+  formattedValueMap: ValueLabels;
   displayValue: string | number;
   decimalPlaces: number;
 }
 
 /**
  * Produces the formatted value list and selection helpers for the quick picker.
+ *
+ * `values` (and `selectedValue`) stay plain `toFixed`-style strings, since they are parsed back
+ * into numbers; `formattedValueMap` and `formatValue` carry the locale-formatted labels.
  * @param {object} params - Numeric range, locale, and formatting callbacks.
  * @returns {object}
  */
@@ -81,13 +93,19 @@ export const useFormattedValues = ({
   step,
   placeholder,
   initialValue,
+  locale,
+  formatOptions,
 }: UseFormattedValuesOptions): UseFormattedValuesResult => {
   const decimalPlaces = useMemo(
     () => Math.max(countDecimals(step), countDecimals(min), countDecimals(max), 0),
     [step, min, max]
   );
 
-  const formatValue = useMemo(() => createFormatter(decimalPlaces), [decimalPlaces]);
+  const toValueString = useMemo(() => createFormatter(decimalPlaces), [decimalPlaces]);
+  const formatValue = useMemo(
+    () => createFormatter(decimalPlaces, locale, formatOptions),
+    [decimalPlaces, formatOptions, locale]
+  );
 
   const getValidValue = useCallback(
     (val: number | undefined): number => {
@@ -101,18 +119,35 @@ export const useFormattedValues = ({
   );
 
   const { values, formattedValueMap } = useMemo(() => {
-    const cacheKey = buildCacheKey(min, max, step, decimalPlaces);
+    const cacheKey = buildCacheKey(
+      min,
+      max,
+      step,
+      decimalPlaces,
+      formatSettingsKey(locale, formatOptions)
+    );
     const cached = formattedValueCache.get(cacheKey);
     if (cached) {
       return cached;
     }
 
+    // Huge ranges are read by index instead of allocating every entry and label
+    const source = createRangeSource({ min, max, step, formatter: toValueString });
+    if (isLazyRange(source)) {
+      const lazy: CachedFormattedValues = {
+        values: createLazyValueList(source, toValueString),
+        formattedValueMap: { get: (entry) => formatValue(Number(entry)) },
+      };
+      formattedValueCache.set(cacheKey, lazy);
+      return lazy;
+    }
+
     // Use shared range generation utility
     const rangeOptions = generateRangeOptions({
       min,
       max,
       step,
-      formatter: formatValue,
+      formatter: toValueString,
     });
 
     // Convert to the format useFormattedValues expects
@@ -120,26 +155,21 @@ export const useFormattedValues = ({
     const map = new Map<string, string>();
     for (const option of rangeOptions) {
       arr.push(option.label);
-      // Map from numeric value string to formatted label
-      map.set(option.value.toString(), option.label);
+      // Map from value string to display label
+      map.set(option.label, formatValue(option.value as number));
     }
 
     const result = { values: arr, formattedValueMap: map };
     formattedValueCache.set(cacheKey, result);
     return result;
-  }, [decimalPlaces, formatValue, max, min, step]);
+  }, [decimalPlaces, formatOptions, formatValue, locale, max, min, step, toValueString]);
 
   const currentValue = getValidValue(value);
-  const [selectedValue, setSelectedValue] = useState<{ value: string }>({
-    value: formatValue(currentValue),
-  });
-
-  useEffect(() => {
-    const newValue = formatValue(currentValue);
-    if (selectedValue.value !== newValue) {
-      setSelectedValue({ value: newValue });
-    }
-  }, [currentValue, formatValue, selectedValue.value]);
+  // The wheel's selection is always `value`; a pick shows once the parent commits it
+  const selectedValue = useMemo(
+    () => ({ value: toValueString(currentValue) }),
+    [currentValue, toValueString]
+  );
 
   const selectedIndex = useMemo(() => {
     const idx = values.indexOf(selectedValue.value);
@@ -152,7 +182,6 @@ export const useFormattedValues = ({
     values,
     selectedValue,
     selectedIndex,
-    setSelectedValue,
     formatValue,
     getValidValue,
     formattedValueMap,
@@ -20,6 +20,8 @@ interface UsePickerGesturesArgs {
   currentGestureSource: React.MutableRefObject<GestureSource>;
   isOpeningInteraction: React.MutableRefObject<boolean>;
   deferGestureCloseRef: React.MutableRefObject<boolean>;
+  /** Disabled or read-only: ignore pointer and wheel input */
+  locked?: boolean;
 }
 
 interface UsePickerGesturesResult {
@@ -46,6 +48,7 @@ export const useGestureCoordination = ({
   currentGestureSource,
   isOpeningInteraction,
   deferGestureCloseRef,
+  locked = false,
 }: UsePickerGesturesArgs): UsePickerGesturesResult => {
   // Wheel input is always enabled (inverted scroll mode)
   const wheelEnabled = true;
@@ -139,7 +142,8 @@ export const useGestureCoordination = ({
     if (!node || !wheelEnabled) return undefined;
 
     const nativeWheelHandler = (event: WheelEvent) => {
-      if (event.ctrlKey) {
+      // Locked pickers let the page scroll instead of swallowing the wheel
+      if (event.ctrlKey || locked) {
         return;
       }
       event.preventDefault();
@@ -152,10 +156,14 @@ export const useGestureCoordination = ({
     return () => {
       node.removeEventListener('wheel', nativeWheelHandler, wheelListenerOptions.capture ?? false);
     };
-  }, [handleWheel, wheelEnabled, wrapperRef]);
+  }, [handleWheel, locked, wheelEnabled, wrapperRef]);
 
   const handlePointerDown = useCallback(
     (event: React.PointerEvent) => {
+      if (locked) {
+        return;
+      }
+
       debugLog('handlePointerDown CALLED', {
         showPicker: showPickerRef.current,
         target: event.target,
@@ -189,7 +197,7 @@ export const useGestureCoordination = ({
         interactionCount: '(incremented)',
       });
     },
-    [clearBoundaryCloseTimer, clearWheelIdleTimer, handlePickerOpen, stateMachine]
+    [clearBoundaryCloseTimer, clearWheelIdleTimer, handlePickerOpen, locked, stateMachine]
   );
 
   const handleDragStart = useCallback(() => {
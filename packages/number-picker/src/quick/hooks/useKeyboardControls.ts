@@ -1,5 +1,9 @@
 import { useCallback, useMemo, type MutableRefObject } from 'react';
 import type { usePickerStateMachine } from './usePickerStateMachine.xstate';
+import type { PickerDirection } from '../../picker/types/direction';
+import { useKeyRepeatAcceleration } from '../../shared/hooks/useKeyRepeatAcceleration';
+import { COARSE_STEP_MULTIPLIER } from '../../config/ui';
+import type { ValueList } from '../valueList';
 
 type KeyboardGestureSource = 'pointer' | 'wheel' | 'keyboard';
 
@@ -17,13 +21,19 @@ type PickerMachineApi = Pick<
 interface UseKeyboardControlsParams extends KeyboardRefs {
   showPicker: boolean;
   totalValues: number;
-  values: string[];
+  values: ValueList;
   selectedIndex: number;
   selectedValue: { value: string };
   handlePickerOpen: () => void;
   handlePickerClose: (reason?: string) => void;
   handleValueChange: (newValue: { value: string }) => void;
   stateMachine: PickerMachineApi;
+  /** Disabled or read-only: ignore every key so the picker neither opens nor changes */
+  locked?: boolean;
+  /** In RTL, ArrowLeft steps forward and ArrowRight back */
+  direction?: PickerDirection;
+  /** Values an arrow step covers with Shift held (Alt: one; held arrows accelerate) */
+  coarseMultiplier?: number;
 }
 
 const clampIndex = (index: number, totalValues: number) => {
@@ -35,6 +45,7 @@ const clampIndex = (index: number, totalValues: number) => {
 
 /**
  * Implements the spinbutton keyboard contract for the quick picker, handling arrows, paging, and toggles.
+ * Shift+arrow steps `coarseMultiplier` values, Alt+arrow exactly one, and held arrows speed up.
  * @param {object} params - Picker visibility, value bounds, and callbacks.
  * @returns {UseKeyboardControlsResult}
  */
@@ -51,11 +62,15 @@ export const useKeyboardControls = ({
   currentGestureSource,
   isOpeningInteraction,
   stateMachine,
+  locked = false,
+  direction = 'ltr',
+  coarseMultiplier = COARSE_STEP_MULTIPLIER,
 }: UseKeyboardControlsParams) => {
   const pageJump = useMemo(
     () => Math.max(1, Math.min(10, Math.floor(totalValues / 5) || 1)),
     [totalValues]
   );
+  const arrowStepRows = useKeyRepeatAcceleration(coarseMultiplier);
 
   const ensureOpenForKeyboard = useCallback(() => {
     if (showPicker) {
@@ -77,7 +92,7 @@ export const useKeyboardControls = ({
         return false;
       }
       const clamped = clampIndex(nextIndex, totalValues);
-      const formatted = values[clamped];
+      const formatted = values.at(clamped);
       if (formatted === selectedValue.value) {
         return false;
       }
@@ -106,23 +121,26 @@ export const useKeyboardControls = ({
 
   const handleKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLDivElement>) => {
-      if (event.defaultPrevented) {
+      if (event.defaultPrevented || locked) {
         return;
       }
 
+      const isRtl = direction === 'rtl';
       switch (event.key) {
         case 'ArrowDown':
-        case 'ArrowRight': {
+        case isRtl ? 'ArrowLeft' : 'ArrowRight': {
           event.preventDefault();
+          const rows = arrowStepRows(event);
           if (!ensureOpenForKeyboard()) return;
-          commitIndexChange(selectedIndex + 1);
+          commitIndexChange(selectedIndex + rows);
           break;
         }
         case 'ArrowUp':
-        case 'ArrowLeft': {
+        case isRtl ? 'ArrowRight' : 'ArrowLeft': {
           event.preventDefault();
+          const rows = arrowStepRows(event);
           if (!ensureOpenForKeyboard()) return;
-          commitIndexChange(selectedIndex - 1);
+          commitIndexChange(selectedIndex - rows);
           break;
         }
         case 'PageDown': {
@@ -167,12 +185,15 @@ export const useKeyboardControls = ({
       }
     },
     [
+      arrowStepRows,
       commitIndexChange,
       currentGestureSource,
+      direction,
       ensureOpenForKeyboard,
       handlePickerClose,
       handlePickerOpen,
       isOpeningInteraction,
+      locked,
       openedViaRef,
       pageJump,
       selectedIndex,
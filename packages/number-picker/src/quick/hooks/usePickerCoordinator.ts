@@ -31,6 +31,8 @@ interface UseQuickPickerOrchestrationArgs {
   highlightMovementThreshold?: number;
   timing: TimingConfig;
   playConfirmationIfChanged?: () => void;
+  /** Disabled or read-only: the picker must not open */
+  locked?: boolean;
 }
 
 interface UseQuickPickerOrchestrationResult {
@@ -64,6 +66,7 @@ export const usePickerCoordinator = ({
   highlightMovementThreshold = HIGHLIGHT_TAP_MOVEMENT_THRESHOLD,
   timing,
   playConfirmationIfChanged,
+  locked = false,
 }: UseQuickPickerOrchestrationArgs): UseQuickPickerOrchestrationResult => {
   const {
     showPicker,
@@ -122,6 +125,7 @@ export const usePickerCoordinator = ({
     idleTimeout: timing.idleTimeout,
     settleGracePeriod: timing.settleGracePeriod,
     wheelIdleTimeout: timing.wheelIdleTimeout,
+    locked,
   });
 
   resetIdleTimerRef.current = stateMachine.resetIdleTimer;
@@ -131,6 +135,11 @@ export const usePickerCoordinator = ({
   }, [stateMachine.forceClose]);
 
   const handlePickerOpen = useCallback(() => {
+    if (locked) {
+      debugLog('pickerOpen blocked (locked)', { value: selectedValue.value });
+      return;
+    }
+
     debugLog('pickerOpen', {
       controlled: isControlled,
       showPicker,
@@ -139,7 +148,7 @@ export const usePickerCoordinator = ({
 
     forceCloseRef.current?.();
     openPickerInternal();
-  }, [isControlled, openPickerInternal, selectedValue.value, showPicker]);
+  }, [isControlled, locked, openPickerInternal, selectedValue.value, showPicker]);
 
   const { onGesture, handlePointerDown, resetGestureState } = useGestureCoordination({
     showPicker,
@@ -152,6 +161,7 @@ export const usePickerCoordinator = ({
     currentGestureSource,
     isOpeningInteraction,
     deferGestureCloseRef,
+    locked,
   });
 
   useEffect(() => {
@@ -167,6 +177,13 @@ export const usePickerCoordinator = ({
     [stateMachine]
   );
 
+  // Disabling (or making read-only) an open picker closes it
+  useEffect(() => {
+    if (locked && showPicker) {
+      handlePickerClose('locked');
+    }
+  }, [handlePickerClose, locked, showPicker]);
+
   const highlightTapHandlers = useHighlightTap({
     enabled: showPicker,
     getHighlightRect: () => highlightRef.current?.getBoundingClientRect() ?? null,
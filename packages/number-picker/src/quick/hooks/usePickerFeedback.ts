@@ -10,7 +10,8 @@ type UsePickerFeedbackArgs = {
   enableAudioFeedback: boolean;
   showPicker: boolean;
   selectedValue: PickerValue;
-  setSelectedValue: (value: PickerValue) => void;
+  /** Told about every committed pick, before `onChange` */
+  setSelectedValue?: (value: PickerValue) => void;
   onChange: (value: number) => void;
   feedbackOverrides?: QuickPickerFeedbackConfig;
 };
@@ -145,7 +146,7 @@ export const usePickerFeedback = ({
   // Audio is played when picker closes (see useEffect above)
   const handleValueChange = useCallback(
     (newValue: PickerValue) => {
-      setSelectedValue(newValue);
+      setSelectedValue?.(newValue);
       const parsed = parseFloat(newValue.value);
 
       if (!Number.isNaN(parsed)) {
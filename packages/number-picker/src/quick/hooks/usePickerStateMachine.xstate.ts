@@ -19,6 +19,7 @@ export type {
  * - Different auto-close delays based on gesture type
  * - Watchdog timeout for vendor callback failures
  * - Controlled/uncontrolled mode support
+ * - Lock flag that keeps disabled/read-only pickers closed
  */
 
 // ============ React Hook ============
@@ -35,6 +36,7 @@ export const usePickerStateMachine = ({
   idleTimeout = 4000,
   settleGracePeriod = 150,
   wheelIdleTimeout = 800,
+  locked = false,
 }: PickerStateMachineConfig) => {
   const [state, send] = useMachine(pickerStateMachine, {
     input: {
@@ -44,6 +46,7 @@ export const usePickerStateMachine = ({
       idleTimeout,
       settleGracePeriod,
       wheelIdleTimeout,
+      locked,
     },
   });
   const matches = (value: string) => state.matches(value as never);
@@ -55,6 +58,11 @@ export const usePickerStateMachine = ({
     }
   }, [isControlled, isOpen, matches, send]);
 
+  // Keep the lock in sync so disabled/read-only pickers never leave `closed`
+  useEffect(() => {
+    send({ type: 'SET_LOCKED', locked });
+  }, [locked, send]);
+
   // ✅ PERFORMANCE FIX: Memoize functions to prevent re-renders downstream
   // Without this, every render creates new arrow functions, causing CollapsiblePickerPresenter
   // to re-render at 60Hz during any state update
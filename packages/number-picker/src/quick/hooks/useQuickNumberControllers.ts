@@ -1,6 +1,8 @@
 import { useCallback, type MutableRefObject } from 'react';
 import { useKeyboardControls } from './useKeyboardControls';
+import type { PickerDirection } from '../../picker/types/direction';
 import type { usePickerStateMachine } from './usePickerStateMachine.xstate';
+import type { ValueList } from '../valueList';
 
 type GestureSource = 'pointer' | 'wheel' | 'keyboard';
 
@@ -12,7 +14,7 @@ type PickerMachineApi = Pick<
 interface UseQuickNumberControllersParams {
   showPicker: boolean;
   totalValues: number;
-  values: string[];
+  values: ValueList;
   selectedIndex: number;
   selectedValue: { value: string };
   handlePickerOpen: () => void;
@@ -24,6 +26,9 @@ interface UseQuickNumberControllersParams {
   stateMachine: PickerMachineApi;
   lastValue?: number;
   onChange: (value: number) => void;
+  locked?: boolean;
+  direction?: PickerDirection;
+  coarseMultiplier?: number;
 }
 
 /**
@@ -46,6 +51,9 @@ export function useQuickNumberControllers({
   stateMachine,
   lastValue,
   onChange,
+  locked = false,
+  direction,
+  coarseMultiplier,
 }: UseQuickNumberControllersParams) {
   const { handleKeyDown } = useKeyboardControls({
     showPicker,
@@ -60,13 +68,16 @@ export function useQuickNumberControllers({
     currentGestureSource,
     isOpeningInteraction,
     stateMachine,
+    locked,
+    direction,
+    coarseMultiplier,
   });
 
   const handleUseLastValue = useCallback(() => {
-    if (typeof lastValue === 'number') {
+    if (typeof lastValue === 'number' && !locked) {
       onChange(lastValue);
     }
-  }, [lastValue, onChange]);
+  }, [lastValue, locked, onChange]);
 
   return { handleKeyDown, handleUseLastValue };
 }
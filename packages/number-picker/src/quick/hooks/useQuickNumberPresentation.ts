@@ -25,6 +25,8 @@ interface UseQuickNumberPresentationArgs {
   itemHeightPx: number;
   pickerWindowHeight: number;
   renderValue?: RenderValueFn;
+  locale?: string;
+  formatOptions?: Intl.NumberFormatOptions;
 }
 
 /**
@@ -48,6 +50,8 @@ export const useQuickNumberPresentation = ({
   itemHeightPx,
   pickerWindowHeight,
   renderValue,
+  locale,
+  formatOptions,
 }: UseQuickNumberPresentationArgs) => {
   const formatted = useFormattedValues({
     value,
@@ -57,6 +61,8 @@ export const useQuickNumberPresentation = ({
     step,
     placeholder,
     initialValue,
+    locale,
+    formatOptions,
   });
 
   const decimalPlaces = formatted.decimalPlaces;
@@ -76,9 +82,16 @@ export const useQuickNumberPresentation = ({
   }, [decimalPlaces, max, min, selectedIndex, step, totalValues]);
 
   const ariaValueText = useMemo(() => {
-    const formattedValue = formatted.values[selectedIndex] ?? formatted.selectedValue.value;
+    const rawValue = formatted.values.at(selectedIndex) ?? formatted.selectedValue.value;
+    const formattedValue = formatted.formattedValueMap.get(rawValue) ?? rawValue;
     return unit ? `${formattedValue} ${unit}` : formattedValue;
-  }, [selectedIndex, formatted.selectedValue.value, unit, formatted.values]);
+  }, [
+    selectedIndex,
+    formatted.selectedValue.value,
+    unit,
+    formatted.values,
+    formatted.formattedValueMap,
+  ]);
 
   const resolvedVisualTweaks = useResolvedVisualTweaks(visualTweaks);
   const { activeScale, deselectScale, deselectOpacity, trailOvershoot, highlightPadding } =
@@ -151,8 +164,8 @@ export const useQuickNumberPresentation = ({
 
   return {
     values: formatted.values,
+    valueLabels: formatted.formattedValueMap,
     selectedValue: formatted.selectedValue,
-    setSelectedValue: formatted.setSelectedValue,
     selectedIndex,
     totalValues,
     numericValue,
@@ -160,5 +173,6 @@ export const useQuickNumberPresentation = ({
     valueNode: valueDisplay.valueNode,
     maxSampleString: valueDisplay.maxSampleString,
     cssVariables,
+    decimalPlaces,
   };
 };
@@ -7,7 +7,9 @@ import type {
   LabelProps,
   LayoutProps,
   QuickNumberPresenterViewModel,
+  StepperControlsProps,
   SurfaceRefs,
+  TextEntryProps,
   ValueDisplayProps,
 } from '../CollapsibleNumberPicker.presenter';
 import type { PickerBodyProps } from '../CollapsibleNumberPicker.pickerBody';
@@ -30,18 +32,24 @@ interface UseQuickNumberPresenterViewModelArgs {
     showPicker: boolean;
     selectedIndex: number;
     totalValues: number;
+    disabled?: boolean;
+    readOnly?: boolean;
+    scrub?: boolean;
   };
   aria: {
     min?: number;
     max?: number;
     valueNow?: number;
     valueText?: string;
+    activeDescendant?: string;
   };
   refs: SurfaceRefs;
   handlers: InteractionHandlers;
   highlightTapHandlers: React.HTMLAttributes<HTMLDivElement>;
   pickerBodyProps: PickerBodyProps;
   valueDisplay: ValueDisplayProps;
+  textEntry?: TextEntryProps;
+  steppers?: StepperControlsProps;
   cssVariables: CSSVariableStyles;
   theme: CollapsiblePickerTheme;
 }
@@ -67,6 +75,8 @@ export function useQuickNumberPresenterViewModel({
   highlightTapHandlers,
   pickerBodyProps,
   valueDisplay,
+  textEntry,
+  steppers,
   cssVariables,
   theme,
 }: UseQuickNumberPresenterViewModelArgs): QuickNumberPresenterViewModel {
@@ -89,6 +99,7 @@ export function useQuickNumberPresenterViewModel({
       ariaValueMax: aria.max,
       ariaValueNow: aria.valueNow,
       ariaValueText: aria.valueText,
+      ariaActiveDescendant: aria.activeDescendant,
       pickerWindowId: ids.pickerWindowId,
     };
 
@@ -102,10 +113,13 @@ export function useQuickNumberPresenterViewModel({
       highlightTapHandlers,
       pickerBodyProps,
       valueDisplay,
+      textEntry,
+      steppers,
       cssVariables,
       theme,
     };
   }, [
+    aria.activeDescendant,
     aria.max,
     aria.min,
     aria.valueNow,
@@ -126,6 +140,8 @@ export function useQuickNumberPresenterViewModel({
     pickerBodyProps,
     pickerState,
     refs,
+    steppers,
+    textEntry,
     theme,
     unit,
     valueDisplay,
@@ -10,7 +10,8 @@ interface UseQuickPickerFeedbackServiceArgs {
   enableAudioFeedback: boolean;
   showPicker: boolean;
   selectedValue: PickerValue;
-  setSelectedValue: (value: PickerValue) => void;
+  /** Told about every committed pick, before `onChange` */
+  setSelectedValue?: (value: PickerValue) => void;
   onChange: (value: number) => void;
   timingPreset?: TimingPreset;
   timingConfig?: Readonly<TimingConfig>;
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { SCRUB_PIXELS_PER_STEP, SCRUB_START_THRESHOLD } from '../../config/ui';
+import { OPENING_DRAG_THRESHOLD_PIXELS } from '../../config/physics';
+import { createGestureEmitter, type PickerGestureHandler } from '../../picker/gestures';
+import type { PickerDirection } from '../../picker/types/direction';
+import { debugLog } from '../../utils/debug';
+import type { ValueList } from '../valueList';
+
+interface ScrubTracker {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startIndex: number;
+  index: number;
+  /** Horizontal travel since the press; summed from `movementX` while the pointer is locked */
+  offset: number;
+  mode: 'pending' | 'scrub';
+  lockTarget: Element | null;
+}
+
+interface UseScrubGestureArgs {
+  /** Scrub is configured and the picker is neither disabled nor read-only */
+  enabled: boolean;
+  showPicker: boolean;
+  values: ValueList;
+  selectedIndex: number;
+  pixelsPerStep?: number;
+  pointerLock?: boolean;
+  direction?: PickerDirection;
+  handleValueChange: (newValue: { value: string }) => void;
+  /** Receives `value:visual` per step and `value:commit` on release (haptics/audio) */
+  onGesture: PickerGestureHandler;
+  /** Regular pointer-down path that opens the picker */
+  openFromPointer: (event: React.PointerEvent) => void;
+}
+
+const exitPointerLock = (target: Element | null) => {
+  if (target && typeof document !== 'undefined' && document.pointerLockElement === target) {
+    document.exitPointerLock?.();
+  }
+};
+
+/**
+ * Scrub-to-adjust for the closed display: a press that travels sideways steps the value by one
+ * per `pixelsPerStep` (like number fields in design tools) without opening the wheel. A press
+ * that travels vertically past the opening-drag threshold opens the picker mid-gesture so the
+ * wheel keeps following the pointer, and a press released in place opens it as a tap.
+ *
+ * Mouse scrubs request Pointer Lock, so drags aren't cut short by the screen edge.
+ *
+ * @param {UseScrubGestureArgs} params - Value list, settings, and the regular open path.
+ * @returns {object} Pointer handlers for the picker surface (down, plus move/up/cancel capture).
+ */
+export const useScrubGesture = ({
+  enabled,
+  showPicker,
+  values,
+  selectedIndex,
+  pixelsPerStep = SCRUB_PIXELS_PER_STEP,
+  pointerLock = true,
+  direction = 'ltr',
+  handleValueChange,
+  onGesture,
+  openFromPointer,
+}: UseScrubGestureArgs) => {
+  const trackerRef = useRef<ScrubTracker | null>(null);
+  const emitter = useMemo(() => createGestureEmitter(onGesture), [onGesture]);
+  const stepSize = pixelsPerStep > 0 ? pixelsPerStep : SCRUB_PIXELS_PER_STEP;
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent) => {
+      // Scrubs only start on the closed display with the primary button
+      if (!enabled || showPicker || event.button > 0 || values.length === 0) {
+        trackerRef.current = null;
+        openFromPointer(event);
+        return;
+      }
+      trackerRef.current = {
+        pointerId: event.pointerId,
+        startX: event.clientX,
+        startY: event.clientY,
+        startIndex: selectedIndex,
+        index: selectedIndex,
+        offset: 0,
+        mode: 'pending',
+        lockTarget: null,
+      };
+    },
+    [enabled, openFromPointer, selectedIndex, showPicker, values.length]
+  );
+
+  const handlePointerMoveCapture = useCallback(
+    (event: React.PointerEvent) => {
+      const tracker = trackerRef.current;
+      if (!tracker || tracker.pointerId !== event.pointerId) return;
+
+      const locked =
+        tracker.lockTarget !== null && document.pointerLockElement === tracker.lockTarget;
+      tracker.offset = locked
+        ? tracker.offset + (event.movementX ?? 0)
+        : event.clientX - tracker.startX;
+
+      if (tracker.mode === 'pending') {
+        const deltaY = event.clientY - tracker.startY;
+        if (
+          Math.abs(deltaY) >= OPENING_DRAG_THRESHOLD_PIXELS &&
+          Math.abs(deltaY) >= Math.abs(tracker.offset)
+        ) {
+          // Vertical travel: open and let the wheel take over the rest of the drag
+          trackerRef.current = null;
+          openFromPointer(event);
+          return;
+        }
+        if (Math.abs(tracker.offset) < SCRUB_START_THRESHOLD) return;
+
+        tracker.mode = 'scrub';
+        debugLog('scrubStart', { startIndex: tracker.startIndex, pointerType: event.pointerType });
+        if (pointerLock && event.pointerType === 'mouse' && event.target instanceof Element) {
+          tracker.lockTarget = event.target;
+          // Browsers reject the lock without a user gesture or in iframes; scrubbing still works
+          Promise.resolve(event.target.requestPointerLock?.()).catch(() => {});
+        }
+      }
+
+      // Keep the hidden wheel from treating the scrub as a drag
+      event.stopPropagation();
+      event.preventDefault();
+
+      const sign = direction === 'rtl' ? -1 : 1;
+      const steps = Math.trunc((sign * tracker.offset) / stepSize);
+      const nextIndex = Math.max(0, Math.min(values.length - 1, tracker.startIndex + steps));
+      if (nextIndex === tracker.index) return;
+
+      tracker.index = nextIndex;
+      handleValueChange({ value: values.at(nextIndex) });
+      emitter.visualChange(values.at(nextIndex), nextIndex);
+    },
+    [direction, emitter, handleValueChange, openFromPointer, pointerLock, stepSize, values]
+  );
+
+  const finishScrub = useCallback(
+    (tracker: ScrubTracker) => {
+      exitPointerLock(tracker.lockTarget);
+      debugLog('scrubEnd', { startIndex: tracker.startIndex, index: tracker.index });
+      if (tracker.index !== tracker.startIndex) {
+        emitter.valueCommit(values.at(tracker.index), tracker.index);
+      }
+    },
+    [emitter, values]
+  );
+
+  const handlePointerUpCapture = useCallback(
+    (event: React.PointerEvent) => {
+      const tracker = trackerRef.current;
+      if (!tracker || tracker.pointerId !== event.pointerId) return;
+      trackerRef.current = null;
+
+      if (tracker.mode === 'pending') {
+        // A press without travel is a tap: open before the wheel sees the release
+        openFromPointer(event);
+        return;
+      }
+      finishScrub(tracker);
+    },
+    [finishScrub, openFromPointer]
+  );
+
+  const handlePointerCancelCapture = useCallback(
+    (event: React.PointerEvent) => {
+      const tracker = trackerRef.current;
+      if (!tracker || tracker.pointerId !== event.pointerId) return;
+      trackerRef.current = null;
+      if (tracker.mode === 'scrub') {
+        finishScrub(tracker);
+      }
+    },
+    [finishScrub]
+  );
+
+  useEffect(
+    () => () => {
+      exitPointerLock(trackerRef.current?.lockTarget ?? null);
+    },
+    []
+  );
+
+  return {
+    handlePointerDown,
+    handlePointerMoveCapture,
+    handlePointerUpCapture,
+    handlePointerCancelCapture,
+  };
+};
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+import { nearestStepIndex, parseEnteredValue } from '../utils';
+import type { ValueList } from '../valueList';
+
+interface UseTextEntryParams {
+  /** False when text entry is turned off, disabled, or read-only */
+  enabled: boolean;
+  showPicker: boolean;
+  values: ValueList;
+  selectedValue: { value: string };
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  handleValueChange: (newValue: { value: string }) => void;
+  handlePickerClose: (reason?: string) => void;
+  interactiveRef: RefObject<HTMLDivElement | null>;
+}
+
+// Keys that start an edit when typed on the focused surface
+const ENTRY_START_PATTERN = /^[\d.,+-]$/u;
+
+/**
+ * Lets the closed display be edited as text: double-click or type a digit to start, Enter
+ * commits, Escape reverts, and blur commits valid text. Typed values must fall inside
+ * `min`/`max` and are snapped to the nearest step before going through `handleValueChange`.
+ * @param {object} params - Value list, range, and the commit/close callbacks.
+ * @returns {object} Draft state plus surface and input handlers.
+ */
+export const useTextEntry = ({
+  enabled,
+  showPicker,
+  values,
+  selectedValue,
+  min,
+  max,
+  step,
+  unit,
+  handleValueChange,
+  handlePickerClose,
+  interactiveRef,
+}: UseTextEntryParams) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // Tracks the edit synchronously so the blur fired by refocusing the surface is ignored
+  const editingRef = useRef(false);
+  const selectOnFocusRef = useRef(false);
+
+  const resolveIndex = useCallback(
+    (text: string) => {
+      const parsed = parseEnteredValue(text, unit);
+      if (parsed === null || parsed < min || parsed > max || values.length === 0) {
+        return -1;
+      }
+      return nearestStepIndex(parsed, { min, step, count: values.length });
+    },
+    [max, min, step, unit, values.length]
+  );
+
+  const startEditing = useCallback(
+    (initialText?: string) => {
+      if (!enabled || editingRef.current) {
+        return;
+      }
+      if (showPicker) {
+        handlePickerClose('text-entry');
+      }
+      editingRef.current = true;
+      selectOnFocusRef.current = initialText === undefined;
+      setDraft(initialText ?? selectedValue.value);
+    },
+    [enabled, handlePickerClose, selectedValue.value, showPicker]
+  );
+
+  const finishEditing = useCallback(() => {
+    editingRef.current = false;
+    setDraft(null);
+    interactiveRef.current?.focus();
+  }, [interactiveRef]);
+
+  const commit = useCallback(
+    (text: string) => {
+      const index = resolveIndex(text);
+      if (index === -1) {
+        return false;
+      }
+      const next = values.at(index);
+      if (next !== selectedValue.value) {
+        handleValueChange({ value: next });
+      }
+      return true;
+    },
+    [handleValueChange, resolveIndex, selectedValue.value, values]
+  );
+
+  const isEditing = draft !== null;
+
+  useEffect(() => {
+    if (!isEditing) {
+      return;
+    }
+    const input = inputRef.current;
+    if (!input) {
+      return;
+    }
+    input.focus();
+    if (selectOnFocusRef.current) {
+      input.select();
+    } else {
+      input.setSelectionRange(input.value.length, input.value.length);
+    }
+  }, [isEditing]);
+
+  // Editing is pointless once the control can no longer change
+  useEffect(() => {
+    if (!enabled && editingRef.current) {
+      editingRef.current = false;
+      setDraft(null);
+    }
+  }, [enabled]);
+
+  const handleSurfaceKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (!enabled || event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+      if (ENTRY_START_PATTERN.test(event.key)) {
+        event.preventDefault();
+        startEditing(event.key);
+      }
+    },
+    [enabled, startEditing]
+  );
+
+  const handleDoubleClick = useCallback(() => startEditing(), [startEditing]);
+
+  const handleDraftChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(event.target.value);
+  }, []);
+
+  const handleInputKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        // Invalid text stays in the input (marked aria-invalid) so it can be corrected
+        if (commit(event.currentTarget.value)) {
+          finishEditing();
+        }
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopPropagation();
+        finishEditing();
+      }
+    },
+    [commit, finishEditing]
+  );
+
+  const handleInputBlur = useCallback(
+    (event: React.FocusEvent<HTMLInputElement>) => {
+      if (!editingRef.current) {
+        return;
+      }
+      commit(event.currentTarget.value);
+      editingRef.current = false;
+      setDraft(null);
+    },
+    [commit]
+  );
+
+  const invalid = useMemo(
+    () => draft !== null && draft.trim() !== '' && resolveIndex(draft) === -1,
+    [draft, resolveIndex]
+  );
+
+  return {
+    isEditing,
+    draft: draft ?? '',
+    invalid,
+    inputRef,
+    handleSurfaceKeyDown,
+    handleDoubleClick,
+    handleDraftChange,
+    handleInputKeyDown,
+    handleInputBlur,
+  };
+};
+
+export type UseTextEntryResult = ReturnType<typeof useTextEntry>;
@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { m } from 'framer-motion';
 import type { CollapsiblePickerProps, CollapsiblePickerRenderValueContext } from '../types';
+import type { ValueLabels } from '../valueList';
 
 interface ValueDisplayTheme {
   textColor: string;
@@ -17,7 +18,7 @@ type ValueDisplayOptions = {
   unit?: string;
   theme: ValueDisplayTheme;
   formatValue: FormatValueFn;
-  formattedValueMap: Map<string, string>;
+  formattedValueMap: ValueLabels;
   renderValue?: CollapsiblePickerProps['renderValue'];
   showPicker: boolean;
 };
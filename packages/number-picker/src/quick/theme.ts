@@ -25,6 +25,11 @@ export const DEFAULT_THEME: CollapsiblePickerTheme = {
   labelColor: '#8E77B5',
   lastValueButtonColor: '#3EDCFF',
   focusRingColor: 'rgba(62, 220, 255, 0.7)',
+  // Disabled / read-only styling
+  disabledOpacity: '0.45',
+  disabledBorderColor: 'rgba(157, 177, 190, 0.25)',
+  disabledBackgroundColor: 'rgba(0, 0, 0, 0.2)',
+  readOnlyBorderColor: 'rgba(157, 177, 190, 0.4)',
 };
 
 /**
@@ -1,5 +1,11 @@
 import type { ReactNode } from 'react';
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerScrollOptions } from '../picker/types/handle';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import type { PickerDirection } from '../picker/types/direction';
+import type { PickerFallback } from '../picker/types/fallback';
+import type { PickerStepperLabels, PickerSteppers } from '../picker/types/steppers';
+import type { PickerValidationMessages } from '../picker/types/validation';
 import type { TimingPreset, TimingConfig } from '../config/timing';
 import type { AudioAdapterOptions, FeedbackAdapters, HapticAdapterOptions } from './feedback';
 
@@ -58,6 +64,37 @@ export interface CollapsiblePickerTheme {
   lastValueButtonColor: string;
   /** Focus ring color for keyboard navigation */
   focusRingColor: string;
+  /** Opacity applied to the whole control when `disabled` (CSS opacity value) */
+  disabledOpacity: string;
+  /** Border color of the closed display when `disabled` */
+  disabledBorderColor: string;
+  /** Background color of the closed display when `disabled` */
+  disabledBackgroundColor: string;
+  /** Border color of the closed display when `readOnly` */
+  readOnlyBorderColor: string;
+}
+
+/**
+ * Imperative handle exposed by `CollapsiblePicker` (via `ref`).
+ *
+ * Scrolling animates the wheel while the picker is open and commits straight away while it is
+ * closed; either way `onChange` fires with the new value.
+ */
+export interface CollapsiblePickerHandle {
+  /** Scroll to the closest value in range */
+  scrollToValue(value: number, options?: PickerScrollOptions): void;
+  /** Step `count` values up (positive) or down (negative) */
+  scrollByItems(count: number, options?: PickerScrollOptions): void;
+  /** Stop any momentum or settle animation, committing the row it was heading for */
+  stopMomentum(): void;
+  /** Move keyboard focus to the picker surface */
+  focus(): void;
+  /** Open the picker (no-op when disabled or read-only) */
+  open(): void;
+  /** Close the picker; `reason` is reported like other close reasons (default `'imperative'`) */
+  close(reason?: string): void;
+  /** Value under the highlight (mid-gesture while open), or the committed value while closed */
+  getVisualValue(): number | undefined;
 }
 
 /**
@@ -131,6 +168,25 @@ export type RenderValueFn = (
  */
 export type RenderItemFn = (value: string, state: CollapsiblePickerRenderItemState) => ReactNode;
 
+/**
+ * Wheel layout of an open CollapsiblePicker.
+ *
+ * - `single`: one row per step
+ * - `split`: a whole-number column and a decimal column
+ * - `digits`: one column per digit
+ */
+export type CollapsiblePickerColumns = 'single' | 'split' | 'digits';
+
+/**
+ * Scrub-to-adjust settings for the closed display.
+ */
+export interface CollapsiblePickerScrubConfig {
+  /** Horizontal drag (px) per value step. Defaults to 8. */
+  pixelsPerStep?: number;
+  /** Lock the mouse pointer while scrubbing so drags run past the screen edge. Defaults to true. */
+  pointerLock?: boolean;
+}
+
 /**
  * Props for CollapsiblePicker component
  *
@@ -151,6 +207,43 @@ export interface CollapsiblePickerProps {
   isOpen?: boolean;
   onRequestOpen?: () => void;
   onRequestClose?: () => void;
+  /** Block all interaction, dim the control, and remove it from the tab order */
+  disabled?: boolean;
+  /** Keep the value visible and focusable but prevent opening or changing it */
+  readOnly?: boolean;
+  /**
+   * Let the closed display be edited as text: double-click it, or focus it and type a number.
+   * Enter commits (snapped to the nearest `step`), Escape reverts. Defaults to true.
+   */
+  allowTextEntry?: boolean;
+  /**
+   * Split the open wheel into a whole-number and a decimal column (`split`) or one column per
+   * digit (`digits`); recombined values are clamped to `min`/`max` and snapped to `step`.
+   * Ranges with a negative `min` always use a single column. Defaults to `single`.
+   */
+  columns?: CollapsiblePickerColumns;
+  /**
+   * Format rows, the closed display and `aria-valuetext` for this locale (e.g. `de-DE` shows
+   * `82,5`). Without `locale` or `formatOptions`, values print as plain `82.5`.
+   */
+  locale?: string;
+  /**
+   * `Intl.NumberFormat` options, e.g. `{ minimumFractionDigits: 2 }` for fixed fraction digits.
+   * Fraction digits never drop below what `step` needs.
+   */
+  formatOptions?: Intl.NumberFormatOptions;
+  /**
+   * Reading direction; read from the rendered element (`<html dir="rtl">`) when omitted. RTL
+   * mirrors the unit, the last-value button and ArrowLeft/ArrowRight; digit columns stay in
+   * left-to-right order.
+   */
+  dir?: PickerDirection;
+  /**
+   * Render a native `<input type="number">` (with the label, unit, and helper text) instead of
+   * the wheel: always (`native`), or on touch-only devices, under forced colors, and in server
+   * markup (`auto`). Wheel-only props (theme, physics, feedback, `columns`) don't apply to it.
+   */
+  fallback?: PickerFallback;
   itemHeight?: number;
   theme?: Partial<CollapsiblePickerTheme>;
   renderValue?: RenderValueFn;
@@ -163,9 +256,36 @@ export interface CollapsiblePickerProps {
   feedbackConfig?: QuickPickerFeedbackConfig;
   wheelSensitivity?: number;
   wheelDeltaCap?: number;
+  /**
+   * Values an arrow key or wheel step covers while Shift is held (Alt forces single steps).
+   * Defaults to 10.
+   */
+  coarseMultiplier?: number;
+  /**
+   * Press the closed display and drag sideways to step the value without opening the wheel
+   * (`true`, or `{ pixelsPerStep, pointerLock }`). A press without a drag opens on release.
+   */
+  scrub?: boolean | CollapsiblePickerScrubConfig;
+  /**
+   * Show −/+ buttons next to the closed display: stacked at its end (`inline`) or on both sides
+   * (`flanking`). Holding a button repeats with acceleration; Shift steps by `coarseMultiplier`.
+   */
+  steppers?: PickerSteppers;
+  /** Names of the stepper buttons (default: `Increase`/`Decrease` followed by `label`) */
+  stepperLabels?: PickerStepperLabels;
+  /** While open, scroll the wheel to `value` changes made from outside instead of jumping */
+  animateExternalChanges?: AnimateExternalChanges;
   timingPreset?: TimingPreset;
   timingConfig?: Readonly<TimingConfig>;
   visualTweaks?: CollapsiblePickerVisualTweaks;
+  /** Submit the value with the surrounding form under this name (also enables reset/validation) */
+  name?: string;
+  /** Id of the form to join when the picker isn't inside it */
+  form?: string;
+  /** Fail form validation while no value is set */
+  required?: boolean;
+  /** Replace the English messages the form field reports for a value outside the range */
+  validationMessages?: PickerValidationMessages;
   /** @deprecated wheelMode is no longer supported - wheel scrolling is always enabled */
   wheelMode?: 'off' | 'natural' | 'inverted';
 }
@@ -20,17 +20,111 @@ const trimTrailingZeros = (value: string) => {
   return trimmed === '-0' ? '0' : trimmed;
 };
 
-export const createFormatter =
-  (decimalPlaces: number) =>
-  (val: number): string => {
-    if (!Number.isFinite(val)) {
-      return '';
-    }
-
-    if (decimalPlaces <= 0) {
-      return Math.round(val).toString();
-    }
-
-    const fixed = val.toFixed(decimalPlaces);
-    return trimTrailingZeros(fixed);
-  };
+/**
+ * Decimal-aware number formatter. Without a locale or options, values print like `toFixed`
+ * with trailing zeros trimmed (`82.5`, never `82.50`); with either, `Intl.NumberFormat` takes
+ * over (`82,5` for `de-DE`, grouping separators, fixed fraction digits via
+ * `minimumFractionDigits`).
+ * @param {number} decimalPlaces - Most fraction digits the range needs
+ * @param {string} [locale] - BCP 47 language tag; the runtime default when only options are given
+ * @param {Intl.NumberFormatOptions} [formatOptions]
+ * @returns {(val: number) => string}
+ */
+export const createFormatter = (
+  decimalPlaces: number,
+  locale?: string,
+  formatOptions?: Intl.NumberFormatOptions
+): ((val: number) => string) => {
+  if (locale === undefined && formatOptions === undefined) {
+    return (val: number): string => {
+      if (!Number.isFinite(val)) {
+        return '';
+      }
+
+      if (decimalPlaces <= 0) {
+        return Math.round(val).toString();
+      }
+
+      const fixed = val.toFixed(decimalPlaces);
+      return trimTrailingZeros(fixed);
+    };
+  }
+
+  // Never round a step away; a larger minimum still wins so fixed digits don't throw
+  const maximumFractionDigits = Math.max(
+    decimalPlaces,
+    formatOptions?.maximumFractionDigits ?? 0,
+    formatOptions?.minimumFractionDigits ?? 0
+  );
+  const numberFormat = new Intl.NumberFormat(locale, {
+    ...formatOptions,
+    maximumFractionDigits,
+  });
+  // `+ 0` turns -0 into 0, which Intl would print as "-0"
+  return (val: number): string => (Number.isFinite(val) ? numberFormat.format(val + 0) : '');
+};
+
+/**
+ * Cache key part for a locale and its format options.
+ * @param {string} [locale]
+ * @param {Intl.NumberFormatOptions} [formatOptions]
+ * @returns {string}
+ */
+export const formatSettingsKey = (
+  locale?: string,
+  formatOptions?: Intl.NumberFormatOptions
+): string => `${locale ?? ''}|${formatOptions ? JSON.stringify(formatOptions) : ''}`;
+
+/**
+ * Decimal separator that `createFormatter` prints for a locale (`.` without one).
+ * @param {string} [locale]
+ * @param {Intl.NumberFormatOptions} [formatOptions]
+ * @returns {string}
+ */
+export const decimalSeparatorOf = (
+  locale?: string,
+  formatOptions?: Intl.NumberFormatOptions
+): string => {
+  if (locale === undefined && formatOptions === undefined) return '.';
+  const parts = new Intl.NumberFormat(locale, {
+    numberingSystem: formatOptions?.numberingSystem,
+    minimumFractionDigits: 1,
+  }).formatToParts(1.5);
+  return parts.find((part) => part.type === 'decimal')?.value ?? '.';
+};
+
+const ENTERED_NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/u;
+
+/**
+ * Parses text typed into the closed display. A trailing unit (`82.5 kg`) and surrounding
+ * whitespace are ignored, and a lone comma is read as the decimal separator (`82,5`).
+ * @param {string} text - Raw input text
+ * @param {string} [unit] - Unit suffix to strip, matched case-insensitively
+ * @returns {number | null} - `null` when the text is not a plain number
+ */
+export const parseEnteredValue = (text: string, unit?: string): number | null => {
+  let candidate = text.trim();
+  const suffix = unit?.trim().toLowerCase();
+  if (suffix && candidate.toLowerCase().endsWith(suffix)) {
+    candidate = candidate.slice(0, -suffix.length).trim();
+  }
+  if (!candidate.includes('.') && candidate.split(',').length === 2) {
+    candidate = candidate.replace(',', '.');
+  }
+  if (!ENTERED_NUMBER_PATTERN.test(candidate)) {
+    return null;
+  }
+  const parsed = Number(candidate);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Index of the step nearest to `value` in a `min`/`step` range of `count` rows.
+ * @param {number} value
+ * @param {{ min: number, step: number, count: number }} range
+ * @returns {number}
+ */
+export const nearestStepIndex = (
+  value: number,
+  { min, step, count }: { min: number; step: number; count: number }
+) => (step > 0 ? Math.max(0, Math.min(count - 1, Math.round((value - min) / step))) : 0);
@@ -0,0 +1,39 @@
+import type { PickerRangeSource } from '../picker/types/rangeSource';
+
+/**
+ * Row values of the quick picker by index, as plain `toFixed`-style strings. Regular ranges
+ * are arrays; ranges above `LAZY_RANGE_THRESHOLD` rows compute each entry when asked for and
+ * carry the `source` the wheel reads them through.
+ */
+export interface ValueList {
+  readonly length: number;
+  /** Entry at `index` in [0, length) */
+  at(index: number): string | undefined;
+  indexOf(value: string): number;
+  /** Set on lazy lists: the range the entries come from */
+  readonly source?: PickerRangeSource;
+}
+
+/** Display labels by entry of a `ValueList` (a `Map` for array lists) */
+export interface ValueLabels {
+  get(value: string): string | undefined;
+}
+
+/**
+ * Wraps a range source as a value list without materializing its entries.
+ * @param {PickerRangeSource} source
+ * @param {(value: number) => string} toValueString - Formats a row value as a list entry
+ * @returns {ValueList}
+ */
+export const createLazyValueList = (
+  source: PickerRangeSource,
+  toValueString: (value: number) => string
+): ValueList => ({
+  length: source.count,
+  at: (index) =>
+    Number.isInteger(index) && index >= 0 && index < source.count
+      ? toValueString(source.valueAt(index))
+      : undefined,
+  indexOf: (value) => source.indexOf(value),
+  source,
+});
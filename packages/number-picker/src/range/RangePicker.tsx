@@ -0,0 +1,251 @@
+import React, { useCallback, useMemo, type CSSProperties } from 'react';
+import PickerGroup, { type PickerOption as PickerGroupOption } from '../picker';
+import type { PickerRangeSource } from '../picker/types/rangeSource';
+import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerColumnVariant } from '../picker/types/variant';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import { createRangeSource, mergeSnapConfig } from '../utils/pickerOptions';
+import { createFeedbackAdapters, type FeedbackAdapters } from '../quick/feedback';
+import { usePickerGestureFeedback } from '../shared/hooks';
+import {
+  gapInSteps,
+  normalizeRangeIndices,
+  resolveRangeChange,
+  type RangeCollision,
+  type RangeIndices,
+  type RangeValue,
+} from './rangeUtils';
+
+/**
+ * Props for RangePicker component
+ *
+ * `value` is `[low, high]`; `onChange` always receives a pair that satisfies
+ * `low <= high - minGap`, with both ends on the `min`/`max`/`step` grid.
+ */
+export interface RangePickerProps {
+  value: RangeValue;
+  onChange: (value: RangeValue) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Smallest allowed distance between the ends (e.g. 4 for a rep range of at least 4 reps) */
+  minGap?: number;
+  /** Moving one end into the other's gap pushes the other end (`push`) or bounces off (`block`) */
+  collision?: RangeCollision;
+  /** Row labels; defaults to decimal-aware formatting of the step */
+  formatter?: (value: number) => string;
+  unit?: string;
+  visibleItems?: number;
+  itemHeight?: number;
+  className?: string;
+  accentColor?: string;
+  highlightColor?: string;
+  variant?: PickerColumnVariant;
+  disabled?: boolean;
+  readOnly?: boolean;
+  animateExternalChanges?: AnimateExternalChanges;
+  enableSnapPhysics?: boolean;
+  snapPhysicsConfig?: Partial<SnapPhysicsConfig>;
+  wheelSensitivity?: number;
+  wheelDeltaCap?: number;
+  /** Enable haptic feedback on value changes (requires device support) */
+  enableHaptics?: boolean;
+  /** Enable audio feedback on value commit (requires user interaction) */
+  enableAudioFeedback?: boolean;
+  /** Text between the columns */
+  separator?: string;
+  /** Accessible names for the columns */
+  columnLabels?: { low?: string; high?: string };
+}
+
+type RangeColumnKey = 'low' | 'high';
+
+const clampVisibleItems = (visibleItems?: number): number => {
+  if (!Number.isFinite(visibleItems) || (visibleItems ?? 0) < 3) {
+    return 5;
+  }
+  const candidate = visibleItems as number;
+  return candidate % 2 === 0 ? candidate + 1 : candidate;
+};
+
+/**
+ * RangePicker - Linked low/high wheels for choosing an interval
+ *
+ * Built on PickerGroup, so both ends change in one `onChange` and share the momentum physics,
+ * keyboard steps and ArrowLeft/ArrowRight column navigation of the other pickers.
+ *
+ * Features:
+ * - `min`/`max`/`step` rows from the same range generation as Picker
+ * - `minGap` keeps the ends apart; `collision` decides whether a moving end pushes the other
+ *   one along or stops at the gap
+ * - Rows that can never be part of a valid range are disabled
+ *
+ * @example
+ * ```tsx
+ * const [reps, setReps] = useState<[number, number]>([8, 12]);
+ * <RangePicker value={reps} onChange={setReps} min={1} max={30} minGap={2} />
+ *
+ * const [price, setPrice] = useState<[number, number]>([20, 80]);
+ * <RangePicker value={price} onChange={setPrice} max={500} step={5} unit="€" collision="block" />
+ * ```
+ */
+function RangePicker({
+  value,
+  onChange,
+  min = 0,
+  max = 100,
+  step = 1,
+  minGap = 0,
+  collision = 'push',
+  formatter,
+  unit = '',
+  visibleItems = 5,
+  itemHeight = 48,
+  className = '',
+  accentColor = '#3EDCFF',
+  highlightColor,
+  variant = 'flat',
+  disabled = false,
+  readOnly = false,
+  animateExternalChanges,
+  enableSnapPhysics = false,
+  snapPhysicsConfig,
+  wheelSensitivity,
+  wheelDeltaCap,
+  enableHaptics = false,
+  enableAudioFeedback = false,
+  separator = '–',
+  columnLabels,
+}: RangePickerProps) {
+  const adapters = useMemo<FeedbackAdapters>(
+    () => createFeedbackAdapters({ enableHaptics, enableAudioFeedback }),
+    [enableHaptics, enableAudioFeedback]
+  );
+  const handleGesture = usePickerGestureFeedback(adapters);
+
+  // Rows are read by index, so a 0–100000 range in 0.01 steps builds nothing up front
+  const rangeSource = useMemo(
+    () => createRangeSource({ min, max: max >= min ? max : min, step, formatter }),
+    [formatter, max, min, step]
+  );
+  const lastIndex = rangeSource.count - 1;
+  const gap = gapInSteps(minGap, step);
+
+  // Values snap to the nearest row, then both ends are fitted around the gap
+  const indexOfValue = useCallback(
+    (target: number) => {
+      const index = step > 0 ? Math.round((target - min) / step) : 0;
+      return Number.isFinite(index) ? Math.min(Math.max(0, index), lastIndex) : 0;
+    },
+    [lastIndex, min, step]
+  );
+  const selection = useMemo<RangeIndices>(
+    () =>
+      normalizeRangeIndices(
+        { low: indexOfValue(value[0]), high: indexOfValue(value[1]) },
+        lastIndex,
+        gap
+      ),
+    [gap, indexOfValue, lastIndex, value]
+  );
+
+  const pickerValue = useMemo<Record<RangeColumnKey, number>>(
+    () => ({
+      low: rangeSource.valueAt(selection.low),
+      high: rangeSource.valueAt(selection.high),
+    }),
+    [rangeSource, selection]
+  );
+
+  const handleValueChange = useCallback(
+    (next: Record<string, string | number>) => {
+      const resolved = resolveRangeChange(
+        selection,
+        { low: rangeSource.indexOf(next.low), high: rangeSource.indexOf(next.high) },
+        lastIndex,
+        gap,
+        collision
+      );
+      onChange([rangeSource.valueAt(resolved.low), rangeSource.valueAt(resolved.high)]);
+    },
+    [collision, gap, lastIndex, onChange, rangeSource, selection]
+  );
+
+  // Both columns share the range; `block` also disables the rows inside the other end's gap
+  const renderRow = useCallback<PickerGroupOption['render']>(
+    (state) => (
+      <div
+        className={`np-wheel-item ${state.selected || state.visuallySelected ? 'np-wheel-item-selected' : ''} ${state.disabled ? 'np-wheel-item-disabled' : ''}`}
+      >
+        <span>{rangeSource.labelAt(rangeSource.indexOf(state.value))}</span>
+        {unit && <span className="np-wheel-unit">{unit}</span>}
+      </div>
+    ),
+    [rangeSource, unit]
+  );
+  const columns = useMemo<Record<RangeColumnKey, PickerRangeSource>>(() => {
+    const span = Math.min(gap, lastIndex);
+    const highestLow = collision === 'block' ? selection.high - span : lastIndex - span;
+    const lowestHigh = collision === 'block' ? selection.low + span : span;
+    return {
+      low: { ...rangeSource, isDisabled: (index) => index > highestLow },
+      high: { ...rangeSource, isDisabled: (index) => index < lowestHigh },
+    };
+  }, [collision, gap, lastIndex, rangeSource, selection]);
+
+  const pickerHeight = itemHeight * clampVisibleItems(visibleItems);
+  const mergedSnapConfig = mergeSnapConfig(enableSnapPhysics, snapPhysicsConfig);
+
+  const containerStyle = useMemo<CSSProperties>(
+    () =>
+      ({
+        '--picker-highlight-color': highlightColor ?? accentColor,
+        '--np-wheel-accent-color': accentColor,
+      }) as CSSProperties,
+    [accentColor, highlightColor]
+  );
+
+  const columnProps = {
+    snapConfig: mergedSnapConfig,
+    variant,
+    animateExternalChanges,
+    onGesture: handleGesture,
+  };
+
+  return (
+    <div className={`np-wheel-picker np-range-picker ${className}`} style={containerStyle}>
+      <div className="np-wheel-container">
+        <PickerGroup
+          value={pickerValue}
+          onChange={handleValueChange}
+          height={pickerHeight}
+          itemHeight={itemHeight}
+          wheelSensitivity={wheelSensitivity}
+          wheelDeltaCap={wheelDeltaCap}
+          disabled={disabled}
+          readOnly={readOnly}
+        >
+          <PickerGroup.Column
+            name="low"
+            aria-label={columnLabels?.low ?? 'Minimum'}
+            source={columns.low}
+            renderSourceItem={renderRow}
+            {...columnProps}
+          />
+          <div className="np-range-separator" aria-hidden>
+            {separator}
+          </div>
+          <PickerGroup.Column
+            name="high"
+            aria-label={columnLabels?.high ?? 'Maximum'}
+            source={columns.high}
+            renderSourceItem={renderRow}
+            {...columnProps}
+          />
+        </PickerGroup>
+      </div>
+    </div>
+  );
+}
+
+export default RangePicker;
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import RangePicker, { type RangePickerProps } from '../RangePicker';
+import type { RangeValue } from '../rangeUtils';
+
+const columnNamed = (label: string) => screen.getByLabelText(label) as HTMLElement;
+
+const selectedLabel = (label: string) =>
+  columnNamed(label).querySelector('[aria-selected="true"]')?.textContent;
+
+const disabledLabels = (label: string) =>
+  Array.from(columnNamed(label).querySelectorAll('[aria-disabled="true"]')).map(
+    (row) => row.textContent
+  );
+
+function Harness({
+  initial,
+  onChange,
+  ...props
+}: Omit<RangePickerProps, 'value' | 'onChange'> & {
+  initial: RangeValue;
+  onChange: (value: RangeValue) => void;
+}) {
+  const [value, setValue] = useState<RangeValue>(initial);
+  return (
+    <RangePicker
+      value={value}
+      onChange={(next) => {
+        onChange(next);
+        setValue(next);
+      }}
+      {...props}
+    />
+  );
+}
+
+describe('RangePicker', () => {
+  it('shows both ends of the range', () => {
+    render(<RangePicker value={[8, 12]} onChange={() => {}} min={1} max={30} />);
+
+    expect(selectedLabel('Minimum')).toBe('8');
+    expect(selectedLabel('Maximum')).toBe('12');
+  });
+
+  it('pushes the high end along when the low end moves into the gap', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<Harness initial={[8, 10]} onChange={onChange} min={1} max={30} minGap={2} />);
+
+    columnNamed('Minimum').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith([9, 11]);
+    expect(selectedLabel('Maximum')).toBe('11');
+  });
+
+  it('disables the rows that can never start or end a range', () => {
+    render(<RangePicker value={[8, 12]} onChange={() => {}} min={1} max={10} minGap={2} />);
+
+    expect(disabledLabels('Minimum')).toEqual(['9', '10']);
+    expect(disabledLabels('Maximum')).toEqual(['1', '2']);
+  });
+
+  it('blocks the moving end at the gap instead of pushing', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <Harness
+        initial={[8, 10]}
+        onChange={onChange}
+        min={1}
+        max={30}
+        minGap={2}
+        collision="block"
+      />
+    );
+
+    expect(disabledLabels('Minimum')).toContain('9');
+    expect(disabledLabels('Maximum')).toContain('9');
+
+    columnNamed('Minimum').focus();
+    await user.keyboard('{ArrowDown}');
+    expect(onChange).not.toHaveBeenCalled();
+
+    await user.keyboard('{ArrowUp}');
+    expect(onChange).toHaveBeenLastCalledWith([7, 10]);
+  });
+
+  it('fits values off the grid or inside the gap to the nearest valid range', () => {
+    render(
+      <RangePicker value={[20.4, 20]} onChange={() => {}} min={0} max={100} step={5} minGap={10} />
+    );
+
+    expect(selectedLabel('Minimum')).toBe('20');
+    expect(selectedLabel('Maximum')).toBe('30');
+  });
+
+  it('renders only the visible rows of a huge range', () => {
+    render(
+      <RangePicker value={[10, 20]} onChange={() => {}} max={100000} step={0.01} minGap={1} />
+    );
+
+    expect(selectedLabel('Minimum')).toBe('10');
+    expect(selectedLabel('Maximum')).toBe('20');
+    expect(columnNamed('Minimum').querySelectorAll('[role="option"]').length).toBeLessThan(50);
+    expect(disabledLabels('Maximum')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { gapInSteps, normalizeRangeIndices, resolveRangeChange } from '../rangeUtils';
+
+describe('gapInSteps', () => {
+  it('rounds gaps up to whole steps', () => {
+    expect(gapInSteps(4, 1)).toBe(4);
+    expect(gapInSteps(5, 2)).toBe(3);
+    expect(gapInSteps(0.3, 0.1)).toBe(3);
+    expect(gapInSteps(0, 1)).toBe(0);
+    expect(gapInSteps(2, 0)).toBe(0);
+  });
+});
+
+describe('normalizeRangeIndices', () => {
+  it('keeps the low end and moves the high end out of the gap', () => {
+    expect(normalizeRangeIndices({ low: 5, high: 6 }, 20, 3)).toEqual({ low: 5, high: 8 });
+    expect(normalizeRangeIndices({ low: 9, high: 2 }, 20, 0)).toEqual({ low: 9, high: 9 });
+  });
+
+  it('moves the low end down when the gap would run past the last row', () => {
+    expect(normalizeRangeIndices({ low: 19, high: 20 }, 20, 3)).toEqual({ low: 17, high: 20 });
+  });
+
+  it('collapses a gap wider than the range to the whole range', () => {
+    expect(normalizeRangeIndices({ low: 1, high: 2 }, 4, 10)).toEqual({ low: 0, high: 4 });
+  });
+});
+
+describe('resolveRangeChange', () => {
+  const previous = { low: 8, high: 12 };
+
+  it('leaves changes that keep the gap alone', () => {
+    expect(resolveRangeChange(previous, { low: 9, high: 12 }, 30, 2, 'push')).toEqual({
+      low: 9,
+      high: 12,
+    });
+  });
+
+  it('pushes the other end along', () => {
+    expect(resolveRangeChange(previous, { low: 11, high: 12 }, 30, 2, 'push')).toEqual({
+      low: 11,
+      high: 13,
+    });
+    expect(resolveRangeChange(previous, { low: 8, high: 3 }, 30, 2, 'push')).toEqual({
+      low: 1,
+      high: 3,
+    });
+  });
+
+  it('stops the pushing end where the other one hits the bounds', () => {
+    expect(resolveRangeChange(previous, { low: 30, high: 12 }, 30, 2, 'push')).toEqual({
+      low: 28,
+      high: 30,
+    });
+    expect(resolveRangeChange(previous, { low: 8, high: 0 }, 30, 2, 'push')).toEqual({
+      low: 0,
+      high: 2,
+    });
+  });
+
+  it('stops the moving end at the gap when blocking', () => {
+    expect(resolveRangeChange(previous, { low: 11, high: 12 }, 30, 2, 'block')).toEqual({
+      low: 10,
+      high: 12,
+    });
+    expect(resolveRangeChange(previous, { low: 8, high: 3 }, 30, 2, 'block')).toEqual({
+      low: 8,
+      high: 10,
+    });
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Range Picker Module
+ *
+ * Export: `RangePicker` - Linked low/high wheels built on PickerGroup
+ */
+
+export { default } from './RangePicker';
+export { default as RangePicker } from './RangePicker';
+export type { RangePickerProps } from './RangePicker';
+export type { RangeCollision, RangeValue } from './rangeUtils';
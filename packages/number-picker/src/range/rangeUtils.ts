@@ -0,0 +1,97 @@
+/**
+ * Pure helpers for RangePicker. Both ends are handled as row indices into the shared option
+ * list, so the minimum gap is a whole number of steps and no floating-point sum ever lands
+ * between two rows.
+ */
+
+/** `[low, high]` */
+export type RangeValue = [number, number];
+
+/**
+ * What happens when one end moves into the gap of the other:
+ * - `push`: the other end moves along (up to the bounds of the range)
+ * - `block`: rows inside the gap are disabled, so the wheel bounces back off them
+ */
+export type RangeCollision = 'push' | 'block';
+
+/** Selected rows of both ends (`low <= high - gap`) */
+export interface RangeIndices {
+  low: number;
+  high: number;
+}
+
+/**
+ * Steps needed to cover `minGap`. Gaps that aren't a whole number of steps round up, so the
+ * selected values never end up closer than `minGap`.
+ * @param {number} minGap
+ * @param {number} step
+ * @returns {number}
+ */
+export const gapInSteps = (minGap: number, step: number): number => {
+  if (!(minGap > 0) || !(step > 0)) return 0;
+  // Tolerate the float error of decimal steps (0.3 / 0.1 = 2.9999999999999996)
+  return Math.ceil(minGap / step - 1e-9);
+};
+
+/**
+ * Fits a pair of row indices to `[0, lastIndex]` with `gap` steps between them, keeping the
+ * low end where it can. A gap wider than the list collapses to the whole list.
+ * @param {RangeIndices} indices
+ * @param {number} lastIndex
+ * @param {number} gap
+ * @returns {RangeIndices}
+ */
+export const normalizeRangeIndices = (
+  { low, high }: RangeIndices,
+  lastIndex: number,
+  gap: number
+): RangeIndices => {
+  const span = Math.min(gap, lastIndex);
+  const nextLow = Math.min(Math.max(0, low), lastIndex - span);
+  const nextHigh = Math.min(Math.max(nextLow + span, high), lastIndex);
+  return { low: nextLow, high: nextHigh };
+};
+
+/**
+ * Resolves a change of one end against the other. `push` moves the other end out of the way
+ * (and stops the moved end where the other one hits the bounds); `block` stops the moved end
+ * at the gap.
+ * @param {RangeIndices} previous - Selection before the change
+ * @param {RangeIndices} next - Selection with the moved end updated
+ * @param {number} lastIndex
+ * @param {number} gap - Minimum gap in steps
+ * @param {RangeCollision} collision
+ * @returns {RangeIndices}
+ */
+export const resolveRangeChange = (
+  previous: RangeIndices,
+  next: RangeIndices,
+  lastIndex: number,
+  gap: number,
+  collision: RangeCollision
+): RangeIndices => {
+  const span = Math.min(gap, lastIndex);
+  const lowMoved = next.low !== previous.low;
+  const highMoved = next.high !== previous.high;
+  if (!lowMoved && !highMoved) {
+    return normalizeRangeIndices(next, lastIndex, gap);
+  }
+
+  if (lowMoved && !highMoved) {
+    const low = Math.min(Math.max(0, next.low), lastIndex - span);
+    if (low + span <= next.high) return { low, high: next.high };
+    return collision === 'push'
+      ? { low, high: low + span }
+      : { low: Math.max(0, next.high - span), high: next.high };
+  }
+
+  if (highMoved && !lowMoved) {
+    const high = Math.max(Math.min(lastIndex, next.high), span);
+    if (next.low + span <= high) return { low: next.low, high };
+    return collision === 'push'
+      ? { low: high - span, high }
+      : { low: next.low, high: Math.min(lastIndex, next.low + span) };
+  }
+
+  return normalizeRangeIndices(next, lastIndex, gap);
+};
@@ -0,0 +1,128 @@
+/**
+ * Form participation for pickers
+ *
+ * Pickers render no native form control, so each one that takes a `name` renders this input
+ * alongside it: the input carries the serialized value into `FormData`, reports validity to
+ * `form.checkValidity()`, and hands the parent form's `reset` back to the picker. When the form
+ * focuses the input to report a problem, focus moves on to the visible picker.
+ *
+ * @module shared/FormValueInput
+ */
+
+import { useCallback, useEffect, useRef, type CSSProperties } from 'react';
+import type { PickerValidationMessages } from '../picker/types/validation';
+
+// Out of sight and out of the tab order, but still validated: `type="hidden"` and readonly
+// inputs are barred from constraint validation, so they could never report `required`
+const VISUALLY_HIDDEN: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  opacity: 0,
+  pointerEvents: 'none',
+};
+
+// The value is driven by the picker; typing into the (unreachable) input is never expected
+const ignoreChange = () => {};
+
+export interface FormValueInputProps {
+  name: string;
+  /** Id of the form to join when the picker isn't inside it */
+  form?: string;
+  /** Serialized value; empty means "no value" for `required` */
+  value: string;
+  required?: boolean;
+  /** Disabled fields are left out of `FormData` and validation, like native controls */
+  disabled?: boolean;
+  /** Marks the field invalid with this message (empty or omitted: valid) */
+  validationMessage?: string;
+  /** Called when the form is reset; restore the value the picker started with */
+  onReset?: () => void;
+  /** Moves focus to the visible picker; called when the form focuses the input to report it */
+  focusPicker?: () => void;
+}
+
+/**
+ * Visually hidden input that submits, validates, and resets with the parent form.
+ * @param {FormValueInputProps} props
+ * @returns {React.ReactElement}
+ */
+export function FormValueInput({
+  name,
+  form,
+  value,
+  required = false,
+  disabled = false,
+  validationMessage = '',
+  onReset,
+  focusPicker,
+}: FormValueInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const onResetRef = useRef(onReset);
+  const focusPickerRef = useRef(focusPicker);
+  useEffect(() => {
+    onResetRef.current = onReset;
+    focusPickerRef.current = focusPicker;
+  }, [focusPicker, onReset]);
+
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(validationMessage);
+  }, [validationMessage]);
+
+  // `form` joins another form by id instead of the enclosing one; the listener moves with it
+  useEffect(() => {
+    const input = inputRef.current;
+    const owner = form ? input?.ownerDocument.getElementById(form) : input?.form;
+    if (!owner) return undefined;
+    const handleReset = () => onResetRef.current?.();
+    owner.addEventListener('reset', handleReset);
+    return () => owner.removeEventListener('reset', handleReset);
+  }, [form]);
+
+  // `reportValidity()` and blocked submits focus the first invalid field; it's hidden here
+  const handleFocus = useCallback(() => focusPickerRef.current?.(), []);
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      name={name}
+      form={form}
+      value={value}
+      required={required}
+      disabled={disabled}
+      onChange={ignoreChange}
+      onFocus={handleFocus}
+      tabIndex={-1}
+      aria-hidden
+      style={VISUALLY_HIDDEN}
+    />
+  );
+}
+
+/**
+ * Message for a number outside `[min, max]`, or an empty string when it's inside.
+ * @param {number} value
+ * @param {number} min
+ * @param {number} max - `Infinity` for no upper end
+ * @param {PickerValidationMessages} [messages] - Consumer messages replacing the English ones
+ * @returns {string}
+ */
+export const rangeValidationMessage = (
+  value: number,
+  min: number,
+  max: number,
+  messages?: PickerValidationMessages
+): string => {
+  if (!Number.isFinite(value) || (value >= min && value <= max)) return '';
+  if (!Number.isFinite(max)) {
+    return messages?.belowMin?.(min) ?? `Value must be ${min} or more.`;
+  }
+  return messages?.outOfRange?.(min, max) ?? `Value must be between ${min} and ${max}.`;
+};
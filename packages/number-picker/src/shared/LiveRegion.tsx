@@ -0,0 +1,36 @@
+/**
+ * Polite live region for picker announcements
+ *
+ * Screen readers read out text placed in it without moving focus. Pair it with
+ * `useLiveAnnouncer`, which throttles what ends up here.
+ *
+ * @module shared/LiveRegion
+ */
+
+import type { CSSProperties } from 'react';
+
+// Off screen but still in the accessibility tree (`display: none` would silence it)
+const SCREEN_READER_ONLY: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+};
+
+/**
+ * Visually hidden `<output>` (implicitly `role="status"`) announcing `message`.
+ * @param {{ message: string }} props
+ * @returns {React.ReactElement}
+ */
+export function LiveRegion({ message }: { message: string }) {
+  return (
+    <output aria-live="polite" aria-atomic style={SCREEN_READER_ONLY}>
+      {message}
+    </output>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Native number input bound to a range source
+ *
+ * Used by the native fallback of range pickers: `min`, `max`, and `step` come from the source,
+ * and only values on the range are committed. Text that isn't (yet) a valid value stays in the
+ * field while typing and is replaced by the current value on blur.
+ *
+ * @module shared/NativeNumberInput
+ */
+
+import { useState, type CSSProperties, type ChangeEvent, type Ref } from 'react';
+import type { PickerRangeSource } from '../picker/types/rangeSource';
+
+export interface NativeNumberInputProps {
+  source: PickerRangeSource;
+  /** Current value; empty for none */
+  value: string | number;
+  /** Called with values on the range only */
+  onCommit: (value: number) => void;
+  disabled?: boolean;
+  readOnly?: boolean;
+  placeholder?: string;
+  inputRef?: Ref<HTMLInputElement>;
+  id?: string;
+  className?: string;
+  style?: CSSProperties;
+  'aria-label'?: string;
+  'aria-labelledby'?: string;
+  'aria-describedby'?: string;
+}
+
+/**
+ * `min`/`max`/`step` attributes of a source; `max` is omitted for unbounded sources.
+ * @param {PickerRangeSource} source
+ * @returns {{ min: number; max?: number; step?: number }}
+ */
+export const rangeSourceAttributes = (source: PickerRangeSource) => {
+  if (source.count <= 0) return {};
+  const min = source.valueAt(0);
+  const max = Number.isFinite(source.count) ? source.valueAt(source.count - 1) : undefined;
+  // Rounded so 0.3 - 0.2 reads as 0.1
+  const step = source.count > 1 ? Number((source.valueAt(1) - min).toPrecision(12)) : undefined;
+  return { min, max, step };
+};
+
+/**
+ * `<input type="number">` that commits values on the source's range.
+ * @param {NativeNumberInputProps} props
+ * @returns {React.ReactElement}
+ */
+export function NativeNumberInput({
+  source,
+  value,
+  onCommit,
+  disabled = false,
+  readOnly = false,
+  placeholder,
+  inputRef,
+  id,
+  className,
+  style,
+  ...ariaProps
+}: NativeNumberInputProps) {
+  // Text being typed; null shows the committed value
+  const [draft, setDraft] = useState<string | null>(null);
+  const { min, max, step } = rangeSourceAttributes(source);
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const text = event.target.value;
+    setDraft(text);
+    if (text.trim() === '') return;
+    const next = Number(text);
+    const current = value === '' ? NaN : Number(value);
+    if (source.indexOf(next) !== -1 && next !== current) {
+      onCommit(next);
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="number"
+      inputMode={step !== undefined && !Number.isInteger(step) ? 'decimal' : 'numeric'}
+      id={id}
+      className={className}
+      style={style}
+      value={draft ?? String(value)}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      readOnly={readOnly}
+      placeholder={placeholder}
+      onChange={handleChange}
+      onBlur={() => setDraft(null)}
+      {...ariaProps}
+    />
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Increment/decrement buttons around a picker field
+ *
+ * Native buttons, so they are focusable and activate with Enter/Space; a held press repeats
+ * with acceleration (see `useStepperRepeat`). Each button names the value it changes and
+ * points `aria-controls` at the picker.
+ *
+ * @module shared/StepperButtons
+ */
+
+import type { ReactNode } from 'react';
+import { ChevronDown, ChevronUp, Minus, Plus } from '../quick/icons';
+import { useStepperRepeat } from './hooks/useStepperRepeat';
+import type { PickerStepperLabels, PickerSteppers } from '../picker/types/steppers';
+
+export interface StepperButtonsProps {
+  /** Omitted: the field renders on its own */
+  layout?: PickerSteppers;
+  /** Moves the value by `delta` rows (negative: toward `min`) */
+  onStep: (delta: number) => void;
+  canDecrement: boolean;
+  canIncrement: boolean;
+  /** Name of the value, used in the button labels (`Increase Weight`) */
+  label?: string;
+  /** Button names set by the consumer; they win over the ones built from `label` */
+  labels?: PickerStepperLabels;
+  /** Id of the picker element the buttons control */
+  controls?: string;
+  /** Rows per press while Shift is held */
+  coarseMultiplier?: number;
+  className?: string;
+  /** The picker field the buttons sit around */
+  children: ReactNode;
+}
+
+interface StepperButtonProps {
+  direction: 1 | -1;
+  onStep: (delta: number) => void;
+  disabled: boolean;
+  label?: string;
+  labels?: PickerStepperLabels;
+  controls?: string;
+  coarseMultiplier?: number;
+  children: ReactNode;
+}
+
+function StepperButton({
+  direction,
+  onStep,
+  disabled,
+  label,
+  labels,
+  controls,
+  coarseMultiplier,
+  children,
+}: StepperButtonProps) {
+  const verb = direction > 0 ? 'Increase' : 'Decrease';
+  const name =
+    (direction > 0 ? labels?.increase : labels?.decrease) ?? (label ? `${verb} ${label}` : verb);
+  const { handlePointerDown, handleClick } = useStepperRepeat({
+    onStep: (rows) => onStep(direction * rows),
+    disabled,
+    coarseMultiplier,
+  });
+
+  return (
+    <button
+      type="button"
+      className={`picker-stepper ${direction > 0 ? 'picker-stepper-increment' : 'picker-stepper-decrement'}`}
+      aria-label={name}
+      aria-controls={controls}
+      disabled={disabled}
+      onPointerDown={handlePointerDown}
+      onClick={handleClick}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Wraps a picker field with stepper buttons: stacked at its end (`inline`) or on both sides
+ * (`flanking`). Without a `layout` the field is returned as is.
+ * @param {StepperButtonsProps} props
+ * @returns {React.ReactElement}
+ */
+export function StepperButtons({
+  layout,
+  onStep,
+  canDecrement,
+  canIncrement,
+  label,
+  labels,
+  controls,
+  coarseMultiplier,
+  className = '',
+  children,
+}: StepperButtonsProps) {
+  if (!layout) {
+    return <>{children}</>;
+  }
+
+  const shared = { onStep, label, labels, controls, coarseMultiplier };
+  const flanking = layout === 'flanking';
+  const decrement = (
+    <StepperButton direction={-1} disabled={!canDecrement} {...shared}>
+      {flanking ? <Minus aria-hidden /> : <ChevronDown aria-hidden />}
+    </StepperButton>
+  );
+  const increment = (
+    <StepperButton direction={1} disabled={!canIncrement} {...shared}>
+      {flanking ? <Plus aria-hidden /> : <ChevronUp aria-hidden />}
+    </StepperButton>
+  );
+
+  return (
+    <div className={`picker-steppers picker-steppers-${layout} ${className}`}>
+      {flanking && decrement}
+      <div className="picker-steppers-field">{children}</div>
+      {flanking ? (
+        increment
+      ) : (
+        <div className="picker-steppers-stack">
+          {increment}
+          {decrement}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useLiveAnnouncer } from '../useLiveAnnouncer';
+
+describe('useLiveAnnouncer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the first announcement right away', () => {
+    const { result } = renderHook(() => useLiveAnnouncer(500));
+
+    act(() => result.current.announce('Hours: 2'));
+    expect(result.current.message).toBe('Hours: 2');
+  });
+
+  it('coalesces announcements inside the interval into the latest one', () => {
+    const { result } = renderHook(() => useLiveAnnouncer(500));
+
+    act(() => result.current.announce('Hours: 2'));
+    act(() => {
+      vi.advanceTimersByTime(100);
+      result.current.announce('Hours: 3');
+      result.current.announce('Hours: 4');
+    });
+    expect(result.current.message).toBe('Hours: 2');
+
+    act(() => {
+      vi.advanceTimersByTime(399);
+    });
+    expect(result.current.message).toBe('Hours: 2');
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.message).toBe('Hours: 4');
+  });
+
+  it('announces immediately again once the interval has passed', () => {
+    const { result } = renderHook(() => useLiveAnnouncer(500));
+
+    act(() => result.current.announce('Hours: 2'));
+    act(() => {
+      vi.advanceTimersByTime(600);
+      result.current.announce('Hours: 3');
+    });
+    expect(result.current.message).toBe('Hours: 3');
+  });
+
+  it('drops a pending announcement on unmount', () => {
+    const { result, unmount } = renderHook(() => useLiveAnnouncer(500));
+
+    act(() => {
+      result.current.announce('Hours: 2');
+      result.current.announce('Hours: 3');
+    });
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -8,3 +8,8 @@
  */
 
 export { usePickerGestureFeedback } from './usePickerGestureFeedback';
+export { useLayoutDirection, layoutDirectionOf } from './useLayoutDirection';
+export { useLiveAnnouncer } from './useLiveAnnouncer';
+export { useNativeFallback, NATIVE_FALLBACK_QUERY } from './useNativeFallback';
+export { useKeyRepeatAcceleration } from './useKeyRepeatAcceleration';
+export { useStepperRepeat } from './useStepperRepeat';
@@ -0,0 +1,49 @@
+/**
+ * Key repeat acceleration
+ *
+ * Holding an arrow key sends auto-repeated keydowns at the OS rate; stepping one row per repeat
+ * makes long ranges slow to cross. This hook times how long the key has been held and steps
+ * more rows per repeat the longer it is (see `KEY_REPEAT_ACCELERATION`), while single presses
+ * always move by one.
+ *
+ * @module shared/hooks/useKeyRepeatAcceleration
+ */
+
+import { useCallback, useRef } from 'react';
+import { keyRepeatRows, modifierStepRows } from '../../picker/utils/precision';
+
+interface StepKeyEvent {
+  key: string;
+  repeat: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+/**
+ * @param coarseMultiplier - Rows per step while Shift is held
+ * @returns Rows the given arrow keydown should move: Alt gives exactly one, Shift multiplies,
+ *   and auto-repeats accelerate
+ *
+ * @example
+ * ```tsx
+ * const stepRows = useKeyRepeatAcceleration(10);
+ * // in onKeyDown: stepBy(stepRows(event) * direction)
+ * ```
+ */
+export function useKeyRepeatAcceleration(coarseMultiplier: number) {
+  const holdRef = useRef<{ key: string; startedAt: number } | null>(null);
+
+  return useCallback(
+    (event: StepKeyEvent) => {
+      const now = Date.now();
+      const hold = holdRef.current;
+      if (!event.repeat || !hold || hold.key !== event.key) {
+        holdRef.current = { key: event.key, startedAt: now };
+        return modifierStepRows(event, coarseMultiplier);
+      }
+      if (event.altKey) return 1;
+      return modifierStepRows(event, coarseMultiplier) * keyRepeatRows(now - hold.startedAt);
+    },
+    [coarseMultiplier]
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Reading direction for pickers
+ *
+ * An explicit `dir` wins; otherwise the direction is read from the rendered element, so a
+ * picker inside `<html dir="rtl">` (or any `direction: rtl` ancestor) mirrors without props.
+ *
+ * @module shared/hooks/useLayoutDirection
+ */
+
+import { useLayoutEffect, useState, type RefObject } from 'react';
+import type { PickerDirection } from '../../picker/types/direction';
+
+/**
+ * Direction an element is laid out in: its computed `direction`, falling back to the nearest
+ * `dir` attribute where styles aren't computed (e.g. jsdom).
+ * @param {Element} element
+ * @returns {PickerDirection}
+ */
+export const layoutDirectionOf = (element: Element): PickerDirection => {
+  const computed = element.ownerDocument.defaultView?.getComputedStyle(element).direction;
+  if (computed === 'rtl' || computed === 'ltr') return computed;
+  return element.closest('[dir]')?.getAttribute('dir')?.toLowerCase() === 'rtl' ? 'rtl' : 'ltr';
+};
+
+/**
+ * Resolves the direction of a picker: `dir` when given, the element's layout direction otherwise.
+ * The element is read once it mounts (before paint), and again when `dir` is dropped.
+ *
+ * @param ref - Element the picker renders into
+ * @param dir - Explicit direction
+ * @returns Resolved direction
+ *
+ * @example
+ * ```tsx
+ * const direction = useLayoutDirection(containerRef, dir);
+ * const nextKey = direction === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+ * ```
+ */
+export function useLayoutDirection(
+  ref: RefObject<Element | null>,
+  dir?: PickerDirection
+): PickerDirection {
+  const [detected, setDetected] = useState<PickerDirection>('ltr');
+
+  useLayoutEffect(() => {
+    if (dir || !ref.current) return;
+    setDetected(layoutDirectionOf(ref.current));
+  }, [dir, ref]);
+
+  return dir ?? detected;
+}
@@ -0,0 +1,65 @@
+/**
+ * Throttled screen reader announcements
+ *
+ * Holds the text of a polite live region. Announcements closer together than the interval are
+ * coalesced: the latest one is shown once the interval has passed, so a run of keyboard steps
+ * reads out the value the user stopped on instead of every value on the way.
+ *
+ * @module shared/hooks/useLiveAnnouncer
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const DEFAULT_INTERVAL_MS = 500;
+
+/**
+ * @param intervalMs - Minimum time between two announcements
+ * @returns Current message for the live region and a stable `announce` function
+ *
+ * @example
+ * ```tsx
+ * const { message, announce } = useLiveAnnouncer();
+ * announce('Hours: 10');
+ * <LiveRegion message={message} />
+ * ```
+ */
+export function useLiveAnnouncer(intervalMs: number = DEFAULT_INTERVAL_MS) {
+  const [message, setMessage] = useState('');
+  const lastAnnouncedAtRef = useRef(-Infinity);
+  const pendingRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (timerRef.current !== null) clearTimeout(timerRef.current);
+    },
+    []
+  );
+
+  const announce = useCallback(
+    (text: string) => {
+      const now = Date.now();
+      const wait = lastAnnouncedAtRef.current + intervalMs - now;
+      if (wait <= 0 && timerRef.current === null) {
+        lastAnnouncedAtRef.current = now;
+        setMessage(text);
+        return;
+      }
+
+      pendingRef.current = text;
+      if (timerRef.current !== null) return;
+      timerRef.current = setTimeout(
+        () => {
+          timerRef.current = null;
+          lastAnnouncedAtRef.current = Date.now();
+          setMessage(pendingRef.current ?? '');
+          pendingRef.current = null;
+        },
+        Math.max(0, wait)
+      );
+    },
+    [intervalMs]
+  );
+
+  return { message, announce };
+}
@@ -0,0 +1,55 @@
+/**
+ * Native control fallback
+ *
+ * Decides whether a picker renders native form controls instead of the wheel. `"auto"` picks
+ * them where the wheel is the weaker choice: forced-colors mode (high contrast, often paired
+ * with assistive tech) and touch-only devices, whose OS pickers are built for them. Server
+ * markup and hydration use native controls too, so the page works before JavaScript runs.
+ *
+ * @module shared/hooks/useNativeFallback
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { PickerFallback } from '../../picker/types/fallback';
+
+/** Media query under which `fallback="auto"` renders native controls */
+export const NATIVE_FALLBACK_QUERY = '(forced-colors: active), (pointer: coarse) and (hover: none)';
+
+const nativeQuery = () =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? window.matchMedia(NATIVE_FALLBACK_QUERY)
+    : null;
+
+const noop = () => {};
+
+/**
+ * @param fallback - The picker's `fallback` prop
+ * @returns Whether to render native controls
+ *
+ * @example
+ * ```tsx
+ * const native = useNativeFallback(fallback);
+ * if (native) return <NativeSelect … />;
+ * ```
+ */
+export function useNativeFallback(fallback?: PickerFallback): boolean {
+  const isAuto = fallback === 'auto';
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const query = isAuto ? nativeQuery() : null;
+      if (!query) return noop;
+      query.addEventListener('change', onChange);
+      return () => query.removeEventListener('change', onChange);
+    },
+    [isAuto]
+  );
+  const prefersNative = useSyncExternalStore(
+    subscribe,
+    () => isAuto && (nativeQuery()?.matches ?? false),
+    // Server markup (and the hydration pass that reuses it) can't know the device yet
+    () => isAuto
+  );
+
+  return fallback === 'native' || prefersNative;
+}
@@ -0,0 +1,110 @@
+/**
+ * Press-and-hold auto-repeat for stepper buttons
+ *
+ * A press steps once right away; holding the button keeps stepping every
+ * `STEPPER_REPEAT_INTERVAL` after `STEPPER_REPEAT_DELAY`, covering more rows per step the
+ * longer it is held (the same `KEY_REPEAT_ACCELERATION` stages as held arrow keys). Shift
+ * multiplies and Alt pins steps to one row, as on the wheel.
+ *
+ * @module shared/hooks/useStepperRepeat
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+import {
+  COARSE_STEP_MULTIPLIER,
+  STEPPER_REPEAT_DELAY,
+  STEPPER_REPEAT_INTERVAL,
+} from '../../config/ui';
+import { keyRepeatRows, modifierStepRows } from '../../picker/utils/precision';
+
+interface UseStepperRepeatOptions {
+  /** Moves the value by `rows` (always positive; the button knows its direction) */
+  onStep: (rows: number) => void;
+  /** Stops a running repeat, e.g. when the value reaches `min`/`max` */
+  disabled?: boolean;
+  /** Rows per step while Shift is held */
+  coarseMultiplier?: number;
+}
+
+/**
+ * @param options - Step callback, disabled state, and Shift multiplier
+ * @returns Pointer-down and click handlers for the button
+ *
+ * @example
+ * ```tsx
+ * const repeat = useStepperRepeat({ onStep: (rows) => stepBy(rows) });
+ * <button onPointerDown={repeat.handlePointerDown} onClick={repeat.handleClick} />
+ * ```
+ */
+export function useStepperRepeat({
+  onStep,
+  disabled = false,
+  coarseMultiplier = COARSE_STEP_MULTIPLIER,
+}: UseStepperRepeatOptions) {
+  // Repeats read the latest callback, so each step starts from the value the last one committed
+  const onStepRef = useRef(onStep);
+  useLayoutEffect(() => {
+    onStepRef.current = onStep;
+  }, [onStep]);
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  const stop = useCallback(() => {
+    stopRef.current?.();
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLButtonElement>) => {
+      if (disabled || event.button > 0) return;
+      stop();
+
+      const rows = modifierStepRows(event, coarseMultiplier);
+      // Held time follows the schedule, so a stalled frame doesn't skip an acceleration stage
+      let heldMs = STEPPER_REPEAT_DELAY;
+      const repeat = () => {
+        onStepRef.current(rows * keyRepeatRows(heldMs));
+        heldMs += STEPPER_REPEAT_INTERVAL;
+        timerRef.current = setTimeout(repeat, STEPPER_REPEAT_INTERVAL);
+      };
+
+      // The release can land outside the button (or on it after it was disabled at a bound)
+      const release = () => {
+        if (timerRef.current) {
+          clearTimeout(timerRef.current);
+          timerRef.current = null;
+        }
+        window.removeEventListener('pointerup', release);
+        window.removeEventListener('pointercancel', release);
+        window.removeEventListener('blur', release);
+        stopRef.current = null;
+      };
+      stopRef.current = release;
+      window.addEventListener('pointerup', release);
+      window.addEventListener('pointercancel', release);
+      window.addEventListener('blur', release);
+
+      onStepRef.current(rows);
+      timerRef.current = setTimeout(repeat, STEPPER_REPEAT_DELAY);
+    },
+    [coarseMultiplier, disabled, stop]
+  );
+
+  // Pointer presses already stepped on pointer down; clicks without a pointer are keyboard
+  // (Enter/Space) or assistive technology activations
+  const handleClick = useCallback(
+    (event: React.MouseEvent<HTMLButtonElement>) => {
+      if (disabled || event.detail !== 0) return;
+      onStepRef.current(modifierStepRows(event, coarseMultiplier));
+    },
+    [coarseMultiplier, disabled]
+  );
+
+  useEffect(() => {
+    if (disabled) stop();
+  }, [disabled, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { handlePointerDown, handleClick };
+}
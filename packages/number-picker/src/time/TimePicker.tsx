@@ -0,0 +1,348 @@
+import React, { useCallback, useMemo, type CSSProperties } from 'react';
+import PickerGroup, { type PickerOption as PickerGroupOption } from '../picker';
+import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerColumnVariant } from '../picker/types/variant';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import { mergeSnapConfig } from '../utils/pickerOptions';
+import { createFeedbackAdapters, type FeedbackAdapters } from '../quick/feedback';
+import { usePickerGestureFeedback } from '../shared/hooks';
+import {
+  buildMinuteGrid,
+  clampToRange,
+  detectHourCycle,
+  fromHour12,
+  getDayPeriodLabels,
+  minuteSpan,
+  overlapsRange,
+  snapToGrid,
+  toHour12,
+  toSeconds,
+  toTimeValue,
+  type TimeGrid,
+  type TimeHourCycle,
+  type TimeRange,
+  type TimeValue,
+} from './timeUtils';
+
+// Shared empty props object to avoid allocations for every row
+const EMPTY_PROPS = {};
+
+const SECONDS = Array.from({ length: 60 }, (_, index) => index);
+const HOURS_24 = Array.from({ length: 24 }, (_, index) => index);
+const HOURS_12 = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Props for TimePicker component
+ *
+ * `value` may be a `{ hours, minutes, seconds }` object (hours 0-23) or a `Date`; `onChange`
+ * receives the same kind back (a `Date` keeps its calendar day).
+ */
+export interface TimePickerProps<T extends TimeValue | Date = TimeValue> {
+  value: T;
+  onChange: (value: T) => void;
+  /** 12h (with AM/PM column) or 24h; detected from `locale` via `Intl.DateTimeFormat` when omitted */
+  hourCycle?: TimeHourCycle;
+  /** Locale used for hour cycle detection and AM/PM labels; defaults to the runtime locale */
+  locale?: string;
+  /** Minute increment (e.g. 5 or 15) */
+  minuteStep?: number;
+  /** Add a seconds column; hidden seconds are always 0 */
+  showSeconds?: boolean;
+  /** Earliest selectable time; earlier rows are disabled */
+  min?: TimeValue | Date;
+  /** Latest selectable time; later rows are disabled */
+  max?: TimeValue | Date;
+  /** Wrap the hour/minute/second columns around (23 → 00); defaults to true */
+  loop?: boolean;
+  visibleItems?: number;
+  itemHeight?: number;
+  className?: string;
+  accentColor?: string;
+  highlightColor?: string;
+  variant?: PickerColumnVariant;
+  disabled?: boolean;
+  readOnly?: boolean;
+  animateExternalChanges?: AnimateExternalChanges;
+  enableSnapPhysics?: boolean;
+  snapPhysicsConfig?: Partial<SnapPhysicsConfig>;
+  wheelSensitivity?: number;
+  wheelDeltaCap?: number;
+  /** Enable haptic feedback on value changes (requires device support) */
+  enableHaptics?: boolean;
+  /** Enable audio feedback on value commit (requires user interaction) */
+  enableAudioFeedback?: boolean;
+  /** Accessible names for the columns */
+  columnLabels?: { hours?: string; minutes?: string; seconds?: string; period?: string };
+}
+
+type TimeColumnKey = 'hours' | 'minutes' | 'seconds' | 'period';
+
+const clampVisibleItems = (visibleItems?: number): number => {
+  if (!Number.isFinite(visibleItems) || (visibleItems ?? 0) < 3) {
+    return 5;
+  }
+  const candidate = visibleItems as number;
+  return candidate % 2 === 0 ? candidate + 1 : candidate;
+};
+
+/**
+ * TimePicker - Hour/minute(/second) wheels with optional AM/PM column
+ *
+ * Built on PickerGroup, so every column gets the same momentum physics, keyboard steps and
+ * ArrowLeft/ArrowRight column navigation as the other pickers.
+ *
+ * Features:
+ * - 12h/24h from the locale's hour cycle (or forced via `hourCycle`)
+ * - `minuteStep` and optional seconds column
+ * - `min`/`max` disable out-of-range rows; column changes that leave the range are clamped
+ * - `{ hours, minutes, seconds }` or `Date` values
+ *
+ * @example
+ * ```tsx
+ * const [time, setTime] = useState({ hours: 9, minutes: 30, seconds: 0 });
+ * <TimePicker value={time} onChange={setTime} minuteStep={5} min={{ hours: 8, minutes: 0, seconds: 0 }} />
+ *
+ * const [alarm, setAlarm] = useState(new Date());
+ * <TimePicker value={alarm} onChange={setAlarm} hourCycle="h23" showSeconds />
+ * ```
+ */
+function TimePicker<T extends TimeValue | Date = TimeValue>({
+  value,
+  onChange,
+  hourCycle: hourCycleProp,
+  locale,
+  minuteStep = 1,
+  showSeconds = false,
+  min,
+  max,
+  loop = true,
+  visibleItems = 5,
+  itemHeight = 48,
+  className = '',
+  accentColor = '#3EDCFF',
+  highlightColor,
+  variant = 'flat',
+  disabled = false,
+  readOnly = false,
+  animateExternalChanges,
+  enableSnapPhysics = false,
+  snapPhysicsConfig,
+  wheelSensitivity,
+  wheelDeltaCap,
+  enableHaptics = false,
+  enableAudioFeedback = false,
+  columnLabels,
+}: TimePickerProps<T>) {
+  const adapters = useMemo<FeedbackAdapters>(
+    () => createFeedbackAdapters({ enableHaptics, enableAudioFeedback }),
+    [enableHaptics, enableAudioFeedback]
+  );
+  const handleGesture = usePickerGestureFeedback(adapters);
+
+  const hourCycle = useMemo(
+    () => hourCycleProp ?? detectHourCycle(locale),
+    [hourCycleProp, locale]
+  );
+  const is12h = hourCycle === 'h12';
+  const periodLabels = useMemo(() => getDayPeriodLabels(locale), [locale]);
+
+  const grid = useMemo<TimeGrid>(
+    () => ({ minutes: buildMinuteGrid(minuteStep), showSeconds }),
+    [minuteStep, showSeconds]
+  );
+
+  const minSeconds = min === undefined ? undefined : toSeconds(toTimeValue(min));
+  const maxSeconds = max === undefined ? undefined : toSeconds(toTimeValue(max));
+  const range = useMemo<TimeRange | null>(
+    () =>
+      minSeconds === undefined && maxSeconds === undefined
+        ? null
+        : { min: minSeconds ?? 0, max: maxSeconds ?? 24 * 3600 - 1 },
+    [maxSeconds, minSeconds]
+  );
+
+  const time = useMemo(() => snapToGrid(toTimeValue(value), grid), [grid, value]);
+  const { hour12, isPm } = toHour12(time.hours);
+
+  const pickerValue = useMemo(() => {
+    const next: Record<TimeColumnKey, string> = {
+      hours: String(is12h ? hour12 : time.hours),
+      minutes: String(time.minutes),
+      seconds: String(time.seconds),
+      period: isPm ? 'pm' : 'am',
+    };
+    return next;
+  }, [hour12, is12h, isPm, time]);
+
+  const handleValueChange = useCallback(
+    (next: Record<string, string | number>) => {
+      const hours = is12h
+        ? fromHour12(Number(next.hours), next.period === 'pm')
+        : Number(next.hours);
+      const nextTime = clampToRange(
+        {
+          hours,
+          minutes: Number(next.minutes),
+          seconds: showSeconds ? Number(next.seconds) : 0,
+        },
+        grid,
+        range
+      );
+
+      if (value instanceof Date) {
+        const nextDate = new Date(value);
+        nextDate.setHours(nextTime.hours, nextTime.minutes, nextTime.seconds, 0);
+        onChange(nextDate as T);
+      } else {
+        onChange(nextTime as T);
+      }
+    },
+    [grid, is12h, onChange, range, showSeconds, value]
+  );
+
+  // Rows are disabled when no selectable second under them falls inside min/max
+  const columns = useMemo(() => {
+    const hourSpan = (hours: number): boolean =>
+      grid.minutes.some((minutes) => overlapsRange(...minuteSpan(hours, minutes, grid), range));
+    const hourValues = is12h ? HOURS_12 : HOURS_24;
+    const to24 = (hours: number) => (is12h ? fromHour12(hours, isPm) : hours);
+
+    // One shared render per column; labels are looked up by row value
+    const build = (entries: Array<{ value: string; label: string; disabled: boolean }>) => {
+      const labels = new Map(entries.map((entry) => [entry.value, entry.label]));
+      const render = (state: {
+        selected: boolean;
+        visuallySelected: boolean;
+        value: string | number;
+        disabled: boolean;
+      }) => (
+        <div
+          className={`np-wheel-item ${state.selected || state.visuallySelected ? 'np-wheel-item-selected' : ''} ${state.disabled ? 'np-wheel-item-disabled' : ''}`}
+        >
+          <span>{labels.get(String(state.value))}</span>
+        </div>
+      );
+      return entries.map<PickerGroupOption>((entry) => ({
+        value: entry.value,
+        render,
+        props: EMPTY_PROPS,
+        disabled: entry.disabled,
+        textValue: entry.label,
+      }));
+    };
+
+    return {
+      hours: build(
+        hourValues.map((hours) => ({
+          value: String(hours),
+          label: is12h ? String(hours) : pad(hours),
+          disabled: !hourSpan(to24(hours)),
+        }))
+      ),
+      minutes: build(
+        grid.minutes.map((minutes) => ({
+          value: String(minutes),
+          label: pad(minutes),
+          disabled: !overlapsRange(...minuteSpan(time.hours, minutes, grid), range),
+        }))
+      ),
+      seconds: build(
+        SECONDS.map((seconds) => {
+          const total = time.hours * 3600 + time.minutes * 60 + seconds;
+          return {
+            value: String(seconds),
+            label: pad(seconds),
+            disabled: !overlapsRange(total, total, range),
+          };
+        })
+      ),
+      period: build(
+        (['am', 'pm'] as const).map((period, index) => ({
+          value: period,
+          label: periodLabels[index],
+          disabled: !HOURS_12.some((hours) => hourSpan(fromHour12(hours, period === 'pm'))),
+        }))
+      ),
+    };
+  }, [grid, is12h, isPm, periodLabels, range, time.hours, time.minutes]);
+
+  const pickerHeight = itemHeight * clampVisibleItems(visibleItems);
+  const mergedSnapConfig = mergeSnapConfig(enableSnapPhysics, snapPhysicsConfig);
+
+  const containerStyle = useMemo<CSSProperties>(
+    () =>
+      ({
+        '--picker-highlight-color': highlightColor ?? accentColor,
+        '--np-wheel-accent-color': accentColor,
+      }) as CSSProperties,
+    [accentColor, highlightColor]
+  );
+
+  const columnProps = {
+    snapConfig: mergedSnapConfig,
+    variant,
+    animateExternalChanges,
+    onGesture: handleGesture,
+  };
+
+  return (
+    <div className={`np-wheel-picker np-time-picker ${className}`} style={containerStyle}>
+      <div className="np-wheel-container">
+        <PickerGroup
+          value={pickerValue}
+          onChange={handleValueChange}
+          height={pickerHeight}
+          itemHeight={itemHeight}
+          wheelSensitivity={wheelSensitivity}
+          wheelDeltaCap={wheelDeltaCap}
+          disabled={disabled}
+          readOnly={readOnly}
+        >
+          <PickerGroup.Column
+            name="hours"
+            aria-label={columnLabels?.hours ?? 'Hours'}
+            options={columns.hours}
+            loop={loop}
+            {...columnProps}
+          />
+          <div className="np-time-separator" aria-hidden>
+            :
+          </div>
+          <PickerGroup.Column
+            name="minutes"
+            aria-label={columnLabels?.minutes ?? 'Minutes'}
+            options={columns.minutes}
+            loop={loop}
+            {...columnProps}
+          />
+          {showSeconds && (
+            <>
+              <div className="np-time-separator" aria-hidden>
+                :
+              </div>
+              <PickerGroup.Column
+                name="seconds"
+                aria-label={columnLabels?.seconds ?? 'Seconds'}
+                options={columns.seconds}
+                loop={loop}
+                {...columnProps}
+              />
+            </>
+          )}
+          {is12h && (
+            <PickerGroup.Column
+              name="period"
+              aria-label={columnLabels?.period ?? 'AM/PM'}
+              options={columns.period}
+              {...columnProps}
+            />
+          )}
+        </PickerGroup>
+      </div>
+    </div>
+  );
+}
+
+export default TimePicker;
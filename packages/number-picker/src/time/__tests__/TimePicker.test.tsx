@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
+import TimePicker from '../TimePicker';
+
+const columnNamed = (label: string) => screen.getByLabelText(label) as HTMLElement;
+
+const disabledLabels = (label: string) =>
+  Array.from(columnNamed(label).querySelectorAll('[role="option"][aria-disabled="true"]')).map(
+    (option) => option.textContent
+  );
+
+// Columns virtualize their rows, so only the window around the selection is rendered
+const optionLabels = (label: string) => [
+  ...new Set(
+    Array.from(columnNamed(label).querySelectorAll('[role="option"]')).map(
+      (option) => option.textContent
+    )
+  ),
+];
+
+const selectedLabel = (label: string) =>
+  columnNamed(label).querySelector('[aria-selected="true"]')?.textContent;
+
+describe('TimePicker', () => {
+  it('renders a 24h clock without a period column', () => {
+    render(
+      <TimePicker
+        value={{ hours: 0, minutes: 30, seconds: 0 }}
+        onChange={() => {}}
+        hourCycle="h23"
+      />
+    );
+
+    expect(selectedLabel('Hours')).toBe('00');
+    expect(optionLabels('Hours')).toContain('23');
+    expect(selectedLabel('Minutes')).toBe('30');
+    expect(screen.queryByLabelText('AM/PM')).toBeNull();
+    expect(screen.queryByLabelText('Seconds')).toBeNull();
+  });
+
+  it('renders a 12h clock with AM/PM and optional seconds', () => {
+    render(
+      <TimePicker
+        value={{ hours: 12, minutes: 30, seconds: 5 }}
+        onChange={() => {}}
+        hourCycle="h12"
+        locale="en-US"
+        showSeconds
+      />
+    );
+
+    expect(selectedLabel('Hours')).toBe('12');
+    expect(optionLabels('Hours')).toEqual(expect.arrayContaining(['11', '12', '1']));
+    expect(optionLabels('AM/PM')).toEqual(['AM', 'PM']);
+    expect(selectedLabel('AM/PM')).toBe('PM');
+    expect(selectedLabel('Seconds')).toBe('05');
+  });
+
+  it('only offers minutes on the minuteStep grid', () => {
+    render(
+      <TimePicker
+        value={{ hours: 9, minutes: 20, seconds: 0 }}
+        onChange={() => {}}
+        hourCycle="h23"
+        minuteStep={15}
+      />
+    );
+
+    expect(optionLabels('Minutes')).toHaveLength(4);
+    expect(optionLabels('Minutes')).toEqual(expect.arrayContaining(['00', '15', '30', '45']));
+    expect(selectedLabel('Minutes')).toBe('15');
+  });
+
+  it('disables rows outside min/max', () => {
+    render(
+      <TimePicker
+        value={{ hours: 8, minutes: 30, seconds: 0 }}
+        onChange={() => {}}
+        hourCycle="h23"
+        minuteStep={15}
+        loop={false}
+        min={{ hours: 8, minutes: 30, seconds: 0 }}
+        max={{ hours: 17, minutes: 30, seconds: 0 }}
+      />
+    );
+
+    expect(disabledLabels('Hours')).toEqual(['03', '04', '05', '06', '07']);
+    // 08:00 and 08:15 are before min; the rest of the 8 o'clock hour is selectable
+    expect(disabledLabels('Minutes')).toEqual(['00', '15']);
+  });
+
+  it('emits a Date on the same day when given a Date', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    const value = new Date(2024, 4, 1, 10, 15, 0);
+
+    render(<TimePicker value={value} onChange={onChange} hourCycle="h23" />);
+
+    columnNamed('Hours').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const next = onChange.mock.calls[0][0] as Date;
+    expect(next).toBeInstanceOf(Date);
+    expect(next.getDate()).toBe(1);
+    expect(next.getHours()).toBe(11);
+    expect(next.getMinutes()).toBe(15);
+  });
+
+  it('clamps column changes that leave the range', async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <TimePicker
+        value={{ hours: 16, minutes: 45, seconds: 0 }}
+        onChange={onChange}
+        hourCycle="h23"
+        minuteStep={15}
+        max={{ hours: 17, minutes: 30, seconds: 0 }}
+      />
+    );
+
+    // 16:45 → 17:45 is past max, so the minutes are pulled back to 17:30
+    columnNamed('Hours').focus();
+    await user.keyboard('{ArrowDown}');
+
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 17, minutes: 30, seconds: 0 });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMinuteGrid,
+  clampToRange,
+  detectHourCycle,
+  fromHour12,
+  snapToGrid,
+  toHour12,
+  toTimeValue,
+  type TimeGrid,
+} from '../timeUtils';
+
+const fiveMinuteGrid: TimeGrid = { minutes: buildMinuteGrid(5), showSeconds: false };
+
+describe('detectHourCycle', () => {
+  it('reads the hour cycle from the locale', () => {
+    expect(detectHourCycle('en-US')).toBe('h12');
+    expect(detectHourCycle('de-DE')).toBe('h23');
+  });
+});
+
+describe('buildMinuteGrid', () => {
+  it('builds multiples of the step', () => {
+    expect(buildMinuteGrid(15)).toEqual([0, 15, 30, 45]);
+    expect(buildMinuteGrid(7)).toEqual([0, 7, 14, 21, 28, 35, 42, 49, 56]);
+  });
+
+  it('falls back to single minutes for invalid steps', () => {
+    expect(buildMinuteGrid(0)).toHaveLength(60);
+    expect(buildMinuteGrid(2.5)).toHaveLength(60);
+  });
+});
+
+describe('toTimeValue / snapToGrid', () => {
+  it('reads the local time of a Date', () => {
+    expect(toTimeValue(new Date(2024, 4, 1, 14, 7, 33))).toEqual({
+      hours: 14,
+      minutes: 7,
+      seconds: 33,
+    });
+  });
+
+  it('snaps minutes down to the grid and drops hidden seconds', () => {
+    expect(snapToGrid({ hours: 9, minutes: 13, seconds: 40 }, fiveMinuteGrid)).toEqual({
+      hours: 9,
+      minutes: 10,
+      seconds: 0,
+    });
+  });
+});
+
+describe('clampToRange', () => {
+  const range = { min: 8 * 3600 + 2 * 60, max: 17 * 3600 + 58 * 60 };
+
+  it('leaves in-range times alone', () => {
+    const time = { hours: 12, minutes: 0, seconds: 0 };
+    expect(clampToRange(time, fiveMinuteGrid, range)).toBe(time);
+  });
+
+  it('moves early times to the first selectable grid time', () => {
+    expect(clampToRange({ hours: 6, minutes: 0, seconds: 0 }, fiveMinuteGrid, range)).toEqual({
+      hours: 8,
+      minutes: 5,
+      seconds: 0,
+    });
+  });
+
+  it('moves late times to the last selectable grid time', () => {
+    expect(clampToRange({ hours: 23, minutes: 0, seconds: 0 }, fiveMinuteGrid, range)).toEqual({
+      hours: 17,
+      minutes: 55,
+      seconds: 0,
+    });
+  });
+});
+
+describe('12h conversion', () => {
+  it('round-trips midnight and noon', () => {
+    expect(toHour12(0)).toEqual({ hour12: 12, isPm: false });
+    expect(toHour12(12)).toEqual({ hour12: 12, isPm: true });
+    expect(fromHour12(12, false)).toBe(0);
+    expect(fromHour12(12, true)).toBe(12);
+    expect(fromHour12(3, true)).toBe(15);
+  });
+});
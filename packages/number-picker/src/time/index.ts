@@ -0,0 +1,10 @@
+/**
+ * Time Picker Module
+ *
+ * Export: `TimePicker` - Hour/minute(/second) wheels built on PickerGroup
+ */
+
+export { default } from './TimePicker';
+export { default as TimePicker } from './TimePicker';
+export type { TimePickerProps } from './TimePicker';
+export { detectHourCycle, type TimeValue, type TimeHourCycle } from './timeUtils';
@@ -0,0 +1,177 @@
+/**
+ * Pure time helpers for TimePicker: hour-cycle detection, grid snapping and min/max clamping.
+ * Times are handled as seconds since midnight so range checks stay simple comparisons.
+ */
+
+export interface TimeValue {
+  /** 0-23 */
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/** `h12`: 1-12 with an AM/PM column, `h23`: 00-23 */
+export type TimeHourCycle = 'h12' | 'h23';
+
+export interface TimeGrid {
+  /** Selectable minutes within an hour (multiples of `minuteStep`) */
+  minutes: number[];
+  /** Whether the seconds column is shown; hidden seconds are always 0 */
+  showSeconds: boolean;
+}
+
+export interface TimeRange {
+  /** Earliest selectable time (seconds since midnight) */
+  min: number;
+  /** Latest selectable time (seconds since midnight) */
+  max: number;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Detects whether `locale` formats hours on a 12h clock.
+ * @param {string} [locale] - BCP 47 tag; defaults to the runtime locale
+ * @returns {TimeHourCycle}
+ */
+export const detectHourCycle = (locale?: string): TimeHourCycle => {
+  try {
+    const resolved = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions();
+    if (resolved.hourCycle) {
+      return resolved.hourCycle === 'h11' || resolved.hourCycle === 'h12' ? 'h12' : 'h23';
+    }
+    return resolved.hour12 ? 'h12' : 'h23';
+  } catch {
+    return 'h23';
+  }
+};
+
+/**
+ * Localized AM/PM labels (e.g. "a.m."/"p.m."), falling back to "AM"/"PM".
+ * @param {string} [locale]
+ * @returns {[string, string]}
+ */
+export const getDayPeriodLabels = (locale?: string): [string, string] => {
+  try {
+    const formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true });
+    const labelFor = (hours: number) =>
+      formatter.formatToParts(new Date(2000, 0, 1, hours)).find((part) => part.type === 'dayPeriod')
+        ?.value;
+    return [labelFor(9) ?? 'AM', labelFor(21) ?? 'PM'];
+  } catch {
+    return ['AM', 'PM'];
+  }
+};
+
+export const toSeconds = ({ hours, minutes, seconds }: TimeValue) =>
+  hours * 3600 + minutes * 60 + seconds;
+
+export const fromSeconds = (total: number): TimeValue => {
+  const wrapped = ((Math.floor(total) % SECONDS_PER_DAY) + SECONDS_PER_DAY) % SECONDS_PER_DAY;
+  return {
+    hours: Math.floor(wrapped / 3600),
+    minutes: Math.floor((wrapped % 3600) / 60),
+    seconds: wrapped % 60,
+  };
+};
+
+/**
+ * Reads a `{ hours, minutes, seconds }` object or the local time of a `Date`.
+ * @param {TimeValue | Date} value
+ * @returns {TimeValue}
+ */
+export const toTimeValue = (value: Partial<TimeValue> | Date): TimeValue => {
+  if (value instanceof Date) {
+    return { hours: value.getHours(), minutes: value.getMinutes(), seconds: value.getSeconds() };
+  }
+  return fromSeconds(toSeconds({ hours: 0, minutes: 0, seconds: 0, ...value }));
+};
+
+/**
+ * Minutes of the hour that are selectable with `minuteStep`.
+ * @param {number} minuteStep - Values < 1 or non-integers fall back to 1
+ * @returns {number[]}
+ */
+export const buildMinuteGrid = (minuteStep: number): number[] => {
+  const step = Number.isInteger(minuteStep) && minuteStep >= 1 ? Math.min(minuteStep, 60) : 1;
+  return Array.from({ length: Math.ceil(60 / step) }, (_, index) => index * step);
+};
+
+/**
+ * Moves minutes down to the nearest grid minute; drops seconds when they are hidden.
+ * @param {TimeValue} time
+ * @param {TimeGrid} grid
+ * @returns {TimeValue}
+ */
+export const snapToGrid = (time: TimeValue, grid: TimeGrid): TimeValue => {
+  const minutes = grid.minutes.reduce(
+    (best, candidate) => (candidate <= time.minutes ? candidate : best),
+    grid.minutes[0] ?? 0
+  );
+  return { hours: time.hours, minutes, seconds: grid.showSeconds ? time.seconds : 0 };
+};
+
+/**
+ * Whether any selectable second in [start, end] falls inside `range`.
+ * @param {number} start - Seconds since midnight
+ * @param {number} end - Seconds since midnight
+ * @param {TimeRange | null} range
+ * @returns {boolean}
+ */
+export const overlapsRange = (start: number, end: number, range: TimeRange | null) =>
+  !range || (end >= range.min && start <= range.max);
+
+/**
+ * Seconds covered by one minute row of the grid (a single second when seconds are hidden).
+ * @param {number} hours
+ * @param {number} minutes
+ * @param {TimeGrid} grid
+ * @returns {[number, number]}
+ */
+export const minuteSpan = (hours: number, minutes: number, grid: TimeGrid): [number, number] => {
+  const start = hours * 3600 + minutes * 60;
+  return [start, grid.showSeconds ? start + 59 : start];
+};
+
+/**
+ * Moves a grid time into `range`: too-early times go to the first selectable time at or after
+ * `range.min`, too-late times to the last one at or before `range.max`.
+ * @param {TimeValue} time - Already snapped to the grid
+ * @param {TimeGrid} grid
+ * @param {TimeRange | null} range
+ * @returns {TimeValue}
+ */
+export const clampToRange = (time: TimeValue, grid: TimeGrid, range: TimeRange | null) => {
+  if (!range) return time;
+  const total = toSeconds(time);
+  if (total >= range.min && total <= range.max) return time;
+
+  const spans: Array<[number, number]> = [];
+  for (let hours = 0; hours < 24; hours += 1) {
+    for (const minutes of grid.minutes) {
+      spans.push(minuteSpan(hours, minutes, grid));
+    }
+  }
+
+  const selectable = spans.filter(([start, end]) => overlapsRange(start, end, range));
+  if (selectable.length === 0) return time;
+  if (total < range.min) {
+    return fromSeconds(Math.max(selectable[0][0], range.min));
+  }
+  return fromSeconds(Math.min(selectable[selectable.length - 1][1], range.max));
+};
+
+/**
+ * Converts a 24h hour to the 12h clock.
+ * @param {number} hours - 0-23
+ * @returns {{ hour12: number, isPm: boolean }} - `hour12` is 1-12
+ */
+export const toHour12 = (hours: number) => ({ hour12: hours % 12 || 12, isPm: hours >= 12 });
+
+/**
+ * Converts a 12h hour and day period back to 0-23.
+ * @param {number} hour12 - 1-12
+ * @param {boolean} isPm
+ * @returns {number}
+ */
+export const fromHour12 = (hour12: number, isPm: boolean) => (hour12 % 12) + (isPm ? 12 : 0);
@@ -1 +1,8 @@
 export type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+export type { PickerColumnVariant } from '../picker/types/variant';
+export type { PickerOrientation } from '../picker/types/orientation';
+export type { PickerColumnHandle, PickerScrollOptions } from '../picker/types/handle';
+export type {
+  AnimateExternalChanges,
+  ExternalChangeTransition,
+} from '../picker/types/externalChanges';
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   countDecimals,
+  createRangeSource,
   generateRangeOptions,
   normalizeOptions,
   mergeSnapConfig,
@@ -162,6 +163,57 @@ describe('generateRangeOptions', () => {
   });
 });
 
+// ============ createRangeSource Tests ============
+
+describe('createRangeSource', () => {
+  it('matches generateRangeOptions row for row', () => {
+    const range = { min: 0.5, max: 3, step: 0.25 };
+    const options = generateRangeOptions(range);
+    const source = createRangeSource(range);
+
+    expect(source.count).toBe(options.length);
+    options.forEach((option, index) => {
+      expect(source.valueAt(index)).toBe(option.value);
+      expect(source.labelAt(index)).toBe(option.label);
+      expect(source.indexOf(option.value)).toBe(index);
+    });
+  });
+
+  it('describes huge ranges without allocating them', () => {
+    const source = createRangeSource({ min: 0, max: 100000, step: 0.01 });
+
+    expect(source.count).toBe(10000001);
+    expect(source.valueAt(150)).toBe(1.5);
+    expect(source.indexOf(99999.99)).toBe(9999999);
+    expect(source.labelAt(10000000)).toBe('100000');
+  });
+
+  it('returns -1 for values off the range or between steps', () => {
+    const source = createRangeSource({ min: 10, max: 20, step: 2 });
+
+    expect(source.indexOf(8)).toBe(-1);
+    expect(source.indexOf(11)).toBe(-1);
+    expect(source.indexOf(22)).toBe(-1);
+    expect(source.indexOf('')).toBe(-1);
+    expect(source.indexOf('14')).toBe(2);
+  });
+
+  it('has no last row when max is Infinity', () => {
+    const source = createRangeSource({ min: 1, max: Infinity, step: 1 });
+
+    expect(source.count).toBe(Infinity);
+    expect(source.valueAt(1_000_000)).toBe(1_000_001);
+    expect(source.indexOf(5_000_000)).toBe(4_999_999);
+  });
+
+  it('falls back to a single row for an invalid step', () => {
+    const source = createRangeSource({ min: 3, max: 10, step: 0 });
+
+    expect(source.count).toBe(1);
+    expect(source.valueAt(0)).toBe(3);
+  });
+});
+
 // ============ normalizeOptions Tests ============
 
 describe('normalizeOptions', () => {
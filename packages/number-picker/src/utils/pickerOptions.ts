@@ -4,7 +4,9 @@
  */
 
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerRangeSource } from '../picker/types/rangeSource';
 import { DEFAULT_SNAP_PHYSICS } from '../config/physics';
+import { LAZY_RANGE_THRESHOLD } from '../config/ui';
 import {
   countDecimals as countDecimalsUtil,
   createFormatter as createFormatterUtil,
@@ -16,6 +18,12 @@ export interface PickerOption {
   value: string | number;
   label?: string;
   accentColor?: string;
+  /** Shown in the list but never selectable (e.g. sold-out sizes) */
+  disabled?: boolean;
+  /** Name read by screen readers instead of `label` (e.g. `Extra large` for `XL`) */
+  ariaLabel?: string;
+  /** Extra detail read by screen readers after the name (e.g. `Sold out`) */
+  ariaDescription?: string;
 }
 
 export interface NormalizedPickerOption {
@@ -23,6 +31,9 @@ export interface NormalizedPickerOption {
   label: string;
   key: string;
   accentColor?: string;
+  disabled?: boolean;
+  ariaLabel?: string;
+  ariaDescription?: string;
 }
 
 export interface RangeGenerationOptions {
@@ -33,6 +44,10 @@ export interface RangeGenerationOptions {
    * Optional formatter function. If not provided, uses default decimal-aware formatting.
    */
   formatter?: (value: number) => string;
+  /** Locale for the default formatter (e.g. `de-DE` labels `82,5`); ignored with `formatter` */
+  locale?: string;
+  /** `Intl.NumberFormat` options for the default formatter; ignored with `formatter` */
+  formatOptions?: Intl.NumberFormatOptions;
 }
 
 // ============ Range Generation ============
@@ -57,10 +72,13 @@ export const generateRangeOptions = ({
   max,
   step,
   formatter,
+  locale,
+  formatOptions,
 }: RangeGenerationOptions): NormalizedPickerOption[] => {
   // Handle invalid step
   if (step <= 0) {
-    const defaultFormatter = formatter ?? createFormatter(countDecimals(min));
+    const defaultFormatter =
+      formatter ?? createFormatter(countDecimals(min), locale, formatOptions);
     const label = defaultFormatter(min);
     return [
       {
@@ -74,7 +92,7 @@ export const generateRangeOptions = ({
   // Calculate decimal places for precision
   const decimalPlaces = Math.max(countDecimals(step), countDecimals(min), countDecimals(max), 0);
 
-  const defaultFormatter = formatter ?? createFormatter(decimalPlaces);
+  const defaultFormatter = formatter ?? createFormatter(decimalPlaces, locale, formatOptions);
 
   // Use integer scaling to avoid floating-point errors
   const scale = Math.pow(10, decimalPlaces);
@@ -100,6 +118,70 @@ export const generateRangeOptions = ({
   return options;
 };
 
+/**
+ * Lazy counterpart of `generateRangeOptions`: the same values and labels, computed per index
+ * instead of allocated up front. `max: Infinity` gives a range without an upper end.
+ *
+ * @param options - Range configuration
+ * @returns Range source for `PickerColumn`'s `source` prop
+ *
+ * @example
+ * const source = createRangeSource({ min: 0, max: 100000, step: 0.01 })
+ * source.count // 10000001
+ * source.valueAt(150) // 1.5
+ * source.indexOf(1.5) // 150
+ */
+export const createRangeSource = ({
+  min,
+  max,
+  step,
+  formatter,
+  locale,
+  formatOptions,
+}: RangeGenerationOptions): PickerRangeSource => {
+  // Invalid step: a single row, like generateRangeOptions
+  const validStep = step > 0;
+  const decimalPlaces = validStep
+    ? Math.max(countDecimals(step), countDecimals(min), countDecimals(max), 0)
+    : countDecimals(min);
+  const format = formatter ?? createFormatter(decimalPlaces, locale, formatOptions);
+
+  // Integer scaling keeps values free of floating-point drift
+  const scale = Math.pow(10, decimalPlaces);
+  const scaledMin = Math.round(min * scale);
+  const scaledStep = validStep ? Math.round(step * scale) : 1;
+  const count = !validStep
+    ? 1
+    : Number.isFinite(max)
+      ? Math.max(0, Math.floor((Math.round(max * scale) - scaledMin) / scaledStep) + 1)
+      : Infinity;
+
+  const valueAt = (index: number) => (scaledMin + index * scaledStep) / scale;
+
+  return {
+    count,
+    valueAt,
+    indexOf: (value) => {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'string' && value.trim() === '') return -1;
+      if (!Number.isFinite(numeric)) return -1;
+      const offset = Math.round(numeric * scale) - scaledMin;
+      if (offset < 0 || offset % scaledStep !== 0) return -1;
+      const index = offset / scaledStep;
+      return index < count ? index : -1;
+    },
+    labelAt: (index) => format(valueAt(index)),
+  };
+};
+
+/**
+ * Whether a range is too large (or unbounded) to build as an option array. Smaller ranges keep
+ * array options, so per-row features such as measured row heights keep working.
+ * @param {PickerRangeSource} source
+ * @returns {boolean}
+ */
+export const isLazyRange = (source: PickerRangeSource) => source.count > LAZY_RANGE_THRESHOLD;
+
 // ============ Option Normalization ============
 
 /**
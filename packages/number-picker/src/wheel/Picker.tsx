@@ -1,15 +1,37 @@
-import React, { useMemo, useCallback, type CSSProperties } from 'react';
+import React, {
+  forwardRef,
+  useCallback,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  type CSSProperties,
+} from 'react';
 import PickerGroup, { type PickerOption as PickerGroupOption } from '../picker';
+import type { PickerColumnHandle } from '../picker/types/handle';
 import type { SnapPhysicsConfig } from '../picker/types/snapPhysics';
+import type { PickerColumnVariant } from '../picker/types/variant';
+import type { PickerOrientation } from '../picker/types/orientation';
+import type { PickerDirection } from '../picker/types/direction';
+import type { AnimateExternalChanges } from '../picker/types/externalChanges';
+import type { PickerFallback } from '../picker/types/fallback';
+import type { PickerStepperLabels, PickerSteppers } from '../picker/types/steppers';
+import type { PickerValidationMessages } from '../picker/types/validation';
+import { createGestureEmitter } from '../picker/gestures';
+import { clamp, wrapIndex } from '../picker/utils/math';
+import { stepToEnabledIndex } from '../picker/utils/enabledOptions';
 import {
-  generateRangeOptions,
+  createRangeSource,
+  isLazyRange,
   normalizeOptions,
   mergeSnapConfig,
   type PickerOption,
   type NormalizedPickerOption,
 } from '../utils/pickerOptions';
 import { createFeedbackAdapters, type FeedbackAdapters } from '../quick/feedback';
-import { usePickerGestureFeedback } from '../shared/hooks';
+import { useNativeFallback, usePickerGestureFeedback } from '../shared/hooks';
+import { FormValueInput, rangeValidationMessage } from '../shared/FormValueInput';
+import { StepperButtons } from '../shared/StepperButtons';
 
 // Shared empty props object to avoid allocations for large datasets
 const EMPTY_PROPS = {};
@@ -24,9 +46,14 @@ export interface PickerProps {
   onChange: (value: string | number) => void;
   options?: PickerOption[];
   min?: number;
+  /** Last value of the range; `Infinity` for a range that keeps going as the user scrolls */
   max?: number;
   step?: number;
   unit?: string;
+  /** Format range labels and `aria-valuetext` for this locale (e.g. `de-DE` shows `82,5`) */
+  locale?: string;
+  /** `Intl.NumberFormat` options for range labels, e.g. `{ minimumFractionDigits: 2 }` */
+  formatOptions?: Intl.NumberFormatOptions;
   visibleItems?: number;
   itemHeight?: number;
   className?: string;
@@ -36,14 +63,55 @@ export interface PickerProps {
   snapPhysicsConfig?: Partial<SnapPhysicsConfig>;
   wheelSensitivity?: number;
   wheelDeltaCap?: number;
+  /** Rows an arrow key or wheel step covers while Shift is held (Alt: one row); default 10 */
+  coarseMultiplier?: number;
+  /** Wrap around at both ends instead of stopping at min/max (e.g. minutes, degrees) */
+  loop?: boolean;
+  /** `cylinder` renders a 3D drum (iOS style) instead of the flat list */
+  variant?: PickerColumnVariant;
+  /** `horizontal` scrolls along X (rulers, carousels); `itemHeight` is then the item width */
+  orientation?: PickerOrientation;
+  /** Reading direction (detected when omitted); RTL mirrors horizontal items and arrow keys */
+  dir?: PickerDirection;
+  /** Accessible name of the wheel; also prefixes the announced value */
+  'aria-label'?: string;
+  /** Id of the element naming the wheel (instead of `aria-label`) */
+  'aria-labelledby'?: string;
+  /** Ignore all input, dim the picker, and remove it from the tab order */
+  disabled?: boolean;
+  /** Show the value without letting the user change it (stays focusable) */
+  readOnly?: boolean;
+  /** Scroll to `value` changes made outside the picker instead of jumping (no haptics/audio) */
+  animateExternalChanges?: AnimateExternalChanges;
+  /**
+   * Render a native `<select>` (options) or `<input type="number">` (ranges) instead of the
+   * wheel: always (`native`), or on touch-only devices, under forced colors, and in server
+   * markup (`auto`). `renderItem`, physics, and feedback don't apply to native controls.
+   */
+  fallback?: PickerFallback;
+  /**
+   * Show −/+ buttons next to the wheel: stacked at its end (`inline`) or on both sides
+   * (`flanking`). Holding a button repeats with acceleration; not shown with `fallback`.
+   */
+  steppers?: PickerSteppers;
+  /** Names of the stepper buttons (default: `Increase`/`Decrease` followed by `aria-label`) */
+  stepperLabels?: PickerStepperLabels;
   renderItem?: (
     option: NormalizedPickerOption,
-    state: { selected: boolean; visuallySelected: boolean }
+    state: { selected: boolean; visuallySelected: boolean; disabled: boolean }
   ) => React.ReactNode;
   /** Enable haptic feedback on value changes (requires device support) */
   enableHaptics?: boolean;
   /** Enable audio feedback on value commit (requires user interaction) */
   enableAudioFeedback?: boolean;
+  /** Submit the value with the surrounding form under this name (also enables reset/validation) */
+  name?: string;
+  /** Id of the form to join when the picker isn't inside it */
+  form?: string;
+  /** Fail form validation while `value` is empty */
+  required?: boolean;
+  /** Replace the English messages the form field reports for an invalid `value` */
+  validationMessages?: PickerValidationMessages;
   /** Override default feedback patterns and adapters */
   feedbackOverrides?: {
     haptics?: {
@@ -61,6 +129,12 @@ export interface PickerProps {
   };
 }
 
+/**
+ * Imperative handle exposed by `Picker` (via `ref`). Same methods as `PickerColumnHandle`,
+ * but values are the `value`s of your options (or range numbers), not internal keys.
+ */
+export type PickerHandle = PickerColumnHandle;
+
 // Re-export PickerOption for convenience
 export type { PickerOption as PickerOptionType };
 
@@ -84,6 +158,13 @@ const clampVisibleItems = (visibleItems?: number): number => {
  * - Snap-to-item physics (optional)
  * - Custom item rendering
  * - Numeric ranges or custom options
+ * - Native form fields (`name`): submitted with `FormData`, restored on reset, and validated
+ *   against `required` and the range/options
+ * - Locale-aware range labels (`locale`, `formatOptions`)
+ * - Shift/Alt for coarse/fine arrow and wheel steps; held arrows accelerate
+ * - Screen reader listbox semantics; settled values are announced through a live region
+ * - Native `<select>`/`<input type="number">` fallback (`fallback`)
+ * - Stepper buttons with press-and-hold repeat (`steppers`)
  *
  * For interactive open/close behavior, see CollapsiblePicker.
  * For multi-column pickers (time, date), see Picker.Group.
@@ -111,30 +192,57 @@ const clampVisibleItems = (visibleItems?: number): number => {
  *     { value: 'hard', label: 'Hard' }
  *   ]}
  * />
+ *
+ * // Programmatic control
+ * const pickerRef = useRef<PickerHandle>(null);
+ * <Picker ref={pickerRef} value={day} onChange={setDay} min={1} max={31} />
+ * pickerRef.current?.scrollToValue(today);
  * ```
  */
-const Picker: React.FC<PickerProps> = ({
-  value,
-  onChange,
-  options,
-  min = 0,
-  max = 0,
-  step = 1,
-  unit = '',
-  visibleItems = 5,
-  itemHeight = 48,
-  className = '',
-  accentColor = '#3EDCFF',
-  highlightColor,
-  enableSnapPhysics = false,
-  snapPhysicsConfig,
-  wheelSensitivity,
-  wheelDeltaCap,
-  renderItem,
-  enableHaptics = false,
-  enableAudioFeedback = false,
-  feedbackOverrides,
-}) => {
+const Picker = forwardRef<PickerHandle, PickerProps>(function Picker(
+  {
+    value,
+    onChange,
+    options,
+    min = 0,
+    max = 0,
+    step = 1,
+    unit = '',
+    locale,
+    formatOptions,
+    visibleItems = 5,
+    itemHeight = 48,
+    className = '',
+    accentColor = '#3EDCFF',
+    highlightColor,
+    enableSnapPhysics = false,
+    snapPhysicsConfig,
+    wheelSensitivity,
+    wheelDeltaCap,
+    coarseMultiplier,
+    loop = false,
+    variant = 'flat',
+    orientation = 'vertical',
+    dir,
+    'aria-label': ariaLabel,
+    'aria-labelledby': ariaLabelledBy,
+    disabled = false,
+    readOnly = false,
+    animateExternalChanges,
+    fallback,
+    steppers,
+    stepperLabels,
+    renderItem,
+    enableHaptics = false,
+    enableAudioFeedback = false,
+    feedbackOverrides,
+    name,
+    form,
+    required = false,
+    validationMessages,
+  },
+  ref
+) {
   // Create feedback adapters (only when enabled)
   const adapters = useMemo<FeedbackAdapters>(
     () =>
@@ -150,12 +258,22 @@ const Picker: React.FC<PickerProps> = ({
   // Use shared gesture-to-feedback mapping hook (SRP)
   const handleGesture = usePickerGestureFeedback(adapters);
 
-  const normalizedOptions = useMemo<NormalizedPickerOption[]>(() => {
-    if (options && options.length > 0) {
-      return normalizeOptions(options);
-    }
-    return generateRangeOptions({ min, max: max >= min ? max : min, step });
-  }, [options, min, max, step]);
+  const isGenerated = !options || options.length === 0;
+  const native = useNativeFallback(fallback);
+
+  // Numeric ranges are read by index; only huge or unbounded ones skip the option array
+  const rangeSource = useMemo(
+    () =>
+      isGenerated
+        ? createRangeSource({ min, max: max >= min ? max : min, step, locale, formatOptions })
+        : null,
+    [isGenerated, min, max, step, locale, formatOptions]
+  );
+
+  const normalizedOptions = useMemo<NormalizedPickerOption[]>(
+    () => (isGenerated ? [] : normalizeOptions(options)),
+    [isGenerated, options]
+  );
 
   const maps = useMemo(() => {
     const valueToKey = new Map<string | number, string>();
@@ -170,40 +288,106 @@ const Picker: React.FC<PickerProps> = ({
   const selectedOption =
     normalizedOptions.find((opt) => opt.value === value) ?? normalizedOptions[0];
 
+  // Range values go to the column as numbers; option values travel as their keys
   const pickerValue = useMemo(
-    () => ({ value: (maps.valueToKey.get(value) ?? selectedOption?.key ?? '') as string }),
-    [maps.valueToKey, selectedOption?.key, value]
+    () => ({
+      value: rangeSource
+        ? rangeSource.valueAt(Math.max(0, rangeSource.indexOf(value)))
+        : ((maps.valueToKey.get(value) ?? selectedOption?.key ?? '') as string),
+    }),
+    [maps.valueToKey, rangeSource, selectedOption?.key, value]
   );
 
-  const handleValueChange = (next: { value: string }) => {
-    const option = maps.keyToOption.get(next.value);
+  const handleValueChange = (next: { value: string | number }) => {
+    if (rangeSource) {
+      onChange(next.value);
+      return;
+    }
+    const option = maps.keyToOption.get(String(next.value));
     if (!option) return;
     onChange(option.value);
   };
 
+  // Stepper buttons move through the range (or the enabled options) like arrow keys
+  const currentIndex = rangeSource
+    ? Math.max(0, rangeSource.indexOf(value))
+    : normalizedOptions.indexOf(selectedOption);
+  const stepIndex = (delta: number) => {
+    if (!rangeSource) return stepToEnabledIndex(normalizedOptions, currentIndex, delta, loop);
+    const count = rangeSource.count;
+    return loop && Number.isFinite(count)
+      ? wrapIndex(currentIndex + delta, count)
+      : clamp(currentIndex + delta, 0, count - 1);
+  };
+  const stepLocked = disabled || readOnly;
+  const handleStep = (delta: number) => {
+    const nextIndex = stepIndex(delta);
+    if (stepLocked || nextIndex === currentIndex) return;
+    const next = rangeSource
+      ? rangeSource.valueAt(nextIndex)
+      : (normalizedOptions[nextIndex]?.key ?? '');
+    handleValueChange({ value: next });
+    const emitter = createGestureEmitter(handleGesture);
+    emitter.visualChange(next, nextIndex);
+    emitter.valueCommit(next, nextIndex);
+  };
+  const columnId = useId();
+
+  // Form reset restores the value the picker was mounted with
+  const initialValueRef = useRef(value);
+  const handleFormReset = useCallback(() => onChange(initialValueRef.current), [onChange]);
+
+  // Range values must be on the range; option values must name an enabled option
+  const validationMessage = useMemo(() => {
+    if (value === '') return '';
+    if (rangeSource) {
+      if (rangeSource.indexOf(value) !== -1) return '';
+      return (
+        rangeValidationMessage(Number(value), min, max, validationMessages) ||
+        (validationMessages?.offStep?.(step, min) ??
+          `Value must be a multiple of ${step} from ${min}.`)
+      );
+    }
+    const option = normalizedOptions.find((opt) => opt.value === value);
+    if (option && !option.disabled) return '';
+    return validationMessages?.unknownOption ?? 'Select one of the available options.';
+  }, [max, min, normalizedOptions, rangeSource, step, validationMessages, value]);
+
   const effectiveVisibleItems = clampVisibleItems(visibleItems);
   const pickerHeight = itemHeight * effectiveVisibleItems;
-  const isGenerated = !options || options.length === 0;
 
   const mergedHighlight = highlightColor ?? accentColor;
   const mergedSnapConfig = mergeSnapConfig(enableSnapPhysics, snapPhysicsConfig);
 
   // Shared render function eliminates n function closures for scalability
   const sharedRender = useCallback(
-    (state: { selected: boolean; visuallySelected: boolean; value: string | number }) => {
-      const option = maps.keyToOption.get(String(state.value));
+    (state: {
+      selected: boolean;
+      visuallySelected: boolean;
+      value: string | number;
+      disabled: boolean;
+    }) => {
+      const rangeIndex = rangeSource ? rangeSource.indexOf(state.value) : -1;
+      const option: NormalizedPickerOption | undefined = rangeSource
+        ? {
+            key: `range-${rangeIndex}`,
+            value: state.value,
+            label: rangeSource.labelAt(rangeIndex),
+          }
+        : maps.keyToOption.get(String(state.value));
       if (!option) return null;
 
       if (renderItem) {
         return renderItem(option, {
           selected: state.selected,
           visuallySelected: state.visuallySelected,
+          disabled: state.disabled,
         });
       }
 
       return (
         <div
-          className={`np-wheel-item ${state.selected || state.visuallySelected ? 'np-wheel-item-selected' : ''}`}
+          className={`np-wheel-item ${state.selected || state.visuallySelected ? 'np-wheel-item-selected' : ''} ${state.disabled ? 'np-wheel-item-disabled' : ''}`}
           style={{
             color:
               state.selected || state.visuallySelected
@@ -216,18 +400,64 @@ const Picker: React.FC<PickerProps> = ({
         </div>
       );
     },
-    [accentColor, isGenerated, maps.keyToOption, renderItem, unit]
+    [accentColor, isGenerated, maps.keyToOption, rangeSource, renderItem, unit]
   );
 
+  // The native number input reads its min/max/step off the source, whatever the range size
+  const lazyRange = rangeSource !== null && (native || isLazyRange(rangeSource));
+
   // Direct options array bypasses O(n²) registration for scalability
-  const pickerOptions = useMemo<PickerGroupOption[]>(
-    () =>
-      normalizedOptions.map((option) => ({
-        value: option.key,
-        render: sharedRender, // Same function reference for all items!
-        props: EMPTY_PROPS, // Shared empty object
-      })),
-    [normalizedOptions, sharedRender]
+  const pickerOptions = useMemo<PickerGroupOption[]>(() => {
+    if (rangeSource) {
+      if (lazyRange) return [];
+      return Array.from({ length: rangeSource.count }, (_, index) => ({
+        value: rangeSource.valueAt(index),
+        render: sharedRender,
+        props: EMPTY_PROPS,
+        // Typeahead matches the plain value like range sources do; the label is what's read out
+        ariaLabel: rangeSource.labelAt(index),
+      }));
+    }
+    return normalizedOptions.map((option) => ({
+      value: option.key,
+      render: sharedRender, // Same function reference for all items!
+      props: EMPTY_PROPS, // Shared empty object
+      disabled: option.disabled,
+      textValue: option.label,
+      ariaLabel: option.ariaLabel,
+      ariaDescription: option.ariaDescription,
+    }));
+  }, [lazyRange, normalizedOptions, rangeSource, sharedRender]);
+
+  const columnRef = useRef<PickerColumnHandle>(null);
+  // Form validation reports land on the wheel instead of the hidden form field
+  const focusColumn = useCallback(() => columnRef.current?.focus(), []);
+
+  // The column works in option keys; translate to/from the caller's values
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToValue: (target, scrollOptions) => {
+        if (rangeSource) {
+          columnRef.current?.scrollToValue(target, scrollOptions);
+          return;
+        }
+        const targetKey = maps.valueToKey.get(target);
+        if (targetKey !== undefined) {
+          columnRef.current?.scrollToValue(targetKey, scrollOptions);
+        }
+      },
+      scrollByItems: (count, scrollOptions) =>
+        columnRef.current?.scrollByItems(count, scrollOptions),
+      stopMomentum: () => columnRef.current?.stopMomentum(),
+      focus: () => columnRef.current?.focus(),
+      getVisualValue: () => {
+        const visualKey = columnRef.current?.getVisualValue();
+        if (rangeSource || visualKey === undefined) return visualKey;
+        return maps.keyToOption.get(String(visualKey))?.value;
+      },
+    }),
+    [maps, rangeSource]
   );
 
   // Memoize container style to avoid recreation
@@ -240,26 +470,68 @@ const Picker: React.FC<PickerProps> = ({
   );
 
   return (
-    <div className={`np-wheel-picker ${className}`} style={containerStyle}>
-      <div className="np-wheel-container">
-        <PickerGroup
-          value={pickerValue}
-          onChange={handleValueChange}
-          height={pickerHeight}
-          itemHeight={itemHeight}
-          wheelSensitivity={wheelSensitivity}
-          wheelDeltaCap={wheelDeltaCap}
-        >
-          <PickerGroup.Column
-            name="value"
-            snapConfig={mergedSnapConfig}
-            options={pickerOptions}
-            onGesture={handleGesture}
-          />
-        </PickerGroup>
-      </div>
+    <div
+      className={`np-wheel-picker ${native ? 'np-wheel-picker-native' : ''} ${className}`}
+      style={containerStyle}
+    >
+      <StepperButtons
+        layout={native ? undefined : steppers}
+        onStep={handleStep}
+        canDecrement={!stepLocked && stepIndex(-1) !== currentIndex}
+        canIncrement={!stepLocked && stepIndex(1) !== currentIndex}
+        label={ariaLabel}
+        labels={stepperLabels}
+        controls={columnId}
+        coarseMultiplier={coarseMultiplier}
+      >
+        <div className="np-wheel-container">
+          <PickerGroup
+            value={pickerValue}
+            onChange={handleValueChange}
+            height={pickerHeight}
+            itemHeight={itemHeight}
+            wheelSensitivity={wheelSensitivity}
+            wheelDeltaCap={wheelDeltaCap}
+            orientation={orientation}
+            dir={dir}
+            disabled={disabled}
+            readOnly={readOnly}
+            fallback={native ? 'native' : undefined}
+          >
+            <PickerGroup.Column
+              ref={columnRef}
+              id={columnId}
+              name="value"
+              aria-label={ariaLabel}
+              aria-labelledby={ariaLabelledBy}
+              snapConfig={mergedSnapConfig}
+              options={pickerOptions}
+              source={lazyRange ? rangeSource : undefined}
+              renderSourceItem={sharedRender}
+              loop={loop}
+              variant={variant}
+              coarseMultiplier={coarseMultiplier}
+              animateExternalChanges={animateExternalChanges}
+              onGesture={handleGesture}
+            />
+          </PickerGroup>
+          {native && unit && isGenerated && <span className="np-wheel-unit">{unit}</span>}
+        </div>
+      </StepperButtons>
+      {name && (
+        <FormValueInput
+          name={name}
+          form={form}
+          value={String(value)}
+          required={required}
+          disabled={disabled}
+          validationMessage={validationMessage}
+          onReset={handleFormReset}
+          focusPicker={focusColumn}
+        />
+      )}
     </div>
   );
-};
+});
 
 export default Picker;
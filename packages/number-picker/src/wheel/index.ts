@@ -6,7 +6,7 @@
 
 export { default } from './Picker';
 export { default as Picker } from './Picker';
-export type { PickerProps, PickerOptionType } from './Picker';
+export type { PickerProps, PickerOptionType, PickerHandle } from './Picker';
 
 // Re-export types for convenience
 export type { PickerOption, NormalizedPickerOption } from '../utils/pickerOptions';
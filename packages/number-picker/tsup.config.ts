@@ -5,6 +5,9 @@ export default defineConfig({
     'picker/index': 'src/picker/index.ts',
     'quick/index': 'src/quick/index.ts',
     'wheel/index': 'src/wheel/index.ts',
+    'time/index': 'src/time/index.ts',
+    'date/index': 'src/date/index.ts',
+    'range/index': 'src/range/index.ts',
     'config/index': 'src/config/index.ts',
     'types/index': 'src/types/index.ts',
   },